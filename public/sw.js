@@ -0,0 +1,96 @@
+// sw.js — offline cache for the app shell and assets.
+//
+//   - hashed build assets (assets/*): cache first,
+//   - everything else same-origin: network first, cache as fallback,
+//   - model weights (.onnx) are skipped: model-cache.ts versions those,
+//   - the page posts the URLs it loaded before this worker took control
+//     ({ type: "cache-urls" }), so the first visit is enough to go offline.
+
+const CACHE = "questcam2ar-app-v1";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => cache.add(self.registration.scope))
+      .catch((e) => console.warn("[SW] Precache failed", e))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((k) => k.startsWith("questcam2ar-app-") && k !== CACHE)
+            .map((k) => caches.delete(k)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("message", (event) => {
+  const msg = event.data;
+  if (!msg || msg.type !== "cache-urls" || !Array.isArray(msg.urls)) return;
+
+  event.waitUntil(
+    caches.open(CACHE).then((cache) =>
+      Promise.all(
+        msg.urls.filter(shouldCache).map((url) =>
+          cache.match(url).then(
+            (hit) =>
+              hit ||
+              cache
+                .add(url)
+                .catch((e) => console.warn("[SW] Could not cache", url, e)),
+          ),
+        ),
+      ),
+    ),
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const req = event.request;
+  if (req.method !== "GET" || req.headers.has("range")) return;
+  if (!shouldCache(req.url)) return;
+
+  const url = new URL(req.url);
+  event.respondWith(
+    url.pathname.includes("/assets/") ? cacheFirst(req) : networkFirst(req),
+  );
+});
+
+function shouldCache(href) {
+  const url = new URL(href, self.registration.scope);
+  return url.origin === self.location.origin && !url.pathname.endsWith(".onnx");
+}
+
+async function cacheFirst(req) {
+  const cache = await caches.open(CACHE);
+  const hit = await cache.match(req);
+  if (hit) return hit;
+
+  const res = await fetch(req);
+  if (res.ok) cache.put(req, res.clone());
+  return res;
+}
+
+async function networkFirst(req) {
+  const cache = await caches.open(CACHE);
+  try {
+    const res = await fetch(req);
+    if (res.ok) cache.put(req, res.clone());
+    return res;
+  } catch (e) {
+    const hit =
+      (await cache.match(req, { ignoreSearch: req.mode === "navigate" })) ||
+      (req.mode === "navigate" && (await cache.match(self.registration.scope)));
+    if (hit) return hit;
+    throw e;
+  }
+}
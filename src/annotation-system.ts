@@ -0,0 +1,522 @@
+// annotation-system.ts
+//
+// In-headset box labeling on the camera panel (box editing in annotation.ts).
+//
+// Off by default: the right grip is also IWSDK's grab button and dataset
+// capture's save button. Turn it on with ?annotate or
+// globals.annotation.setEnabled(true). While on, right grip freezes the
+// current camera frame (only when no other mode owns the panel): it becomes
+// globals.frameSource until the frame is saved or discarded, and the
+// current detections become editable boxes. Drag on the panel to draw,
+// move or resize boxes; a class panel beside the camera panel picks the
+// class of the selected box and of new ones, and holds Delete / Save /
+// Discard / Export. Right grip again saves.
+//
+// Saved frames go to globals.datasetCapture (with the frame's intrinsics
+// and viewer pose), so hand-labeled and captured frames share one export.
+// CameraPanelSystem draws globals.panelAnnotation instead of detections
+// while a frame is frozen. globals.annotation: setEnabled / start / save /
+// discard / boxes / setClass / deleteSelected.
+
+import { createSystem } from "@iwsdk/core";
+import * as THREE from "three";
+import {
+  AnnotationEdit,
+  AnnotationView,
+  applyEdit,
+  beginEdit,
+  MIN_ANNOTATION_PX,
+  panelUvToImagePoint,
+} from "./annotation";
+import { CameraImageMapping, CameraIntrinsics } from "./camera-model";
+import { PanelDrag } from "./controller-panel-tap-system";
+import { DatasetBox, datasetBoxFromOverlay } from "./dataset";
+import { DetectionPipeline } from "./detection-pipeline";
+import { panelOverlay } from "./detection-overlay";
+import { captureCameraFrame, FrameSource } from "./frame-source";
+import { acquirePanel, panelMode, releasePanel } from "./panel-mode";
+
+const TOGGLE_BUTTON_INDEX = 1; // right grip: freeze / save
+const CLASS_PANEL_W = 512; // canvas px
+const CLASS_PANEL_H = 1024;
+const CLASS_PANEL_SIZE_M = { w: 0.3, h: 0.6 };
+const CLASS_PANEL_OFFSET_X = 0.47; // m, right of the camera panel center
+const CHIP_COLUMNS = 2;
+const CHIP_ROWS = 12;
+const JPEG_QUALITY = 0.92;
+
+type PanelRegion = {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  action: () => void;
+};
+
+// The frozen frame, served in place of the camera
+class FrozenFrameSource implements FrameSource {
+  readonly name = "annotation";
+  constructor(readonly canvas: HTMLCanvasElement) {}
+
+  capture(): HTMLCanvasElement | null {
+    return this.canvas;
+  }
+}
+
+type FrozenFrame = {
+  source: FrozenFrameSource;
+  savedFrameSource: FrameSource | null;
+  capturedAt: number;
+  viewerMatrix: number[];
+  intrinsics: CameraIntrinsics | null;
+};
+
+export class AnnotationSystem extends createSystem({}, {}) {
+  private enabled = false; // right grip freezes only when on
+  private frozen: FrozenFrame | null = null;
+  private boxes: DatasetBox[] = [];
+  private selected: number | null = null;
+  private draft: DatasetBox | null = null;
+  private edit: AnnotationEdit | null = null;
+  private handledDrag: PanelDrag | null = null;
+  private classId = 0;
+  private page = 0;
+
+  private classPanel: THREE.Mesh | null = null;
+  private ctx: CanvasRenderingContext2D | null = null;
+  private regions: PanelRegion[] = [];
+  private panelDirty = true;
+  private raycaster = new THREE.Raycaster();
+
+  private prevToggle = false;
+  private prevTrigger = false;
+
+  init() {
+    const globals = this.globals as any;
+    globals.panelAnnotation = null;
+    globals.annotation = {
+      setEnabled: (on: boolean) => this.setEnabled(on),
+      isEnabled: () => this.enabled,
+      start: () => this.freeze(),
+      save: () => this.save(),
+      discard: () => this.unfreeze("Annotation discarded"),
+      isActive: () => !!this.frozen,
+      boxes: () => this.boxes,
+      setClass: (idOrName: number | string) => this.setClass(idOrName),
+      deleteSelected: () => this.deleteSelected(),
+    };
+
+    if (new URLSearchParams(location.search).has("annotate")) {
+      this.setEnabled(true);
+    }
+  }
+
+  update() {
+    const xrMgr: any = this.xrManager;
+    const session: XRSession | null = xrMgr.getSession?.() ?? null;
+    const frame = this.xrFrame as XRFrame | null;
+    const refSpace: XRReferenceSpace | null =
+      xrMgr.getReferenceSpace?.() ?? null;
+    if (!session || !frame || !refSpace) return;
+
+    let right: XRInputSource | null = null;
+    for (const inputSource of session.inputSources) {
+      if (inputSource.targetRayMode !== "tracked-pointer") continue;
+      if (inputSource.handedness === "right") right = inputSource;
+    }
+    const buttons = right?.gamepad?.buttons;
+    const toggle = !!buttons?.[TOGGLE_BUTTON_INDEX]?.pressed;
+    const trigger = !!buttons?.[0]?.pressed;
+
+    // Another mode's grip (dataset capture) is not ours to answer
+    const free = this.frozen || (this.enabled && !panelMode(this.globals));
+    if (toggle && !this.prevToggle && free) {
+      if (this.frozen) this.save();
+      else this.freeze();
+    }
+    this.prevToggle = toggle;
+
+    const triggerDown = trigger && !this.prevTrigger;
+    this.prevTrigger = trigger;
+    if (!this.frozen) return;
+
+    if (triggerDown && right) this.clickClassPanel(frame, refSpace, right);
+    this.applyDrag();
+    this.publish();
+    this.updateClassPanel();
+  }
+
+  private setEnabled(on: boolean) {
+    this.enabled = on;
+    console.log("[Annotation]", on ? "Enabled (right grip)" : "Disabled");
+  }
+
+  private setStatus(text: string | null) {
+    (this.globals as any).panelStatus = text;
+    if (text) console.log("[Annotation]", text);
+  }
+
+  private labels(): string[] {
+    const pipeline = (this.globals as any).detectionPipeline as
+      | DetectionPipeline
+      | undefined;
+    const labels = pipeline?.labels ?? [];
+    return labels.length ? labels : ["object"];
+  }
+
+  private showStatus() {
+    if (!this.frozen) return;
+    this.setStatus(
+      `Annotate: ${this.boxes.length} boxes, class ` +
+        `${this.labels()[this.classId] ?? this.classId} - grip: save`,
+    );
+    this.panelDirty = true;
+  }
+
+  // ---------------- freeze / save ----------------
+
+  private freeze() {
+    const globals = this.globals as any;
+    if (this.frozen) return;
+    if (!acquirePanel(globals, "annotation")) return;
+
+    const frameCanvas = captureCameraFrame(globals);
+    if (!frameCanvas || !frameCanvas.width || !frameCanvas.height) {
+      releasePanel(globals, "annotation");
+      this.setStatus("Annotate: no camera frame yet");
+      return;
+    }
+
+    const canvas = document.createElement("canvas");
+    canvas.width = frameCanvas.width;
+    canvas.height = frameCanvas.height;
+    canvas.getContext("2d")?.drawImage(frameCanvas, 0, 0);
+
+    // Start from what the detector sees in this frame
+    const items = panelOverlay(globals)?.aligned() ?? [];
+    this.boxes = items
+      .filter((item) => item.confirmed)
+      .map((item) => datasetBoxFromOverlay(item, canvas.width, canvas.height))
+      .filter((box): box is DatasetBox => box !== null);
+    this.selected = null;
+    this.draft = null;
+    this.edit = null;
+    this.handledDrag = globals.panelDrag ?? null;
+
+    const viewer: THREE.Matrix4 =
+      globals.cameraFramePose?.matrix ?? this.camera.matrixWorld;
+    this.frozen = {
+      source: new FrozenFrameSource(canvas),
+      savedFrameSource: globals.frameSource ?? null,
+      capturedAt: Date.now(),
+      viewerMatrix: viewer.toArray(),
+      intrinsics: globals.cameraIntrinsics
+        ? { ...globals.cameraIntrinsics }
+        : null,
+    };
+    globals.frameSource = this.frozen.source;
+
+    this.ensureClassPanel();
+    if (this.classPanel) this.classPanel.visible = true;
+    this.showStatus();
+  }
+
+  private unfreeze(status: string | null) {
+    const globals = this.globals as any;
+    const frozen = this.frozen;
+    if (!frozen) return;
+
+    this.frozen = null;
+    if (globals.frameSource === frozen.source) {
+      globals.frameSource = frozen.savedFrameSource;
+    }
+    releasePanel(globals, "annotation");
+    globals.panelAnnotation = null;
+    if (this.classPanel) this.classPanel.visible = false;
+    this.boxes = [];
+    this.selected = null;
+    this.draft = null;
+    this.edit = null;
+    this.setStatus(status);
+  }
+
+  private async save() {
+    const globals = this.globals as any;
+    const frozen = this.frozen;
+    if (!frozen) return;
+    if (!globals.datasetCapture) {
+      console.warn("[Annotation] No dataset to save into");
+      return;
+    }
+
+    const boxes = this.boxes;
+    const { canvas } = frozen.source;
+    this.unfreeze(null);
+
+    const image = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/jpeg", JPEG_QUALITY),
+    );
+    if (!image) {
+      console.error("[Annotation] JPEG encoding failed");
+      this.setStatus("Annotate: saving the frame failed");
+      return;
+    }
+
+    globals.datasetCapture.add({
+      image,
+      width: canvas.width,
+      height: canvas.height,
+      capturedAt: frozen.capturedAt,
+      viewerMatrix: frozen.viewerMatrix,
+      intrinsics: frozen.intrinsics,
+      boxes,
+    });
+    const count = globals.datasetCapture.samples().length;
+    this.setStatus(`Annotate: saved frame ${count} (${boxes.length} boxes)`);
+  }
+
+  // ---------------- editing ----------------
+
+  private applyDrag() {
+    const globals = this.globals as any;
+    const drag: PanelDrag | null = globals.panelDrag ?? null;
+    const mapping: CameraImageMapping | null =
+      globals.cameraImageMapping ?? null;
+    if (!drag || !mapping) return;
+
+    // ControllerPanelTapSystem makes a new PanelDrag per trigger press
+    if (drag !== this.handledDrag) {
+      this.handledDrag = drag;
+      const start = panelUvToImagePoint(mapping, drag.start.u, drag.start.v);
+      this.edit = beginEdit(mapping, this.view(), start);
+      if (this.edit.kind !== "draw") this.selected = this.edit.index;
+      this.panelDirty = true;
+    }
+
+    const edit = this.edit;
+    if (!edit) return;
+
+    const p = panelUvToImagePoint(mapping, drag.current.u, drag.current.v);
+    const box = applyEdit(
+      mapping,
+      edit,
+      p,
+      this.classId,
+      this.labels()[this.classId] ?? `class_${this.classId}`,
+    );
+    if (edit.kind === "draw") this.draft = box;
+    else this.boxes[edit.index] = box;
+
+    if (!drag.released) return;
+    this.edit = null;
+    this.draft = null;
+    if (edit.kind === "draw") {
+      // A click (or a tiny box) on empty image just clears the selection
+      if (box.w >= MIN_ANNOTATION_PX && box.h >= MIN_ANNOTATION_PX) {
+        this.boxes.push(box);
+        this.selected = this.boxes.length - 1;
+      } else {
+        this.selected = null;
+      }
+    }
+    this.showStatus();
+  }
+
+  private view(): AnnotationView {
+    return { boxes: this.boxes, selected: this.selected, draft: this.draft };
+  }
+
+  private publish() {
+    (this.globals as any).panelAnnotation = this.view();
+  }
+
+  private setClass(idOrName: number | string) {
+    const labels = this.labels();
+    const id =
+      typeof idOrName === "number" ? idOrName : labels.indexOf(idOrName);
+    if (id < 0) {
+      console.warn("[Annotation] Unknown class", idOrName);
+      return;
+    }
+    this.classId = id;
+
+    // Relabel the selected box too
+    if (this.selected !== null) {
+      const box = this.boxes[this.selected];
+      this.boxes[this.selected] = {
+        ...box,
+        classId: id,
+        label: labels[id] ?? `class_${id}`,
+        score: null,
+        source: "manual",
+      };
+    }
+    this.showStatus();
+  }
+
+  private deleteSelected() {
+    if (this.selected === null) return;
+    this.boxes.splice(this.selected, 1);
+    this.selected = null;
+    this.showStatus();
+  }
+
+  // ---------------- class panel ----------------
+
+  private ensureClassPanel() {
+    if (this.classPanel) return;
+    const cameraPanel = (this.scene as THREE.Scene).getObjectByName(
+      "CameraPanel",
+    );
+    if (!cameraPanel) return;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = CLASS_PANEL_W;
+    canvas.height = CLASS_PANEL_H;
+    this.ctx = canvas.getContext("2d");
+
+    this.classPanel = new THREE.Mesh(
+      new THREE.PlaneGeometry(CLASS_PANEL_SIZE_M.w, CLASS_PANEL_SIZE_M.h),
+      new THREE.MeshBasicMaterial({
+        map: new THREE.CanvasTexture(canvas),
+        transparent: true,
+      }),
+    );
+    this.classPanel.name = "AnnotationClassPanel";
+    this.classPanel.position.set(CLASS_PANEL_OFFSET_X, 0, 0);
+    this.classPanel.visible = false;
+    cameraPanel.add(this.classPanel);
+  }
+
+  private clickClassPanel(
+    frame: XRFrame,
+    refSpace: XRReferenceSpace,
+    controller: XRInputSource,
+  ) {
+    if (!this.classPanel?.visible) return;
+
+    const pose = frame.getPose(controller.targetRaySpace, refSpace);
+    if (!pose) return;
+    const { position: p, orientation: o } = pose.transform;
+    const quat = new THREE.Quaternion(o.x, o.y, o.z, o.w);
+    this.raycaster.set(
+      new THREE.Vector3(p.x, p.y, p.z),
+      new THREE.Vector3(0, 0, -1).applyQuaternion(quat),
+    );
+
+    const hit = this.raycaster.intersectObject(this.classPanel, false)[0];
+    if (!hit?.uv) return;
+    const x = hit.uv.x * CLASS_PANEL_W;
+    const y = (1 - hit.uv.y) * CLASS_PANEL_H;
+    const region = this.regions.find(
+      (r) => x >= r.x && x <= r.x + r.w && y >= r.y && y <= r.y + r.h,
+    );
+    region?.action();
+    this.panelDirty = true;
+  }
+
+  private updateClassPanel() {
+    if (!this.classPanel?.visible || !this.ctx || !this.panelDirty) return;
+    this.panelDirty = false;
+
+    this.drawClassPanel(this.ctx);
+    const material = this.classPanel.material as THREE.MeshBasicMaterial;
+    material.map!.needsUpdate = true;
+  }
+
+  private drawClassPanel(ctx: CanvasRenderingContext2D) {
+    const labels = this.labels();
+    const perPage = CHIP_COLUMNS * CHIP_ROWS;
+    const pages = Math.ceil(labels.length / perPage);
+    this.page = Math.min(this.page, pages - 1);
+    this.regions = [];
+
+    ctx.clearRect(0, 0, CLASS_PANEL_W, CLASS_PANEL_H);
+    ctx.fillStyle = "rgba(9, 9, 11, 0.9)";
+    ctx.fillRect(0, 0, CLASS_PANEL_W, CLASS_PANEL_H);
+    ctx.textBaseline = "top";
+
+    ctx.fillStyle = "#fafafa";
+    ctx.font = "40px sans-serif";
+    ctx.fillText("Class", 24, 24);
+    ctx.fillStyle = "#a1a1aa";
+    ctx.font = "26px sans-serif";
+    ctx.fillText(
+      this.selected !== null ? "sets the selected box" : "for new boxes",
+      24,
+      74,
+    );
+
+    // Class chips, one page at a time
+    const chipW = (CLASS_PANEL_W - 48 - (CHIP_COLUMNS - 1) * 12) / CHIP_COLUMNS;
+    const first = this.page * perPage;
+    labels.slice(first, first + perPage).forEach((label, i) => {
+      const id = first + i;
+      const x = 24 + (i % CHIP_COLUMNS) * (chipW + 12);
+      const y = 120 + Math.floor(i / CHIP_COLUMNS) * 60;
+      const current = id === this.classId;
+
+      ctx.fillStyle = current ? "#fafafa" : "#27272a";
+      ctx.fillRect(x, y, chipW, 50);
+      ctx.fillStyle = current ? "#09090b" : "#fafafa";
+      ctx.font = "26px sans-serif";
+      ctx.fillText(label, x + 10, y + 12, chipW - 20);
+
+      this.regions.push({
+        x,
+        y,
+        w: chipW,
+        h: 50,
+        action: () => this.setClass(id),
+      });
+    });
+
+    if (pages > 1) {
+      const y = 850;
+      ctx.fillStyle = "#27272a";
+      ctx.fillRect(24, y, 100, 50);
+      ctx.fillRect(CLASS_PANEL_W - 124, y, 100, 50);
+      ctx.fillStyle = "#fafafa";
+      ctx.font = "30px sans-serif";
+      ctx.fillText("◀", 60, y + 9);
+      ctx.fillText("▶", CLASS_PANEL_W - 88, y + 9);
+      ctx.fillText(`${this.page + 1} / ${pages}`, 200, y + 9);
+
+      this.regions.push(
+        {
+          x: 24,
+          y,
+          w: 100,
+          h: 50,
+          action: () => (this.page = (this.page + pages - 1) % pages),
+        },
+        {
+          x: CLASS_PANEL_W - 124,
+          y,
+          w: 100,
+          h: 50,
+          action: () => (this.page = (this.page + 1) % pages),
+        },
+      );
+    }
+
+    // Commands
+    const commands: [string, () => void][] = [
+      ["Delete", () => this.deleteSelected()],
+      ["Save", () => this.save()],
+      ["Discard", () => this.unfreeze("Annotation discarded")],
+      ["Export", () => (this.globals as any).datasetCapture?.exportZip()],
+    ];
+    const buttonW = (CLASS_PANEL_W - 48 - 3 * 8) / 4;
+    commands.forEach(([text, action], i) => {
+      const x = 24 + i * (buttonW + 8);
+      const y = 930;
+      ctx.fillStyle = text === "Save" ? "#1e3a8a" : "#27272a";
+      ctx.fillRect(x, y, buttonW, 70);
+      ctx.fillStyle = "#fafafa";
+      ctx.font = "24px sans-serif";
+      ctx.fillText(text, x + 10, y + 22, buttonW - 20);
+      this.regions.push({ x, y, w: buttonW, h: 70, action });
+    });
+  }
+}
@@ -0,0 +1,206 @@
+// annotation.ts
+//
+// Hand-drawn boxes on a frozen camera frame (AnnotationSystem). Boxes are
+// DatasetBoxes: pixels of the source image, so they go into a dataset ZIP
+// as they are. Panel UVs are converted through cameraImageMapping (the
+// letterbox the panel draws the frame with); a point over the bars is
+// clamped to the image edge.
+//
+// Edits are press-drag-release gestures (globals.panelDrag):
+//   on a corner handle of the selected box -> resize
+//   inside a box                           -> select it, and move it
+//   anywhere else                          -> draw a new box
+
+import { CameraImageMapping, panelUvToImageUv } from "./camera-model";
+import { DatasetBox } from "./dataset";
+import { hueForKey } from "./detection-overlay";
+
+export const MIN_ANNOTATION_PX = 4; // smaller new boxes are dropped
+const HANDLE_PANEL_PX = 24; // corner grab radius on the panel canvas
+
+export type ImagePoint = { x: number; y: number }; // source image px
+
+// Which corner a resize drags: 0 = top-left, then clockwise
+export type BoxCorner = 0 | 1 | 2 | 3;
+
+export type AnnotationEdit =
+  | { kind: "draw"; start: ImagePoint }
+  | { kind: "move"; index: number; start: ImagePoint; from: DatasetBox }
+  | { kind: "resize"; index: number; corner: BoxCorner; from: DatasetBox };
+
+export type AnnotationView = {
+  boxes: DatasetBox[];
+  selected: number | null; // index into boxes
+  draft: DatasetBox | null; // box being drawn
+};
+
+export function panelUvToImagePoint(
+  mapping: CameraImageMapping,
+  u: number,
+  v: number,
+): ImagePoint {
+  const img = panelUvToImageUv(mapping, u, v);
+  return {
+    x: Math.min(mapping.srcW, Math.max(0, img.u * mapping.srcW)),
+    y: Math.min(mapping.srcH, Math.max(0, img.v * mapping.srcH)),
+  };
+}
+
+function boxCorners(box: DatasetBox): ImagePoint[] {
+  return [
+    { x: box.x, y: box.y },
+    { x: box.x + box.w, y: box.y },
+    { x: box.x + box.w, y: box.y + box.h },
+    { x: box.x, y: box.y + box.h },
+  ];
+}
+
+// Box spanning two points (any order)
+export function boxFromPoints(
+  a: ImagePoint,
+  b: ImagePoint,
+  classId: number,
+  label: string,
+): DatasetBox {
+  return {
+    classId,
+    label,
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    w: Math.abs(b.x - a.x),
+    h: Math.abs(b.y - a.y),
+    score: null,
+    source: "manual",
+  };
+}
+
+// Corner of `box` within grab distance of p, or null
+export function cornerAt(
+  mapping: CameraImageMapping,
+  box: DatasetBox,
+  p: ImagePoint,
+): BoxCorner | null {
+  // Grab radius is in panel px; image px per panel px = srcW / renderW
+  const radius = (HANDLE_PANEL_PX * mapping.srcW) / mapping.renderW;
+  const corners = boxCorners(box);
+  for (let i = 0; i < corners.length; i++) {
+    if (Math.hypot(corners[i].x - p.x, corners[i].y - p.y) <= radius) {
+      return i as BoxCorner;
+    }
+  }
+  return null;
+}
+
+// Smallest box containing p, or null
+export function boxIndexAt(boxes: DatasetBox[], p: ImagePoint): number | null {
+  let best: number | null = null;
+  let bestArea = Infinity;
+  boxes.forEach((b, i) => {
+    const inside =
+      p.x >= b.x && p.x <= b.x + b.w && p.y >= b.y && p.y <= b.y + b.h;
+    if (inside && b.w * b.h < bestArea) {
+      best = i;
+      bestArea = b.w * b.h;
+    }
+  });
+  return best;
+}
+
+// What a drag starting at p does
+export function beginEdit(
+  mapping: CameraImageMapping,
+  view: AnnotationView,
+  p: ImagePoint,
+): AnnotationEdit {
+  if (view.selected !== null) {
+    const box = view.boxes[view.selected];
+    const corner = cornerAt(mapping, box, p);
+    if (corner !== null) {
+      return { kind: "resize", index: view.selected, corner, from: box };
+    }
+  }
+
+  const index = boxIndexAt(view.boxes, p);
+  if (index !== null) {
+    return { kind: "move", index, start: p, from: view.boxes[index] };
+  }
+  return { kind: "draw", start: p };
+}
+
+// Box an edit produces with the drag now at p (edited boxes become manual)
+export function applyEdit(
+  mapping: CameraImageMapping,
+  edit: AnnotationEdit,
+  p: ImagePoint,
+  classId: number,
+  label: string,
+): DatasetBox {
+  if (edit.kind === "draw") return boxFromPoints(edit.start, p, classId, label);
+
+  const from = edit.from;
+  if (edit.kind === "move") {
+    const dx = Math.min(
+      mapping.srcW - from.x - from.w,
+      Math.max(-from.x, p.x - edit.start.x),
+    );
+    const dy = Math.min(
+      mapping.srcH - from.y - from.h,
+      Math.max(-from.y, p.y - edit.start.y),
+    );
+    if (dx === 0 && dy === 0) return from;
+    return { ...from, x: from.x + dx, y: from.y + dy, source: "manual" };
+  }
+
+  // Resize: the opposite corner stays put
+  const fixed = boxCorners(from)[(edit.corner + 2) % 4];
+  return {
+    ...boxFromPoints(fixed, p, from.classId, from.label),
+    source: "manual",
+  };
+}
+
+export function drawAnnotations(
+  ctx: CanvasRenderingContext2D,
+  mapping: CameraImageMapping,
+  view: AnnotationView,
+) {
+  const toPanel = (p: ImagePoint) => ({
+    x: mapping.offsetX + (p.x / mapping.srcW) * mapping.renderW,
+    y: mapping.offsetY + (p.y / mapping.srcH) * mapping.renderH,
+  });
+
+  ctx.save();
+  ctx.font = "28px sans-serif";
+  ctx.textBaseline = "top";
+
+  const draw = (box: DatasetBox, selected: boolean, draft: boolean) => {
+    const tl = toPanel({ x: box.x, y: box.y });
+    const br = toPanel({ x: box.x + box.w, y: box.y + box.h });
+    const color = `hsl(${hueForKey(box.classId)},90%,55%)`;
+
+    ctx.setLineDash(draft ? [10, 8] : []);
+    ctx.lineWidth = selected ? 6 : 3;
+    ctx.strokeStyle = selected ? "white" : color;
+    ctx.strokeRect(tl.x, tl.y, br.x - tl.x, br.y - tl.y);
+    ctx.setLineDash([]);
+
+    const text = box.source === "manual" ? box.label : `${box.label} (det)`;
+    const textW = ctx.measureText(text).width;
+    ctx.fillStyle = color;
+    ctx.fillRect(tl.x, tl.y - 34, textW + 12, 34);
+    ctx.fillStyle = "black";
+    ctx.fillText(text, tl.x + 6, tl.y - 31);
+
+    if (!selected) return;
+    ctx.fillStyle = "white";
+    for (const c of boxCorners(box)) {
+      const p = toPanel(c);
+      ctx.fillRect(p.x - 8, p.y - 8, 16, 16);
+    }
+  };
+
+  view.boxes.forEach((box, i) => draw(box, i === view.selected, false));
+  if (view.draft) draw(view.draft, false, true);
+
+  ctx.restore();
+}
@@ -0,0 +1,18 @@
+// assets.d.ts
+//
+// Vite asset imports: `import url from "./file?url"` gives the emitted URL.
+
+declare module "*?url" {
+  const url: string;
+  export default url;
+}
+
+// Vite build flags: PROD in `vite build` output, DEV under `vite dev`
+interface ImportMetaEnv {
+  readonly PROD: boolean;
+  readonly DEV: boolean;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,522 @@
+// benchmark-system.ts
+//
+// Mapping accuracy benchmark: compares the ray TapHitDebugSystem would cast
+// for a panel UV (panelUvToWorldRay, same intrinsics + frame pose) against
+// a ground-truth ray, and reports angular error (deg) and hit position
+// error (cm) with a panel-UV heatmap.
+//
+// Ground truth, by mode:
+//   synthetic  - SyntheticCameraSystem's exact camera model; a jittered grid
+//                of image UVs is swept a few samples per frame,
+//   replay     - surface hits in a replayed session log (regression check,
+//                e.g. after recalibrating); samples as the replay plays,
+//   controller - aim the right controller at a target and pull the trigger
+//                (off the panel), then click the same target on the panel.
+//
+// Left grip starts a run (synthetic if the synthetic camera is on, replay
+// if a session is replaying, else controller) or stops the current one.
+// globals.benchmark: run / stop / summary / samples / exportJson /
+// exportCsv / showHeatmap. The heatmap is drawn by CameraPanelSystem.
+
+import { createSystem, Types } from "@iwsdk/core";
+import * as THREE from "three";
+import {
+  BenchmarkSample,
+  BenchmarkSource,
+  buildHeatmap,
+  measureSample,
+  samplesToCsv,
+  summarize,
+} from "./benchmark";
+import {
+  CameraImageMapping,
+  CameraIntrinsics,
+  imageUvToPanelUv,
+  panelUvToImageUv,
+} from "./camera-model";
+import { ControllerHitProbe } from "./controller-hit-probe";
+import { downloadBlob, downloadJson } from "./download";
+import { HitBackendRegistry, WorldRay } from "./hit-backends";
+import { acquirePanel, releasePanel } from "./panel-mode";
+import { panelUvToWorldRay } from "./panel-ray";
+import { RecordedFrame } from "./session-log";
+
+const TOGGLE_BUTTON_INDEX = 1; // grip on the left Quest controller
+
+type TapHitState = {
+  lastTapUv: { u: number; v: number } | null;
+  pendingRayUv: { u: number; v: number } | null;
+};
+
+type ControllerStep = "aim" | "aim-hit" | "click";
+
+export class BenchmarkSystem extends createSystem(
+  {},
+  {
+    gridCols: { type: Types.Int8, default: 12 }, // synthetic sweep grid
+    gridRows: { type: Types.Int8, default: 9 },
+    samplesPerFrame: { type: Types.Int8, default: 4 },
+    controllerTargets: { type: Types.Int8, default: 8 },
+    heatmapCols: { type: Types.Int8, default: 8 },
+    heatmapRows: { type: Types.Int8, default: 8 },
+    heatmapMaxDeg: { type: Types.Float32, default: 2 }, // full red
+  },
+) {
+  private mode: BenchmarkSource | null = null;
+  private lastMode: BenchmarkSource | null = null;
+  private samples: BenchmarkSample[] = [];
+  private startTime = 0;
+  private heatmapVisible = true;
+
+  // synthetic
+  private queue: { u: number; v: number }[] = []; // image UVs
+
+  // replay
+  private lastReplayFrame = -1;
+
+  // controller
+  private step: ControllerStep = "aim";
+  private probe = new ControllerHitProbe();
+  private pendingPoint: THREE.Vector3 | null = null;
+  private lastSeenTap: { u: number; v: number } | null = null;
+  private prevTrigger = false;
+
+  private prevToggle = false;
+
+  init() {
+    const globals = this.globals as any;
+    globals.benchmarkHeatmap = null;
+    globals.benchmark = {
+      run: (mode?: BenchmarkSource) => this.run(mode ?? this.defaultMode()),
+      stop: () => this.finish(),
+      isRunning: () => !!this.mode,
+      samples: () => this.samples,
+      summary: () => summarize(this.samples),
+      exportJson: () => this.exportJson(),
+      exportCsv: () => this.exportCsv(),
+      showHeatmap: (visible: boolean) => {
+        this.heatmapVisible = visible;
+        this.publishHeatmap();
+      },
+      clear: () => {
+        this.samples = [];
+        this.publishHeatmap();
+      },
+    };
+  }
+
+  private setStatus(text: string | null) {
+    (this.globals as any).panelStatus = text;
+    if (text) console.log("[Benchmark]", text);
+  }
+
+  private defaultMode(): BenchmarkSource {
+    const globals = this.globals as any;
+    if (globals.syntheticCamera?.isEnabled()) return "synthetic";
+    if (globals.sessionReplay) return "replay";
+    return "controller";
+  }
+
+  // ---------------- run / finish ----------------
+
+  private run(mode: BenchmarkSource) {
+    const globals = this.globals as any;
+    if (this.mode) this.finish();
+
+    if (mode === "synthetic" && !globals.syntheticCamera?.isEnabled()) {
+      this.setStatus("Benchmark: synthetic camera is not enabled");
+      return;
+    }
+    if (mode === "replay" && !globals.sessionReplay) {
+      this.setStatus("Benchmark: no session is replaying");
+      return;
+    }
+    if (!acquirePanel(globals, "benchmark")) return;
+
+    this.mode = mode;
+    this.lastMode = mode;
+    this.samples = [];
+    this.startTime = performance.now();
+
+    if (mode === "synthetic") {
+      this.queue = this.sweepGrid();
+    } else if (mode === "replay") {
+      this.lastReplayFrame = -1;
+    } else {
+      this.step = "aim";
+      this.pendingPoint = null;
+      this.lastSeenTap = globals.tapHitState?.lastTapUv ?? null;
+    }
+
+    this.publishHeatmap();
+    this.setStatus(`Benchmark (${mode}) started`);
+    if (mode === "controller") this.promptAim();
+  }
+
+  private finish() {
+    if (!this.mode) return;
+
+    const mode = this.mode;
+    this.mode = null;
+    this.queue = [];
+    this.probe.cancel();
+    releasePanel(this.globals, "benchmark");
+
+    const s = summarize(this.samples);
+    if (!s.angularDeg) {
+      this.setStatus(`Benchmark (${mode}): no samples`);
+      return;
+    }
+
+    const pos = s.positionCm
+      ? ` | ${s.positionCm.mean.toFixed(1)} cm mean`
+      : "";
+    this.setStatus(
+      `Benchmark (${mode}) n=${s.count}: ` +
+        `${s.angularDeg.mean.toFixed(2)}° mean, ` +
+        `${s.angularDeg.p95.toFixed(2)}° p95${pos}`,
+    );
+  }
+
+  // Jittered grid over the camera image (uniform coverage, no aliasing)
+  private sweepGrid(): { u: number; v: number }[] {
+    const cols = this.config.gridCols.peek();
+    const rows = this.config.gridRows.peek();
+    const out: { u: number; v: number }[] = [];
+
+    for (let j = 0; j < rows; j++) {
+      for (let i = 0; i < cols; i++) {
+        out.push({
+          u: (i + Math.random()) / cols,
+          v: (j + Math.random()) / rows,
+        });
+      }
+    }
+    return out;
+  }
+
+  // ---------------- per frame ----------------
+
+  update(dt: number) {
+    const xrMgr: any = this.xrManager;
+    const session: XRSession | null = xrMgr.getSession?.() ?? null;
+    const frame = this.xrFrame as XRFrame | null;
+    const refSpace: XRReferenceSpace | null =
+      xrMgr.getReferenceSpace?.() ?? null;
+
+    if (!session || !frame || !refSpace) return;
+
+    let rightController: XRInputSource | null = null;
+    let toggle = false;
+    for (const inputSource of session.inputSources) {
+      if (inputSource.targetRayMode !== "tracked-pointer") continue;
+      const buttons = inputSource.gamepad?.buttons;
+      if (inputSource.handedness === "left") {
+        toggle = !!buttons?.[TOGGLE_BUTTON_INDEX]?.pressed;
+      } else {
+        rightController = inputSource;
+      }
+    }
+
+    if (toggle && !this.prevToggle) {
+      if (this.mode) this.finish();
+      else this.run(this.defaultMode());
+    }
+    this.prevToggle = toggle;
+
+    const trigger = !!rightController?.gamepad?.buttons?.[0]?.pressed;
+    const triggerDown = trigger && !this.prevTrigger;
+    this.prevTrigger = trigger;
+
+    const viewerPose = frame.getViewerPose(refSpace);
+    if (!this.mode || !viewerPose) return;
+
+    // Same frame pose TapHitDebugSystem uses for the panel image
+    const globals = this.globals as any;
+    const viewerMat: THREE.Matrix4 =
+      globals.cameraFramePose?.matrix.clone() ??
+      new THREE.Matrix4().fromArray(viewerPose.transform.matrix);
+
+    switch (this.mode) {
+      case "synthetic":
+        this.updateSynthetic(viewerMat);
+        break;
+
+      case "replay":
+        this.updateReplay(viewerMat);
+        break;
+
+      case "controller":
+        if (this.step === "aim") {
+          // Trigger over the panel is a panel click, not an aim sample
+          if (triggerDown && rightController && !globals.panelHoverUv) {
+            this.requestAimHit(session, rightController);
+          }
+        } else if (this.step === "aim-hit") {
+          this.pollAimHit(frame, refSpace, dt);
+        } else {
+          this.pollPanelClick(viewerMat);
+        }
+        break;
+    }
+  }
+
+  // Pipeline ray for a panel UV, or null when it misses the camera image
+  private computeRay(
+    viewerMat: THREE.Matrix4,
+    u: number,
+    v: number,
+    mappingOverride?: CameraImageMapping | null,
+  ) {
+    const globals = this.globals as any;
+    const mapping: CameraImageMapping | null =
+      mappingOverride ?? globals.cameraImageMapping ?? null;
+    const intr: CameraIntrinsics | null = globals.cameraIntrinsics ?? null;
+    if (!mapping) return null;
+
+    const panelRay = panelUvToWorldRay(
+      mapping,
+      intr,
+      viewerMat,
+      this.camera as THREE.Camera,
+      u,
+      v,
+    );
+    return panelRay.inImage ? panelRay : null;
+  }
+
+  private surfaceHit(ray: WorldRay): THREE.Vector3 | null {
+    const registry: HitBackendRegistry | undefined = (this.globals as any)
+      .hitBackends;
+    return registry?.raycastSync(ray)?.point.clone() ?? null;
+  }
+
+  private addSample(sample: BenchmarkSample) {
+    this.samples.push(sample);
+    this.publishHeatmap();
+  }
+
+  // ---------------- synthetic ----------------
+
+  private updateSynthetic(viewerMat: THREE.Matrix4) {
+    const globals = this.globals as any;
+    const synthetic = globals.syntheticCamera;
+    const mapping: CameraImageMapping | null =
+      globals.cameraImageMapping ?? null;
+
+    if (!synthetic?.isEnabled()) {
+      this.setStatus("Benchmark: synthetic camera was disabled");
+      this.finish();
+      return;
+    }
+    if (!mapping) return;
+
+    const n = Math.min(this.config.samplesPerFrame.peek(), this.queue.length);
+    for (const img of this.queue.splice(0, n)) {
+      const { u, v } = imageUvToPanelUv(mapping, img.u, img.v);
+      const computed = this.computeRay(viewerMat, u, v, mapping);
+      const truth: WorldRay | null = synthetic.groundTruthRay(img.u, img.v);
+      if (!computed || !truth) continue;
+
+      this.addSample(
+        measureSample({
+          source: "synthetic",
+          time: performance.now() - this.startTime,
+          u,
+          v,
+          imageU: img.u,
+          imageV: img.v,
+          computed: computed.ray,
+          computedHit: this.surfaceHit(computed.ray),
+          truth,
+          truthHit: this.surfaceHit(truth),
+        }),
+      );
+    }
+
+    if (!this.queue.length) this.finish();
+  }
+
+  // ---------------- replay ----------------
+
+  private updateReplay(viewerMat: THREE.Matrix4) {
+    const replay = (this.globals as any).sessionReplay;
+    if (!replay) {
+      this.finish();
+      return;
+    }
+
+    if (replay.frameIndex === this.lastReplayFrame) return;
+    this.lastReplayFrame = replay.frameIndex;
+
+    const recorded: RecordedFrame = replay.frame;
+    const { hit, hoverUv, mapping } = recorded;
+    if (hit && hoverUv && mapping && hit.source !== "manifold") {
+      const computed = this.computeRay(
+        viewerMat,
+        hoverUv.u,
+        hoverUv.v,
+        mapping,
+      );
+
+      if (computed) {
+        const truthHit = new THREE.Vector3(...hit.point);
+        const img = panelUvToImageUv(mapping, hoverUv.u, hoverUv.v);
+
+        this.addSample(
+          measureSample({
+            source: "replay",
+            time: recorded.t,
+            u: hoverUv.u,
+            v: hoverUv.v,
+            imageU: img.u,
+            imageV: img.v,
+            computed: computed.ray,
+            computedHit: this.surfaceHit(computed.ray),
+            truth: {
+              origin: computed.ray.origin.clone(),
+              dir: truthHit.clone().sub(computed.ray.origin).normalize(),
+            },
+            truthHit,
+          }),
+        );
+        this.setStatus(`Benchmark (replay): ${this.samples.length} samples`);
+      }
+    }
+
+    if (replay.frameIndex >= replay.frameCount - 1) this.finish();
+  }
+
+  // ---------------- controller ----------------
+
+  private promptAim() {
+    const n = this.samples.length + 1;
+    const total = this.config.controllerTargets.peek();
+    this.setStatus(
+      `Benchmark ${n}/${total}: aim controller at a target and pull trigger`,
+    );
+  }
+
+  private async requestAimHit(session: XRSession, controller: XRInputSource) {
+    this.step = "aim-hit";
+    const ok = await this.probe.start(session, controller);
+    // finish() while waiting: the run is over, leave it that way
+    if (!ok && this.mode && this.step === "aim-hit") {
+      this.step = "aim";
+      this.setStatus("Controller hit-test unavailable; aim again");
+    }
+  }
+
+  private pollAimHit(frame: XRFrame, refSpace: XRReferenceSpace, dt: number) {
+    const result = this.probe.poll(frame, refSpace, dt);
+    if (result.status === "pending" || result.status === "idle") return;
+
+    if (result.status === "miss") {
+      this.step = "aim";
+      this.setStatus("No surface under the controller ray; aim again");
+      return;
+    }
+
+    this.pendingPoint = result.point;
+    this.lastSeenTap = (this.globals as any).tapHitState?.lastTapUv ?? null;
+    this.step = "click";
+    this.setStatus("Now click the same target on the panel");
+  }
+
+  private pollPanelClick(viewerMat: THREE.Matrix4) {
+    const globals = this.globals as any;
+    const tapState: TapHitState | undefined = globals.tapHitState;
+    const tap = tapState?.lastTapUv ?? null;
+
+    // ControllerPanelTapSystem replaces lastTapUv on every click
+    if (!tap || tap === this.lastSeenTap || !this.pendingPoint) return;
+    this.lastSeenTap = tap;
+
+    const panelRay = this.computeRay(viewerMat, tap.u, tap.v);
+    if (!panelRay) {
+      this.setStatus("Click landed outside the camera image; try again");
+      return;
+    }
+
+    const truthHit = this.pendingPoint;
+    this.pendingPoint = null;
+
+    this.addSample(
+      measureSample({
+        source: "controller",
+        time: performance.now() - this.startTime,
+        u: tap.u,
+        v: tap.v,
+        imageU: panelRay.imageUv.u,
+        imageV: panelRay.imageUv.v,
+        computed: panelRay.ray,
+        computedHit: this.surfaceHit(panelRay.ray),
+        truth: {
+          origin: panelRay.ray.origin.clone(),
+          dir: truthHit.clone().sub(panelRay.ray.origin).normalize(),
+        },
+        truthHit,
+      }),
+    );
+
+    if (this.samples.length >= this.config.controllerTargets.peek()) {
+      this.finish();
+    } else {
+      this.step = "aim";
+      this.promptAim();
+    }
+  }
+
+  // ---------------- heatmap / export ----------------
+
+  private publishHeatmap() {
+    const globals = this.globals as any;
+    if (!this.heatmapVisible || !this.samples.length) {
+      globals.benchmarkHeatmap = null;
+      return;
+    }
+
+    globals.benchmarkHeatmap = {
+      ...buildHeatmap(
+        this.samples,
+        this.config.heatmapCols.peek(),
+        this.config.heatmapRows.peek(),
+      ),
+      maxDeg: this.config.heatmapMaxDeg.peek(),
+    };
+  }
+
+  private report() {
+    const globals = this.globals as any;
+    return {
+      format: "questcam2ar-benchmark",
+      version: 1,
+      createdAt: new Date().toISOString(),
+      userAgent: navigator.userAgent,
+      source: this.lastMode,
+      cameraIntrinsics: globals.cameraIntrinsics ?? null,
+      calibrationProfile: globals.calibrationProfile ?? null,
+      cameraLatencyMs: globals.cameraLatencyMs ?? null,
+      summary: summarize(this.samples),
+      heatmap: buildHeatmap(
+        this.samples,
+        this.config.heatmapCols.peek(),
+        this.config.heatmapRows.peek(),
+      ),
+      samples: this.samples,
+    };
+  }
+
+  private exportJson() {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    downloadJson(`benchmark-${stamp}.json`, this.report());
+  }
+
+  private exportCsv() {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    downloadBlob(
+      `benchmark-${stamp}.csv`,
+      new Blob([samplesToCsv(this.samples)], { type: "text/csv" }),
+    );
+  }
+}
@@ -0,0 +1,200 @@
+// benchmark.ts
+//
+// Mapping accuracy statistics: per-sample angular / position error between
+// the ray the pipeline computes for a panel UV and a ground-truth ray,
+// summaries, a panel-UV heatmap, and CSV export. Pure TS.
+
+import * as THREE from "three";
+import { WorldRay } from "./hit-backends";
+
+export type BenchmarkSource = "synthetic" | "replay" | "controller";
+
+type Vec3Tuple = [number, number, number];
+
+export type BenchmarkSample = {
+  source: BenchmarkSource;
+  time: number; // ms since the run started
+  u: number; // panel UV
+  v: number;
+  imageU: number;
+  imageV: number;
+  angularErrorDeg: number;
+  positionErrorCm: number | null; // null when there is no truth hit
+  computed: { origin: Vec3Tuple; dir: Vec3Tuple; hit: Vec3Tuple | null };
+  truth: { origin: Vec3Tuple; dir: Vec3Tuple; hit: Vec3Tuple | null };
+};
+
+export type ErrorStats = {
+  count: number;
+  mean: number;
+  median: number;
+  p95: number;
+  max: number;
+};
+
+export type BenchmarkSummary = {
+  count: number;
+  angularDeg: ErrorStats | null;
+  positionCm: ErrorStats | null;
+};
+
+export type BenchmarkHeatmap = {
+  cols: number;
+  rows: number;
+  meanDeg: (number | null)[]; // row-major over panel UV, null = no samples
+  counts: number[];
+};
+
+export function angleBetweenDeg(a: THREE.Vector3, b: THREE.Vector3): number {
+  return THREE.MathUtils.radToDeg(a.angleTo(b));
+}
+
+export function errorStats(values: number[]): ErrorStats | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) =>
+    sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+
+  return {
+    count: sorted.length,
+    mean: sorted.reduce((a, b) => a + b, 0) / sorted.length,
+    median: at(0.5),
+    p95: at(0.95),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+export function summarize(samples: BenchmarkSample[]): BenchmarkSummary {
+  return {
+    count: samples.length,
+    angularDeg: errorStats(samples.map((s) => s.angularErrorDeg)),
+    positionCm: errorStats(
+      samples
+        .map((s) => s.positionErrorCm)
+        .filter((e): e is number => e !== null),
+    ),
+  };
+}
+
+export function buildHeatmap(
+  samples: BenchmarkSample[],
+  cols: number,
+  rows: number,
+): BenchmarkHeatmap {
+  const sums = new Array<number>(cols * rows).fill(0);
+  const counts = new Array<number>(cols * rows).fill(0);
+
+  for (const s of samples) {
+    const cx = THREE.MathUtils.clamp(Math.floor(s.u * cols), 0, cols - 1);
+    const cy = THREE.MathUtils.clamp(Math.floor(s.v * rows), 0, rows - 1);
+    sums[cy * cols + cx] += s.angularErrorDeg;
+    counts[cy * cols + cx]++;
+  }
+
+  return {
+    cols,
+    rows,
+    meanDeg: sums.map((sum, i) => (counts[i] ? sum / counts[i] : null)),
+    counts,
+  };
+}
+
+const toTuple = (v: THREE.Vector3): Vec3Tuple => [v.x, v.y, v.z];
+
+// Position error: distance between the two surface hits, or, when only the
+// truth hit exists, how far the computed ray passes from it.
+export function measureSample(m: {
+  source: BenchmarkSource;
+  time: number;
+  u: number;
+  v: number;
+  imageU: number;
+  imageV: number;
+  computed: WorldRay;
+  computedHit: THREE.Vector3 | null;
+  truth: WorldRay;
+  truthHit: THREE.Vector3 | null;
+}): BenchmarkSample {
+  let positionErrorCm: number | null = null;
+  if (m.truthHit && m.computedHit) {
+    positionErrorCm = m.truthHit.distanceTo(m.computedHit) * 100;
+  } else if (m.truthHit) {
+    const line = new THREE.Ray(m.computed.origin, m.computed.dir);
+    positionErrorCm = Math.sqrt(line.distanceSqToPoint(m.truthHit)) * 100;
+  }
+
+  return {
+    source: m.source,
+    time: m.time,
+    u: m.u,
+    v: m.v,
+    imageU: m.imageU,
+    imageV: m.imageV,
+    angularErrorDeg: angleBetweenDeg(m.computed.dir, m.truth.dir),
+    positionErrorCm,
+    computed: {
+      origin: toTuple(m.computed.origin),
+      dir: toTuple(m.computed.dir),
+      hit: m.computedHit ? toTuple(m.computedHit) : null,
+    },
+    truth: {
+      origin: toTuple(m.truth.origin),
+      dir: toTuple(m.truth.dir),
+      hit: m.truthHit ? toTuple(m.truthHit) : null,
+    },
+  };
+}
+
+const CSV_COLUMNS = [
+  "source",
+  "time_ms",
+  "panel_u",
+  "panel_v",
+  "image_u",
+  "image_v",
+  "angular_error_deg",
+  "position_error_cm",
+  "computed_origin_x",
+  "computed_origin_y",
+  "computed_origin_z",
+  "computed_dir_x",
+  "computed_dir_y",
+  "computed_dir_z",
+  "truth_dir_x",
+  "truth_dir_y",
+  "truth_dir_z",
+  "computed_hit_x",
+  "computed_hit_y",
+  "computed_hit_z",
+  "truth_hit_x",
+  "truth_hit_y",
+  "truth_hit_z",
+];
+
+export function samplesToCsv(samples: BenchmarkSample[]): string {
+  const num = (x: number | null | undefined) =>
+    x === null || x === undefined ? "" : String(+x.toFixed(6));
+  const tuple = (t: Vec3Tuple | null) => (t ? t.map(num) : ["", "", ""]);
+
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const s of samples) {
+    lines.push(
+      [
+        s.source,
+        num(s.time),
+        num(s.u),
+        num(s.v),
+        num(s.imageU),
+        num(s.imageV),
+        num(s.angularErrorDeg),
+        num(s.positionErrorCm),
+        ...tuple(s.computed.origin),
+        ...tuple(s.computed.dir),
+        ...tuple(s.truth.dir),
+        ...tuple(s.computed.hit),
+        ...tuple(s.truth.hit),
+      ].join(","),
+    );
+  }
+  return lines.join("\n") + "\n";
+}
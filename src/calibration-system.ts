@@ -0,0 +1,255 @@
+// calibration-system.ts
+//
+// In-headset calibration wizard.
+//   Left controller X button toggles calibration mode.
+//   For each target:
+//     1) aim the right controller straight at a real-world target and pull
+//        the trigger (off the panel) -> controller hit-test gives its 3D point,
+//     2) click the same target on the CameraPanel -> image pixel + viewer pose.
+//   After `targets` pairs the solver fits lensRotation/lensTranslation and
+//   fx/fy/cx/cy, saves the profile and swaps globals.cameraIntrinsics.
+//
+// Progress and the residual error are published as globals.panelStatus
+// (drawn on the panel by CameraPanelSystem).
+
+import { createSystem, Types } from "@iwsdk/core";
+import * as THREE from "three";
+import {
+  CameraImageMapping,
+  CameraIntrinsics,
+  panelUvToImageUv,
+} from "./camera-model";
+import {
+  CalibrationSample,
+  calibrationProfileKey,
+  saveCalibrationProfile,
+  solveCalibration,
+} from "./calibration";
+import { ControllerHitProbe } from "./controller-hit-probe";
+import { acquirePanel, panelMode, releasePanel } from "./panel-mode";
+
+const TOGGLE_BUTTON_INDEX = 4; // X on the left Quest controller
+
+type TapHitState = {
+  lastTapUv: { u: number; v: number } | null;
+  pendingRayUv: { u: number; v: number } | null;
+};
+
+type WizardStep = "idle" | "aim" | "aim-hit" | "click" | "done";
+
+export class CalibrationSystem extends createSystem(
+  {},
+  {
+    targets: { type: Types.Int8, default: 6 }, // correspondences per fit
+  },
+) {
+  private step: WizardStep = "idle";
+  private samples: CalibrationSample[] = [];
+  private pendingPoint: THREE.Vector3 | null = null;
+
+  private probe = new ControllerHitProbe();
+
+  private prevTrigger = false;
+  private prevToggle = false;
+  private lastSeenTap: { u: number; v: number } | null = null;
+
+  init() {
+    const globals = this.globals as any;
+    globals.calibration = {
+      start: () => this.start(),
+      cancel: () => this.cancel(),
+    };
+  }
+
+  private setStatus(text: string | null) {
+    (this.globals as any).panelStatus = text;
+    if (text) console.log("[Calibration]", text);
+  }
+
+  private start() {
+    const globals = this.globals as any;
+    if (!globals.cameraIntrinsics) {
+      this.setStatus("No camera intrinsics; cannot calibrate");
+      return;
+    }
+
+    if (!acquirePanel(globals, "calibration")) return;
+
+    this.samples = [];
+    this.pendingPoint = null;
+    this.lastSeenTap = globals.tapHitState?.lastTapUv ?? null;
+    this.step = "aim";
+    this.promptAim();
+  }
+
+  private cancel() {
+    const globals = this.globals as any;
+    this.probe.cancel();
+    this.step = "idle";
+    if (panelMode(globals) !== "calibration") return;
+    releasePanel(globals, "calibration");
+    this.setStatus(null);
+  }
+
+  private promptAim() {
+    const n = this.samples.length + 1;
+    const total = this.config.targets.peek();
+    this.setStatus(
+      `Target ${n}/${total}: aim controller at a target and pull trigger`,
+    );
+  }
+
+  update(dt: number, time: number) {
+    const xrMgr: any = this.xrManager;
+    const session: XRSession | null = xrMgr.getSession?.() ?? null;
+    const frame = this.xrFrame as XRFrame | null;
+    const refSpace: XRReferenceSpace | null =
+      xrMgr.getReferenceSpace?.() ?? null;
+
+    if (!session || !frame || !refSpace) return;
+
+    const globals = this.globals as any;
+
+    let rightController: XRInputSource | null = null;
+    let toggle = false;
+    for (const inputSource of session.inputSources) {
+      if (inputSource.targetRayMode !== "tracked-pointer") continue;
+      const buttons = inputSource.gamepad?.buttons;
+      if (inputSource.handedness === "left") {
+        toggle = !!buttons?.[TOGGLE_BUTTON_INDEX]?.pressed;
+      } else {
+        rightController = inputSource;
+      }
+    }
+
+    if (toggle && !this.prevToggle) {
+      if (this.step === "idle" || this.step === "done") this.start();
+      else this.cancel();
+    }
+    this.prevToggle = toggle;
+
+    const trigger = !!rightController?.gamepad?.buttons?.[0]?.pressed;
+    const triggerDown = trigger && !this.prevTrigger;
+    this.prevTrigger = trigger;
+
+    switch (this.step) {
+      case "aim":
+        // Trigger over the panel is a panel click, not an aim sample
+        if (triggerDown && rightController && !globals.panelHoverUv) {
+          this.requestAimHit(session, rightController);
+        }
+        break;
+
+      case "aim-hit":
+        this.pollAimHit(frame, refSpace, dt);
+        break;
+
+      case "click":
+        this.pollPanelClick(frame, refSpace);
+        break;
+    }
+  }
+
+  // ---------------- step 1: controller aim ----------------
+
+  private async requestAimHit(session: XRSession, controller: XRInputSource) {
+    this.step = "aim-hit";
+    const ok = await this.probe.start(session, controller);
+    // cancel() while waiting: the wizard is gone, leave it that way
+    if (!ok && this.step === "aim-hit") {
+      this.step = "aim";
+      this.setStatus("Controller hit-test unavailable; aim again");
+    }
+  }
+
+  private pollAimHit(frame: XRFrame, refSpace: XRReferenceSpace, dt: number) {
+    const result = this.probe.poll(frame, refSpace, dt);
+    if (result.status === "pending" || result.status === "idle") return;
+
+    if (result.status === "miss") {
+      this.step = "aim";
+      this.setStatus("No surface under the controller ray; aim again");
+      return;
+    }
+
+    this.pendingPoint = result.point;
+    this.lastSeenTap = (this.globals as any).tapHitState?.lastTapUv ?? null;
+    this.step = "click";
+
+    const n = this.samples.length + 1;
+    this.setStatus(`Target ${n}: now click the same target on the panel`);
+  }
+
+  // ---------------- step 2: panel click ----------------
+
+  private pollPanelClick(frame: XRFrame, refSpace: XRReferenceSpace) {
+    const globals = this.globals as any;
+    const tapState: TapHitState | undefined = globals.tapHitState;
+    const tap = tapState?.lastTapUv ?? null;
+
+    // ControllerPanelTapSystem replaces lastTapUv on every click
+    if (!tap || tap === this.lastSeenTap) return;
+    this.lastSeenTap = tap;
+
+    const intr: CameraIntrinsics | null = globals.cameraIntrinsics ?? null;
+    const mapping: CameraImageMapping | null =
+      globals.cameraImageMapping ?? null;
+    const viewerPose = frame.getViewerPose(refSpace);
+    if (!intr || !mapping || !viewerPose || !this.pendingPoint) return;
+
+    const img = panelUvToImageUv(mapping, tap.u, tap.v);
+    if (img.u < 0 || img.u > 1 || img.v < 0 || img.v > 1) {
+      this.setStatus("Click landed outside the camera image; try again");
+      return;
+    }
+
+    // Viewer pose when the clicked frame was captured (PoseSyncSystem)
+    const viewerMatrix: number[] = globals.cameraFramePose
+      ? globals.cameraFramePose.matrix.toArray()
+      : Array.from(viewerPose.transform.matrix);
+
+    this.samples.push({
+      point: {
+        x: this.pendingPoint.x,
+        y: this.pendingPoint.y,
+        z: this.pendingPoint.z,
+      },
+      viewerMatrix,
+      pixel: { x: img.u * intr.width, y: img.v * intr.height },
+    });
+    this.pendingPoint = null;
+
+    if (this.samples.length >= this.config.targets.peek()) {
+      this.solve(intr);
+    } else {
+      this.step = "aim";
+      this.promptAim();
+    }
+  }
+
+  // ---------------- solve + persist ----------------
+
+  private solve(base: CameraIntrinsics) {
+    const globals = this.globals as any;
+    const result = solveCalibration(base, this.samples);
+
+    const profile = {
+      key: calibrationProfileKey(base),
+      createdAt: new Date().toISOString(),
+      sampleCount: this.samples.length,
+      residualPx: result.residualPx,
+      intrinsics: result.intrinsics,
+    };
+
+    saveCalibrationProfile(profile);
+    globals.cameraIntrinsics = result.intrinsics;
+    globals.calibrationProfile = profile;
+    releasePanel(globals, "calibration");
+
+    this.step = "done";
+    this.setStatus(
+      `Calibrated: residual ${result.residualPx.toFixed(1)} px ` +
+        `(was ${result.initialResidualPx.toFixed(1)} px)`,
+    );
+  }
+}
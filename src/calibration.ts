@@ -0,0 +1,237 @@
+// calibration.ts
+//
+// Calibration profiles for the passthrough camera model:
+//   - solveCalibration(): Levenberg-Marquardt fit of a lens pose correction
+//     (lensRotation / lensTranslation) plus fx, fy, cx, cy from
+//     world point <-> image pixel correspondences.
+//   - save/load per device + camera resolution in localStorage.
+//   - applyCalibrationProfile(): swaps raw intrinsics for the fitted ones.
+
+import * as THREE from "three";
+import {
+  CameraIntrinsics,
+  cameraPoseFromViewer,
+  projectCameraPoint,
+} from "./camera-model";
+import { levenbergMarquardt } from "./linalg";
+
+export type CalibrationSample = {
+  // Target position in refSpace (from a controller hit-test)
+  point: { x: number; y: number; z: number };
+  // Viewer pose (viewer -> refSpace) when the target was clicked on the panel
+  viewerMatrix: number[];
+  // Clicked pixel in intrinsics image coordinates
+  pixel: { x: number; y: number };
+};
+
+export type CalibrationProfile = {
+  key: string;
+  createdAt: string;
+  sampleCount: number;
+  residualPx: number; // RMS reprojection error after the fit
+  intrinsics: CameraIntrinsics;
+};
+
+export type CalibrationResult = {
+  intrinsics: CameraIntrinsics;
+  residualPx: number;
+  initialResidualPx: number;
+};
+
+const STORAGE_PREFIX = "questcam2ar.calibration.";
+
+// Prior sigmas: how far each parameter may drift before the prior costs
+// as much as one pixel of reprojection error. Keeps the fit well-posed
+// with only a handful of targets.
+const PRIOR_ROT_RAD = 0.05;
+const PRIOR_TRANS_M = 0.03;
+const PRIOR_FOCAL_FRAC = 0.05;
+const PRIOR_PRINCIPAL_FRAC = 0.05;
+
+const LM_MAX_ITERATIONS = 50;
+const JACOBIAN_STEP = 1e-6;
+
+// Parameter vector: [wx, wy, wz, tx, ty, tz, dfx, dfy, dcx, dcy]
+const PARAM_COUNT = 10;
+
+// ---------------- model ----------------
+
+function applyParams(base: CameraIntrinsics, p: number[]): CameraIntrinsics {
+  const r0 = base.lensRotation ?? { x: 0, y: 0, z: 0, w: 1 };
+  const t0 = base.lensTranslation ?? { x: 0, y: 0, z: 0 };
+
+  // Rotation correction as a rotation vector, applied in lens space
+  const w = new THREE.Vector3(p[0], p[1], p[2]);
+  const angle = w.length();
+  const dq =
+    angle > 1e-12
+      ? new THREE.Quaternion().setFromAxisAngle(w.normalize(), angle)
+      : new THREE.Quaternion();
+  const q = new THREE.Quaternion(r0.x, r0.y, r0.z, r0.w).multiply(dq);
+
+  return {
+    ...base,
+    fx: base.fx + p[6],
+    fy: base.fy + p[7],
+    cx: base.cx + p[8],
+    cy: base.cy + p[9],
+    lensRotation: { x: q.x, y: q.y, z: q.z, w: q.w },
+    lensTranslation: { x: t0.x + p[3], y: t0.y + p[4], z: t0.z + p[5] },
+  };
+}
+
+function priorSigmas(base: CameraIntrinsics): number[] {
+  return [
+    PRIOR_ROT_RAD,
+    PRIOR_ROT_RAD,
+    PRIOR_ROT_RAD,
+    PRIOR_TRANS_M,
+    PRIOR_TRANS_M,
+    PRIOR_TRANS_M,
+    base.fx * PRIOR_FOCAL_FRAC,
+    base.fy * PRIOR_FOCAL_FRAC,
+    base.width * PRIOR_PRINCIPAL_FRAC,
+    base.height * PRIOR_PRINCIPAL_FRAC,
+  ];
+}
+
+// Reprojection residuals (2 per sample), in pixels
+function reprojectionResiduals(
+  intr: CameraIntrinsics,
+  samples: CalibrationSample[],
+): number[] {
+  const out: number[] = [];
+  const viewerMat = new THREE.Matrix4();
+  const camMat = new THREE.Matrix4();
+  const pCam = new THREE.Vector3();
+
+  for (const s of samples) {
+    viewerMat.fromArray(s.viewerMatrix);
+    cameraPoseFromViewer(intr, viewerMat, camMat).invert();
+    pCam.set(s.point.x, s.point.y, s.point.z).applyMatrix4(camMat);
+
+    const proj = projectCameraPoint(intr, pCam);
+    if (!proj) {
+      // Behind the camera: large but finite penalty
+      out.push(intr.width, intr.height);
+      continue;
+    }
+    out.push(proj.x - s.pixel.x, proj.y - s.pixel.y);
+  }
+
+  return out;
+}
+
+function residuals(
+  base: CameraIntrinsics,
+  samples: CalibrationSample[],
+  p: number[],
+  sigmas: number[],
+): number[] {
+  const r = reprojectionResiduals(applyParams(base, p), samples);
+  for (let i = 0; i < PARAM_COUNT; i++) r.push(p[i] / sigmas[i]);
+  return r;
+}
+
+function sumSquares(r: number[]): number {
+  let s = 0;
+  for (const x of r) s += x * x;
+  return s;
+}
+
+export function rmsReprojectionError(
+  intr: CameraIntrinsics,
+  samples: CalibrationSample[],
+): number {
+  if (!samples.length) return 0;
+  const r = reprojectionResiduals(intr, samples);
+  return Math.sqrt(sumSquares(r) / samples.length);
+}
+
+// ---------------- solver ----------------
+
+export function solveCalibration(
+  base: CameraIntrinsics,
+  samples: CalibrationSample[],
+): CalibrationResult {
+  const sigmas = priorSigmas(base);
+  const p = levenbergMarquardt(
+    (params) => residuals(base, samples, params, sigmas),
+    new Array(PARAM_COUNT).fill(0),
+    sigmas.map((sigma) => JACOBIAN_STEP * Math.max(1, sigma)),
+    LM_MAX_ITERATIONS,
+  );
+
+  const intrinsics = applyParams(base, p);
+  return {
+    intrinsics,
+    residualPx: rmsReprojectionError(intrinsics, samples),
+    initialResidualPx: rmsReprojectionError(base, samples),
+  };
+}
+
+// ---------------- persistence ----------------
+
+// Stable short id for this headset/browser (no device serial is exposed)
+function deviceId(): string {
+  const ua = typeof navigator !== "undefined" ? navigator.userAgent : "";
+  let h = 0;
+  for (let i = 0; i < ua.length; i++) h = (h * 31 + ua.charCodeAt(i)) | 0;
+  return (h >>> 0).toString(16);
+}
+
+export function calibrationProfileKey(intr: CameraIntrinsics): string {
+  return `${deviceId()}:${intr.width}x${intr.height}`;
+}
+
+export function saveCalibrationProfile(profile: CalibrationProfile) {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + profile.key, JSON.stringify(profile));
+  } catch (e) {
+    console.warn("[Calibration] Failed to save profile", e);
+  }
+}
+
+export function loadCalibrationProfile(
+  intr: CameraIntrinsics,
+): CalibrationProfile | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + calibrationProfileKey(intr));
+    return raw ? (JSON.parse(raw) as CalibrationProfile) : null;
+  } catch (e) {
+    console.warn("[Calibration] Failed to load profile", e);
+    return null;
+  }
+}
+
+export function clearCalibrationProfile(intr: CameraIntrinsics) {
+  localStorage.removeItem(STORAGE_PREFIX + calibrationProfileKey(intr));
+}
+
+// Raw intrinsics -> saved profile for this device/resolution, if any
+export function applyCalibrationProfile(
+  intr: CameraIntrinsics | null,
+): { intrinsics: CameraIntrinsics | null; profile: CalibrationProfile | null } {
+  if (!intr) return { intrinsics: null, profile: null };
+
+  const profile = loadCalibrationProfile(intr);
+  if (!profile) return { intrinsics: intr, profile: null };
+
+  console.log(
+    "[Calibration] Using profile",
+    profile.key,
+    "| residual px:",
+    profile.residualPx.toFixed(2),
+    "| samples:",
+    profile.sampleCount,
+  );
+
+  // Keep the live distortion if the profile was saved without one
+  return {
+    intrinsics: {
+      ...profile.intrinsics,
+      distortion: profile.intrinsics.distortion ?? intr.distortion,
+    },
+    profile,
+  };
+}
@@ -0,0 +1,290 @@
+// camera-model.ts
+//
+// Shared passthrough camera model:
+//   panel UV <-> camera image UV (A2 letterbox from CameraPanelSystem),
+//   image pixels <-> camera-space rays (intrinsics + lens distortion),
+//   viewer pose -> camera pose (lensRotation / lensTranslation).
+//
+// Camera space follows the convention TapHitDebugSystem has always used:
+// a pixel (x, y) maps to the direction ((x - cx) / fx, (y - cy) / fy, 1).
+
+import * as THREE from "three";
+
+export type CameraIntrinsics = {
+  width: number;
+  height: number;
+  fx: number;
+  fy: number;
+  cx: number;
+  cy: number;
+  distortion?: number[];
+  lensRotation?: { x: number; y: number; z: number; w: number };
+  lensTranslation?: { x: number; y: number; z: number };
+};
+
+export type CameraImageMapping = {
+  srcW: number;
+  srcH: number;
+  panelW: number;
+  panelH: number;
+  renderW: number;
+  renderH: number;
+  offsetX: number;
+  offsetY: number;
+  captureTime?: number; // performance.now() ms when the frame was captured
+};
+
+// Camera fields of MediaTrackSettings (Quest passthrough camera, or the
+// synthetic camera under IWER)
+export type CameraTrackSettings = {
+  width?: number;
+  height?: number;
+  lensIntrinsicCalibration?: number[]; // [fx, fy, cx, cy]
+  lensDistortion?: number[];
+  lensRotation?: { x: number; y: number; z: number; w: number };
+  lensTranslation?: { x: number; y: number; z: number };
+};
+
+const UNDISTORT_MAX_ITERATIONS = 20;
+const UNDISTORT_EPSILON = 1e-9;
+
+// ---------------- track settings ----------------
+
+// Null when the settings lack a usable calibration
+export function intrinsicsFromTrackSettings(
+  settings: CameraTrackSettings,
+): CameraIntrinsics | null {
+  const calib = settings.lensIntrinsicCalibration;
+  if (!calib || calib.length < 4) {
+    console.warn("[Intrinsics] lensIntrinsicCalibration missing or too short");
+    return null;
+  }
+
+  const [fx, fy, cx, cy] = calib;
+  const { width, height } = settings;
+
+  if (!width || !height || !fx || !fy) {
+    console.warn(
+      "[Intrinsics] Missing one or more fields (w,h,fx,fy,cx,cy). Cannot build intrinsics yet.",
+    );
+    return null;
+  }
+
+  const rot = settings.lensRotation;
+  const trans = settings.lensTranslation;
+
+  return {
+    width,
+    height,
+    fx,
+    fy,
+    cx,
+    cy,
+    distortion: settings.lensDistortion,
+    lensRotation: rot ? { x: rot.x, y: rot.y, z: rot.z, w: rot.w } : undefined,
+    lensTranslation: trans ? { x: trans.x, y: trans.y, z: trans.z } : undefined,
+  };
+}
+
+// ---------------- panel <-> image ----------------
+
+// Panel UV (0,0 = top-left) -> camera image UV. Not clamped: values outside
+// [0,1] mean the cursor is over the letterbox bars.
+export function panelUvToImageUv(
+  mapping: CameraImageMapping,
+  u: number,
+  v: number,
+): { u: number; v: number } {
+  const px = u * mapping.panelW;
+  const py = v * mapping.panelH;
+  return {
+    u: (px - mapping.offsetX) / mapping.renderW,
+    v: (py - mapping.offsetY) / mapping.renderH,
+  };
+}
+
+export function imageUvToPanelUv(
+  mapping: CameraImageMapping,
+  u: number,
+  v: number,
+): { u: number; v: number } {
+  return {
+    u: (mapping.offsetX + u * mapping.renderW) / mapping.panelW,
+    v: (mapping.offsetY + v * mapping.renderH) / mapping.panelH,
+  };
+}
+
+// ---------------- lens distortion ----------------
+
+// Android LENS_DISTORTION order: [k1, k2, k3, p1, p2] (Brown-Conrady).
+function distortionCoeffs(intr: CameraIntrinsics) {
+  const d = intr.distortion ?? [];
+  return {
+    k1: d[0] ?? 0,
+    k2: d[1] ?? 0,
+    k3: d[2] ?? 0,
+    p1: d[3] ?? 0,
+    p2: d[4] ?? 0,
+  };
+}
+
+export function hasDistortion(intr: CameraIntrinsics): boolean {
+  return !!intr.distortion && intr.distortion.some((c) => c !== 0);
+}
+
+// Ideal normalized coords -> distorted normalized coords
+export function distortNormalized(
+  intr: CameraIntrinsics,
+  x: number,
+  y: number,
+): { x: number; y: number } {
+  if (!hasDistortion(intr)) return { x, y };
+
+  const { k1, k2, k3, p1, p2 } = distortionCoeffs(intr);
+  const r2 = x * x + y * y;
+  const radial = 1 + r2 * (k1 + r2 * (k2 + r2 * k3));
+
+  return {
+    x: x * radial + 2 * p1 * x * y + p2 * (r2 + 2 * x * x),
+    y: y * radial + p1 * (r2 + 2 * y * y) + 2 * p2 * x * y,
+  };
+}
+
+// Distorted normalized coords -> ideal normalized coords (fixed-point iteration)
+export function undistortNormalized(
+  intr: CameraIntrinsics,
+  xd: number,
+  yd: number,
+): { x: number; y: number } {
+  if (!hasDistortion(intr)) return { x: xd, y: yd };
+
+  const { k1, k2, k3, p1, p2 } = distortionCoeffs(intr);
+  let x = xd;
+  let y = yd;
+
+  for (let i = 0; i < UNDISTORT_MAX_ITERATIONS; i++) {
+    const r2 = x * x + y * y;
+    const radial = 1 + r2 * (k1 + r2 * (k2 + r2 * k3));
+    const dx = 2 * p1 * x * y + p2 * (r2 + 2 * x * x);
+    const dy = p1 * (r2 + 2 * y * y) + 2 * p2 * x * y;
+
+    const nx = (xd - dx) / radial;
+    const ny = (yd - dy) / radial;
+
+    const change = Math.abs(nx - x) + Math.abs(ny - y);
+    x = nx;
+    y = ny;
+    if (change < UNDISTORT_EPSILON) break;
+  }
+
+  return { x, y };
+}
+
+// ---------------- pixel <-> camera ray ----------------
+
+export function pixelToCameraRay(
+  intr: CameraIntrinsics,
+  xPix: number,
+  yPix: number,
+  out = new THREE.Vector3(),
+): THREE.Vector3 {
+  const xd = (xPix - intr.cx) / intr.fx;
+  const yd = (yPix - intr.cy) / intr.fy;
+  const { x, y } = undistortNormalized(intr, xd, yd);
+  return out.set(x, y, 1).normalize();
+}
+
+// Camera-space point -> distorted pixel. Null if behind the camera.
+export function projectCameraPoint(
+  intr: CameraIntrinsics,
+  p: THREE.Vector3,
+): { x: number; y: number } | null {
+  if (p.z <= 1e-6) return null;
+
+  const { x, y } = distortNormalized(intr, p.x / p.z, p.y / p.z);
+  return {
+    x: x * intr.fx + intr.cx,
+    y: y * intr.fy + intr.cy,
+  };
+}
+
+// ---------------- extrinsics ----------------
+
+export function hasExtrinsics(
+  intr: CameraIntrinsics | null | undefined,
+): intr is CameraIntrinsics &
+  Required<Pick<CameraIntrinsics, "lensRotation" | "lensTranslation">> {
+  return (
+    !!intr &&
+    !!intr.width &&
+    !!intr.height &&
+    !!intr.fx &&
+    !!intr.fy &&
+    intr.cx !== undefined &&
+    intr.cy !== undefined &&
+    !!intr.lensRotation &&
+    !!intr.lensTranslation
+  );
+}
+
+// Camera pose in refSpace: viewerPose (display center) * lens pose
+export function cameraPoseFromViewer(
+  intr: CameraIntrinsics,
+  viewerMat: THREE.Matrix4,
+  out = new THREE.Matrix4(),
+): THREE.Matrix4 {
+  const r = intr.lensRotation ?? { x: 0, y: 0, z: 0, w: 1 };
+  const t = intr.lensTranslation ?? { x: 0, y: 0, z: 0 };
+
+  const lensMat = new THREE.Matrix4().compose(
+    new THREE.Vector3(t.x, t.y, t.z),
+    new THREE.Quaternion(r.x, r.y, r.z, r.w),
+    new THREE.Vector3(1, 1, 1),
+  );
+
+  return out.multiplyMatrices(viewerMat, lensMat);
+}
+
+// Image UV -> refSpace ray through the camera at cameraMat
+export function imageUvToWorldRay(
+  intr: CameraIntrinsics,
+  cameraMat: THREE.Matrix4,
+  uImg: number,
+  vImg: number,
+): { origin: THREE.Vector3; dir: THREE.Vector3 } {
+  const dirCam = pixelToCameraRay(intr, uImg * intr.width, vImg * intr.height);
+
+  const origin = new THREE.Vector3();
+  const rot = new THREE.Quaternion();
+  const scale = new THREE.Vector3();
+  cameraMat.decompose(origin, rot, scale);
+
+  return { origin, dir: dirCam.applyQuaternion(rot).normalize() };
+}
+
+// refSpace point -> image UV through the camera at cameraMat. Null if behind.
+export function worldPointToImageUv(
+  intr: CameraIntrinsics,
+  cameraMat: THREE.Matrix4,
+  point: THREE.Vector3,
+): { u: number; v: number } | null {
+  const inv = new THREE.Matrix4().copy(cameraMat).invert();
+  const pCam = point.clone().applyMatrix4(inv);
+
+  const pix = projectCameraPoint(intr, pCam);
+  if (!pix) return null;
+
+  return { u: pix.x / intr.width, v: pix.y / intr.height };
+}
+
+// refSpace point -> panel UV (reverse of the panel -> ray mapping)
+export function worldPointToPanelUv(
+  intr: CameraIntrinsics,
+  mapping: CameraImageMapping,
+  cameraMat: THREE.Matrix4,
+  point: THREE.Vector3,
+): { u: number; v: number } | null {
+  const img = worldPointToImageUv(intr, cameraMat, point);
+  if (!img) return null;
+  return imageUvToPanelUv(mapping, img.u, img.v);
+}
@@ -1,7 +1,38 @@
 // camera-panel-system.ts
+//
+// Head-locked panel showing the camera frame (letterboxed, A2 mode) plus
+// debug overlays: benchmark heatmap, detections (detection-overlay.ts),
+// hover ring, tap dot, reprojected reticle, status line.
+// Detection layers / style are config; globals.panelOverlay toggles layers
+// and hands out the items as drawn. Tracks in globals.rejectedTrackIds
+// (dataset capture) are drawn greyed out and crossed. While a frame is
+// being annotated, globals.panelAnnotation is drawn instead of detections.
+// The XR camera is grabbed once per new video frame (VideoFrameClock), and
+// that frame + its capture time are published as globals.cameraFrame.
 
-import { createSystem, CameraUtils } from "@iwsdk/core";
+import { createSystem, Types } from "@iwsdk/core";
 import * as THREE from "three";
+import { AnnotationView, drawAnnotations } from "./annotation";
+import { panelUvToImageUv } from "./camera-model";
+import {
+  DetectionOverlay,
+  OverlayItem,
+  OverlayLayer,
+  OverlayPick,
+  OverlayStyle,
+  PanelOverlay,
+  alignShift,
+  drawDetectionOverlay,
+  overlayItemAt,
+} from "./detection-overlay";
+import {
+  CameraFrame,
+  cameraVideoElement,
+  captureCameraFrame,
+  VideoFrameClock,
+} from "./frame-source";
+import { panelMode } from "./panel-mode";
+import { worldPointToImageUvAt } from "./panel-ray";
 
 type TapHitState = {
   lastTapUv: { u: number; v: number } | null;
@@ -15,12 +46,53 @@ const PANEL_H = 1280; // panel rendering height (px, square texture)
 const PANEL_SIZE_M = 0.6; // physical size in meters
 const PANEL_DISTANCE = 1.0; // distance in front of head
 
-export class CameraPanelSystem extends createSystem({}, {}) {
+export class CameraPanelSystem extends createSystem(
+  {},
+  {
+    overlayBoxes: { type: Types.Boolean, default: true },
+    overlayLabels: { type: Types.Boolean, default: true },
+    overlayMasks: { type: Types.Boolean, default: true },
+    overlayKeypoints: { type: Types.Boolean, default: true },
+    overlayAlign: { type: Types.Boolean, default: true }, // undo head motion
+    overlayMaxAge: { type: Types.Float32, default: 1.0 }, // seconds
+    overlayLineWidth: { type: Types.Float32, default: 3 },
+    overlayFontSize: { type: Types.Int16, default: 28 },
+    overlayOpacity: { type: Types.Float32, default: 0.9 },
+    overlayColorBy: { type: Types.String, default: "class" }, // | "track"
+  },
+) {
   private panelMesh: THREE.Mesh | null = null;
   private canvas: HTMLCanvasElement | null = null;
   private ctx: CanvasRenderingContext2D | null = null;
   private texture: THREE.CanvasTexture | null = null;
 
+  private clock = new VideoFrameClock();
+  private frame: CameraFrame | null = null;
+  private frameCount = 0;
+  private lastVideoFrame = 0; // clock count of the frame in this.frame
+
+  init() {
+    const layerConfig = {
+      boxes: this.config.overlayBoxes,
+      labels: this.config.overlayLabels,
+      masks: this.config.overlayMasks,
+      keypoints: this.config.overlayKeypoints,
+    };
+
+    const panelOverlay: PanelOverlay = {
+      layers: () => this.overlayLayers(),
+      setLayer: (layer: OverlayLayer, on: boolean) => {
+        layerConfig[layer].value = on;
+      },
+      style: () => this.overlayStyle(),
+      // Detection box under panel UV (u, v), as currently drawn
+      itemAt: (u: number, v: number) => this.overlayItemAtPanelUv(u, v),
+      // Current items with boxes moved into the frame on the panel now
+      aligned: () => this.alignedOverlayItems(),
+    };
+    (this.globals as any).panelOverlay = panelOverlay;
+  }
+
   private ensurePanel() {
     if (this.panelMesh) return;
 
@@ -58,13 +130,11 @@ export class CameraPanelSystem extends createSystem({}, {}) {
     const tapState: TapHitState | undefined = globals.tapHitState;
     const hoverUv: HoverUv = globals.panelHoverUv ?? null;
 
-    // Get camera frame
-    const cameraEntity = globals.cameraEntity;
-    if (!cameraEntity) return;
-
-    const frameCanvas: HTMLCanvasElement | null =
-      CameraUtils.captureFrame?.(cameraEntity) ?? null;
-    if (!frameCanvas) return;
+    // Get camera frame (XR camera, or a replay / synthetic source)
+    const frame = this.grabFrame();
+    if (!frame) return;
+    globals.cameraFrame = frame;
+    const frameCanvas = frame.canvas;
 
     const srcW = frameCanvas.width;
     const srcH = frameCanvas.height;
@@ -117,8 +187,49 @@ export class CameraPanelSystem extends createSystem({}, {}) {
       renderH,
       offsetX,
       offsetY,
+      captureTime: frame.captureTime,
     };
 
+    // Benchmark heatmap: mean angular error per panel cell, green -> red
+    const heatmap = globals.benchmarkHeatmap;
+    if (heatmap) {
+      const cellW = dstW / heatmap.cols;
+      const cellH = dstH / heatmap.rows;
+
+      for (let i = 0; i < heatmap.meanDeg.length; i++) {
+        const deg: number | null = heatmap.meanDeg[i];
+        if (deg === null) continue;
+
+        const t = Math.min(1, deg / heatmap.maxDeg);
+        const hue = Math.round(120 * (1 - t));
+        this.ctx.fillStyle = `hsla(${hue},90%,50%,0.35)`;
+        this.ctx.fillRect(
+          (i % heatmap.cols) * cellW,
+          Math.floor(i / heatmap.cols) * cellH,
+          cellW,
+          cellH,
+        );
+      }
+    }
+
+    // Hand-drawn boxes on a frozen frame, else the latest detection batch
+    const annotation: AnnotationView | null = globals.panelAnnotation ?? null;
+    const overlay = this.currentOverlay();
+    if (annotation) {
+      drawAnnotations(this.ctx, globals.cameraImageMapping, annotation);
+    } else if (overlay) {
+      drawDetectionOverlay(
+        this.ctx,
+        globals.cameraImageMapping,
+        overlay,
+        this.overlayLayers(),
+        this.overlayStyle(),
+        this.config.overlayAlign.peek() ? this.overlayShift() : undefined,
+        globals.selectedObject?.trackId ?? null,
+        globals.rejectedTrackIds ?? undefined,
+      );
+    }
+
     // Hover cursor (for debugging)
     if (hoverUv) {
       const x = hoverUv.u * dstW;
@@ -142,6 +253,139 @@ export class CameraPanelSystem extends createSystem({}, {}) {
       this.ctx.fill();
     }
 
+    // Reticle hit reprojected through intrinsics + distortion (debug):
+    // should sit on the hover ring when the mapping is correct.
+    const reticleUv: HoverUv = globals.reticlePanelUv ?? null;
+    if (reticleUv) {
+      const x = reticleUv.u * dstW;
+      const y = reticleUv.v * dstH;
+
+      this.ctx.beginPath();
+      this.ctx.moveTo(x - 10, y);
+      this.ctx.lineTo(x + 10, y);
+      this.ctx.moveTo(x, y - 10);
+      this.ctx.lineTo(x, y + 10);
+      this.ctx.lineWidth = 2;
+      this.ctx.strokeStyle = "rgba(255,200,0,0.9)";
+      this.ctx.stroke();
+    }
+
+    // Calibration wizard prompt / residual error
+    const status: string | null = globals.panelStatus ?? null;
+    if (status) {
+      this.ctx.font = "36px sans-serif";
+      this.ctx.textBaseline = "top";
+      const textW = this.ctx.measureText(status).width;
+
+      this.ctx.fillStyle = "rgba(0,0,0,0.7)";
+      this.ctx.fillRect(16, 16, textW + 32, 56);
+      this.ctx.fillStyle = panelMode(globals) ? "#ffd000" : "white";
+      this.ctx.fillText(status, 32, 26);
+    }
+
     this.texture.needsUpdate = true;
   }
+
+  // New frame when the video has one, else the frame already on the panel
+  private grabFrame(): CameraFrame | null {
+    const globals = this.globals as any;
+    const video = cameraVideoElement(globals);
+
+    if (video && VideoFrameClock.supported(video)) {
+      this.clock.attach(video);
+      const { count, time } = this.clock.latest();
+      if (count === this.lastVideoFrame && this.frame) return this.frame;
+
+      const canvas = captureCameraFrame(globals);
+      if (!canvas || !count) return this.frame;
+      this.lastVideoFrame = count;
+      this.frame = { canvas, frameId: ++this.frameCount, captureTime: time };
+      return this.frame;
+    }
+
+    // Replay / synthetic sources (or no requestVideoFrameCallback): they
+    // render on demand, so every redraw is a new frame
+    const canvas = captureCameraFrame(globals);
+    if (!canvas) return null;
+    this.lastVideoFrame = 0;
+    this.frame = {
+      canvas,
+      frameId: ++this.frameCount,
+      captureTime: performance.now(),
+    };
+    return this.frame;
+  }
+
+  // ---------------- detection overlay ----------------
+
+  private overlayLayers(): Record<OverlayLayer, boolean> {
+    return {
+      boxes: this.config.overlayBoxes.peek(),
+      labels: this.config.overlayLabels.peek(),
+      masks: this.config.overlayMasks.peek(),
+      keypoints: this.config.overlayKeypoints.peek(),
+    };
+  }
+
+  private currentOverlay(): DetectionOverlay | null {
+    const overlay: DetectionOverlay | null =
+      (this.globals as any).detectionOverlay ?? null;
+    const maxAgeMs = this.config.overlayMaxAge.peek() * 1000;
+    if (!overlay || performance.now() - overlay.captureTime > maxAgeMs) {
+      return null;
+    }
+    return overlay;
+  }
+
+  private overlayItemAtPanelUv(u: number, v: number): OverlayPick | null {
+    const globals = this.globals as any;
+    const overlay = this.currentOverlay();
+    const mapping = globals.cameraImageMapping;
+    if (!overlay || !mapping) return null;
+
+    const img = panelUvToImageUv(mapping, u, v);
+    return overlayItemAt(
+      overlay,
+      img.u,
+      img.v,
+      this.config.overlayAlign.peek() ? this.overlayShift() : undefined,
+    );
+  }
+
+  private alignedOverlayItems(): OverlayItem[] {
+    const overlay = this.currentOverlay();
+    if (!overlay) return [];
+
+    const shift = this.config.overlayAlign.peek()
+      ? this.overlayShift()
+      : () => ({ du: 0, dv: 0 });
+    return overlay.items.map((item) => {
+      const { du, dv } = shift(item);
+      const box = { ...item.box, cx: item.box.cx + du, cy: item.box.cy + dv };
+      return { ...item, box };
+    });
+  }
+
+  private overlayStyle(): OverlayStyle {
+    return {
+      lineWidth: this.config.overlayLineWidth.peek(),
+      fontSize: this.config.overlayFontSize.peek(),
+      opacity: this.config.overlayOpacity.peek(),
+      colorBy:
+        this.config.overlayColorBy.peek() === "track" ? "track" : "class",
+    };
+  }
+
+  // Projects into the frame on the panel now (pose of the displayed frame)
+  private overlayShift() {
+    const globals = this.globals as any;
+    const camera = this.camera as THREE.PerspectiveCamera;
+    const viewerMat: THREE.Matrix4 =
+      globals.cameraFramePose?.matrix ?? camera.matrixWorld;
+
+    return (item: OverlayItem) =>
+      alignShift(item, (p) =>
+        worldPointToImageUvAt(globals.cameraIntrinsics, viewerMat, camera, p),
+      );
+  }
 }
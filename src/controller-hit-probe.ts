@@ -0,0 +1,82 @@
+// controller-hit-probe.ts
+//
+// One-shot WebXR hit-test along a controller's target ray:
+// "aim the controller at a real-world point and pull the trigger".
+// Used by the calibration wizards to get target positions in refSpace.
+
+import * as THREE from "three";
+
+const PROBE_TIMEOUT = 0.6; // seconds to wait for a hit-test result
+
+export type ProbeResult =
+  | { status: "idle" }
+  | { status: "pending" }
+  | { status: "hit"; point: THREE.Vector3 }
+  | { status: "miss" };
+
+export class ControllerHitProbe {
+  private source: XRHitTestSource | null = null;
+  private requesting = false;
+  private elapsed = 0;
+  private generation = 0; // bumped by cancel(); stale requests drop out
+
+  get busy() {
+    return this.requesting || !!this.source;
+  }
+
+  async start(session: XRSession, controller: XRInputSource): Promise<boolean> {
+    const hitSession = session as XRSession & {
+      requestHitTestSource?: (
+        init: XRHitTestOptionsInit,
+      ) => Promise<XRHitTestSource>;
+    };
+
+    if (!hitSession.requestHitTestSource || this.busy) return false;
+
+    this.requesting = true;
+    this.elapsed = 0;
+    const generation = this.generation;
+
+    try {
+      const source =
+        (await hitSession.requestHitTestSource({
+          space: controller.targetRaySpace,
+        })) ?? null;
+      if (generation !== this.generation) {
+        source?.cancel(); // cancelled while the request was pending
+        return false;
+      }
+      this.source = source;
+      return !!this.source;
+    } catch (e) {
+      console.warn("[ControllerHitProbe] requestHitTestSource failed", e);
+      this.source = null;
+      return false;
+    } finally {
+      this.requesting = false;
+    }
+  }
+
+  poll(frame: XRFrame, refSpace: XRReferenceSpace, dt: number): ProbeResult {
+    if (this.requesting) return { status: "pending" };
+    if (!this.source) return { status: "idle" };
+
+    this.elapsed += dt;
+    const results = frame.getHitTestResults(this.source);
+    const pose = results.length ? results[0].getPose(refSpace) : null;
+
+    if (!pose && this.elapsed < PROBE_TIMEOUT) return { status: "pending" };
+
+    this.cancel();
+    if (!pose) return { status: "miss" };
+
+    const p = pose.transform.position;
+    return { status: "hit", point: new THREE.Vector3(p.x, p.y, p.z) };
+  }
+
+  cancel() {
+    this.generation++;
+    this.source?.cancel();
+    this.source = null;
+  }
+}
@@ -3,6 +3,10 @@
 // Uses XR controller rays to "hover" / "click" on the CameraPanel.
 // Right-hand controller only controls the reticle.
 // Hover updates panelHoverUv + pendingRayUv every frame for manifold scanning.
+// A trigger press that starts on the panel is also a drag gesture:
+// globals.panelDrag is a new PanelDrag per press, updated in place while the
+// trigger is held (off-panel moves keep the last on-panel UV) and marked
+// `released` when it lets go. Consumers keep the one they last handled.
 
 import { createSystem } from "@iwsdk/core";
 import * as THREE from "three";
@@ -12,6 +16,12 @@ type TapHitState = {
   pendingRayUv: { u: number; v: number } | null;
 };
 
+export type PanelDrag = {
+  start: { u: number; v: number };
+  current: { u: number; v: number };
+  released: boolean;
+};
+
 type PanelHitPointRef = {
   x: number;
   y: number;
@@ -21,6 +31,7 @@ type PanelHitPointRef = {
 export class ControllerPanelTapSystem extends createSystem({}, {}) {
   private raycaster = new THREE.Raycaster();
   private prevPressed = new Map<XRInputSource, boolean>();
+  private drag: PanelDrag | null = null;
 
   update(dt: number, time: number) {
     const globals = this.globals as any;
@@ -86,9 +97,15 @@ export class ControllerPanelTapSystem extends createSystem({}, {}) {
           // Continuous manifold scanning: always feed pendingRayUv
           tapState.pendingRayUv = { u, v };
 
+          if (this.drag && !this.drag.released) {
+            this.drag.current = { u, v };
+          }
+
           // Optional click semantics (for a solid dot on the panel)
           if (pressed && !prev) {
             tapState.lastTapUv = { u, v };
+            this.drag = { start: { u, v }, current: { u, v }, released: false };
+            globals.panelDrag = this.drag;
 
             const p = hit.point;
             pendingPanelHitPointRef = { x: p.x, y: p.y, z: p.z };
@@ -102,6 +119,9 @@ export class ControllerPanelTapSystem extends createSystem({}, {}) {
         }
       }
 
+      if (!pressed && this.drag && !this.drag.released) {
+        this.drag.released = true;
+      }
       this.prevPressed.set(inputSource, pressed);
     }
 
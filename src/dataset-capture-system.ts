@@ -0,0 +1,274 @@
+// dataset-capture-system.ts
+//
+// Training data capture from the headset (format in dataset.ts).
+//
+// Right thumbstick click starts capture mode. While it is on, the panel
+// belongs to this system: clicking a detection box on the panel toggles
+// it between accepted and rejected (rejected boxes are drawn grey and
+// crossed), and the right grip saves the current camera frame with the
+// accepted boxes, the camera intrinsics and the viewer pose. Clicking the
+// thumbstick again leaves capture mode and downloads the set as one ZIP
+// in `format` (yolo or coco). meta.json names the model the boxes came
+// from (registry id + version), so a retrained model can be published
+// back to the registry as the next version.
+//
+// globals.datasetCapture: start / stop / capture / samples / exportZip /
+// clear; add(sample) takes frames labeled elsewhere (AnnotationSystem).
+
+import { createSystem, Types } from "@iwsdk/core";
+import * as THREE from "three";
+import { CameraIntrinsics } from "./camera-model";
+import {
+  buildDatasetZip,
+  DATASET_FORMATS,
+  DatasetBox,
+  datasetBoxFromOverlay,
+  DatasetFormat,
+  DatasetSample,
+  datasetSampleId,
+} from "./dataset";
+import { DetectionPipeline } from "./detection-pipeline";
+import { panelOverlay } from "./detection-overlay";
+import { downloadBlob } from "./download";
+import { captureCameraFrame } from "./frame-source";
+import { acquirePanel, releasePanel } from "./panel-mode";
+
+const TOGGLE_BUTTON_INDEX = 3; // right thumbstick click
+const CAPTURE_BUTTON_INDEX = 1; // right grip
+
+export class DatasetCaptureSystem extends createSystem(
+  {},
+  {
+    format: { type: Types.String, default: "yolo" }, // yolo | coco
+    minScore: { type: Types.Float32, default: 0.35 },
+    jpegQuality: { type: Types.Float32, default: 0.92 },
+  },
+) {
+  private active = false;
+  private samples: DatasetSample[] = [];
+  private rejected = new Set<number>(); // track ids
+  private saving = false;
+
+  private lastSeenTap: { u: number; v: number } | null = null;
+  private prevToggle = false;
+  private prevCapture = false;
+
+  init() {
+    const globals = this.globals as any;
+    globals.rejectedTrackIds = null;
+    globals.datasetCapture = {
+      start: () => this.startCapture(),
+      stop: (download = true) => this.stopCapture(download),
+      isActive: () => this.active,
+      capture: () => this.capture(),
+      add: (sample: Omit<DatasetSample, "id">) => this.addSample(sample),
+      samples: () => this.samples,
+      exportZip: (format?: DatasetFormat) => this.exportZip(format),
+      clear: () => {
+        this.samples = [];
+        this.showStatus();
+      },
+    };
+  }
+
+  update() {
+    const xrMgr: any = this.xrManager;
+    const session: XRSession | null = xrMgr.getSession?.() ?? null;
+    if (!session) return;
+
+    let toggle = false;
+    let capture = false;
+    for (const inputSource of session.inputSources) {
+      if (inputSource.handedness !== "right") continue;
+      const buttons = inputSource.gamepad?.buttons;
+      toggle = !!buttons?.[TOGGLE_BUTTON_INDEX]?.pressed;
+      capture = !!buttons?.[CAPTURE_BUTTON_INDEX]?.pressed;
+    }
+
+    if (toggle && !this.prevToggle) {
+      if (this.active) this.stopCapture(true);
+      else this.startCapture();
+    }
+    this.prevToggle = toggle;
+
+    if (!this.active) return;
+
+    if (capture && !this.prevCapture) this.capture();
+    this.prevCapture = capture;
+
+    this.pollPanelClick();
+  }
+
+  private setStatus(text: string | null) {
+    (this.globals as any).panelStatus = text;
+    if (text) console.log("[Dataset]", text);
+  }
+
+  private showStatus() {
+    if (!this.active) return;
+    this.setStatus(
+      `Dataset: ${this.samples.length} frames - click box: reject / ` +
+        "accept, grip: save frame, stick: export",
+    );
+  }
+
+  // ---------------- mode ----------------
+
+  private startCapture() {
+    const globals = this.globals as any;
+    if (this.active) return;
+    if (!acquirePanel(globals, "dataset")) return;
+
+    this.active = true;
+    this.rejected.clear();
+    this.lastSeenTap = globals.tapHitState?.lastTapUv ?? null;
+    globals.rejectedTrackIds = this.rejected;
+    this.showStatus();
+  }
+
+  private async stopCapture(download: boolean) {
+    const globals = this.globals as any;
+    if (!this.active) return;
+
+    this.active = false;
+    this.rejected.clear();
+    releasePanel(globals, "dataset");
+    globals.rejectedTrackIds = null;
+    this.setStatus(null);
+
+    if (download && this.samples.length) await this.exportZip();
+  }
+
+  // ---------------- accept / reject ----------------
+
+  private pollPanelClick() {
+    const globals = this.globals as any;
+    const tap: { u: number; v: number } | null =
+      globals.tapHitState?.lastTapUv ?? null;
+
+    // ControllerPanelTapSystem replaces lastTapUv on every click
+    if (!tap || tap === this.lastSeenTap) return;
+    this.lastSeenTap = tap;
+
+    const item = panelOverlay(globals)?.itemAt(tap.u, tap.v)?.item;
+    if (!item || item.trackId === null) return;
+
+    if (this.rejected.has(item.trackId)) this.rejected.delete(item.trackId);
+    else this.rejected.add(item.trackId);
+    console.log(
+      "[Dataset]",
+      this.rejected.has(item.trackId) ? "Rejected" : "Accepted",
+      item.label,
+      item.trackId,
+    );
+  }
+
+  // ---------------- capture ----------------
+
+  private async capture() {
+    const globals = this.globals as any;
+    if (this.saving) return;
+
+    const frameCanvas = captureCameraFrame(globals);
+    if (!frameCanvas || !frameCanvas.width || !frameCanvas.height) {
+      this.setStatus("Dataset: no camera frame yet");
+      return;
+    }
+
+    // Copy now: the boxes are aligned to the frame on the panel right now
+    const width = frameCanvas.width;
+    const height = frameCanvas.height;
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext("2d")?.drawImage(frameCanvas, 0, 0);
+
+    const items = panelOverlay(globals)?.aligned() ?? [];
+    const boxes = items
+      .filter(
+        (item) =>
+          item.score >= this.config.minScore.peek() &&
+          (item.trackId === null || !this.rejected.has(item.trackId)),
+      )
+      .map((item) => datasetBoxFromOverlay(item, width, height))
+      .filter((box): box is DatasetBox => box !== null);
+
+    const viewer: THREE.Matrix4 =
+      globals.cameraFramePose?.matrix ?? this.camera.matrixWorld;
+    const viewerMatrix = viewer.toArray();
+    const intrinsics: CameraIntrinsics | null = globals.cameraIntrinsics
+      ? { ...globals.cameraIntrinsics }
+      : null;
+
+    this.saving = true;
+    try {
+      const image = await new Promise<Blob | null>((resolve) =>
+        canvas.toBlob(resolve, "image/jpeg", this.config.jpegQuality.peek()),
+      );
+      if (!image) throw new Error("JPEG encoding failed");
+
+      this.addSample({
+        image,
+        width,
+        height,
+        capturedAt: Date.now(),
+        viewerMatrix,
+        intrinsics,
+        boxes,
+      });
+    } catch (e) {
+      console.error("[Dataset] Capture failed:", e);
+      this.setStatus("Dataset: capture failed");
+    } finally {
+      this.saving = false;
+    }
+  }
+
+  private addSample(sample: Omit<DatasetSample, "id">) {
+    const id = datasetSampleId(this.samples.length + 1);
+    this.samples.push({ id, ...sample });
+    this.showStatus();
+  }
+
+  // ---------------- export ----------------
+
+  private async exportZip(format?: DatasetFormat) {
+    const globals = this.globals as any;
+    const fmt = format ?? (this.config.format.peek() as DatasetFormat);
+    if (!DATASET_FORMATS.includes(fmt)) {
+      console.warn("[Dataset] Unknown format", fmt);
+      return;
+    }
+    if (!this.samples.length) {
+      console.warn("[Dataset] Nothing captured");
+      return;
+    }
+
+    const pipeline = globals.detectionPipeline as
+      | DetectionPipeline
+      | undefined;
+    const model = pipeline?.model ?? null;
+    try {
+      const zip = await buildDatasetZip(
+        this.samples,
+        {
+          modelId: model?.id ?? null,
+          modelVersion: model?.version ?? null,
+          labels: pipeline?.labels ?? [],
+        },
+        fmt,
+      );
+
+      const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+      downloadBlob(`dataset-${stamp}-${fmt}.zip`, zip);
+      console.log(
+        `[Dataset] Exported ${this.samples.length} frames as ${fmt}`,
+        `(${(zip.size / 1e6).toFixed(1)} MB)`,
+      );
+    } catch (e) {
+      // Callers fire and forget (stick click, annotation Export button)
+      console.error("[Dataset] Export failed:", e);
+      this.setStatus("Dataset: export failed");
+    }
+  }
+}
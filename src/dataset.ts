@@ -0,0 +1,201 @@
+// dataset.ts
+//
+// Training data captured in the headset: camera frames (JPEG) with labeled
+// boxes, the intrinsics and the viewer pose of each frame. Exported as one
+// ZIP (zip.ts) in either layout:
+//   yolo - images/train/<id>.jpg, labels/train/<id>.txt
+//          ("class cx cy w h", normalized), data.yaml with the class names
+//   coco - images/<id>.jpg, annotations.json (bbox = x, y, w, h in px;
+//          category id = model class id + 1, as COCO reserves 0)
+// Both add meta.json: the model the boxes came from (id, version, labels,
+// and for coco the category id of each model class)
+// and per-frame intrinsics + viewer pose, so the set can be traced back to
+// the model registry and re-projected into the room.
+
+import { CameraIntrinsics } from "./camera-model";
+import { OverlayItem } from "./detection-overlay";
+import { createZip, ZipEntry } from "./zip";
+
+const MIN_BOX_PX = 2; // detection boxes clipped smaller than this are dropped
+const COCO_CATEGORY_OFFSET = 1; // category id = class id + 1
+
+export type DatasetFormat = "yolo" | "coco";
+
+export const DATASET_FORMATS: DatasetFormat[] = ["yolo", "coco"];
+
+export type DatasetBox = {
+  classId: number;
+  label: string;
+  x: number; // top-left, image px
+  y: number;
+  w: number;
+  h: number;
+  score: number | null; // null = drawn by hand
+  source: "detection" | "manual";
+};
+
+export type DatasetSample = {
+  id: string; // file stem
+  image: Blob; // JPEG
+  width: number;
+  height: number;
+  capturedAt: number; // Date.now()
+  viewerMatrix: number[] | null; // refSpace, column-major
+  intrinsics: CameraIntrinsics | null;
+  boxes: DatasetBox[];
+};
+
+export type DatasetInfo = {
+  modelId: string | null;
+  modelVersion: string | null;
+  labels: string[]; // class names by id
+};
+
+export function datasetSampleId(index: number): string {
+  return `frame_${String(index).padStart(5, "0")}`;
+}
+
+// Overlay item (image UV box) -> pixel box clipped to the image
+export function datasetBoxFromOverlay(
+  item: OverlayItem,
+  width: number,
+  height: number,
+): DatasetBox | null {
+  const { cx, cy, w, h } = item.box;
+  const x0 = Math.max(0, (cx - w / 2) * width);
+  const y0 = Math.max(0, (cy - h / 2) * height);
+  const x1 = Math.min(width, (cx + w / 2) * width);
+  const y1 = Math.min(height, (cy + h / 2) * height);
+  if (x1 - x0 < MIN_BOX_PX || y1 - y0 < MIN_BOX_PX) return null;
+
+  return {
+    classId: item.classId,
+    label: item.label,
+    x: x0,
+    y: y0,
+    w: x1 - x0,
+    h: y1 - y0,
+    score: item.score,
+    source: "detection",
+  };
+}
+
+// Class names by id: the model's labels, plus any id they do not cover
+function classNames(samples: DatasetSample[], labels: string[]): string[] {
+  const names = [...labels];
+  for (const s of samples) {
+    for (const b of s.boxes) {
+      for (let i = names.length; i <= b.classId; i++) names[i] = `class_${i}`;
+      if (!labels[b.classId]) names[b.classId] = b.label;
+    }
+  }
+  return names;
+}
+
+export async function buildDatasetZip(
+  samples: DatasetSample[],
+  info: DatasetInfo,
+  format: DatasetFormat,
+): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const text = (name: string, s: string): ZipEntry => ({
+    name,
+    data: encoder.encode(s),
+  });
+  const names = classNames(samples, info.labels);
+  const entries: ZipEntry[] = [];
+  const imageDir = format === "yolo" ? "images/train" : "images";
+
+  for (const s of samples) {
+    entries.push({
+      name: `${imageDir}/${s.id}.jpg`,
+      data: new Uint8Array(await s.image.arrayBuffer()),
+    });
+  }
+
+  if (format === "yolo") {
+    for (const s of samples) {
+      const lines = s.boxes.map((b) =>
+        [
+          b.classId,
+          (b.x + b.w / 2) / s.width,
+          (b.y + b.h / 2) / s.height,
+          b.w / s.width,
+          b.h / s.height,
+        ]
+          .map((v, i) => (i === 0 ? String(v) : v.toFixed(6)))
+          .join(" "),
+      );
+      entries.push(text(`labels/train/${s.id}.txt`, lines.join("\n") + "\n"));
+    }
+
+    const yaml = [
+      "path: .",
+      "train: images/train",
+      "val: images/train",
+      "names:",
+      ...names.map((n, i) => `  ${i}: ${JSON.stringify(n)}`),
+    ];
+    entries.push(text("data.yaml", yaml.join("\n") + "\n"));
+  } else {
+    let annotationId = 1;
+    const coco = {
+      info: {
+        description: "QuestCam2AR capture",
+        date_created: new Date().toISOString(),
+      },
+      images: samples.map((s, i) => ({
+        id: i + 1,
+        file_name: `${s.id}.jpg`,
+        width: s.width,
+        height: s.height,
+      })),
+      annotations: samples.flatMap((s, i) =>
+        s.boxes.map((b) => ({
+          id: annotationId++,
+          image_id: i + 1,
+          category_id: b.classId + COCO_CATEGORY_OFFSET,
+          bbox: [b.x, b.y, b.w, b.h].map((v) => +v.toFixed(2)),
+          area: +(b.w * b.h).toFixed(2),
+          iscrowd: 0,
+        })),
+      ),
+      categories: names.map((name, classId) => ({
+        id: classId + COCO_CATEGORY_OFFSET,
+        name,
+      })),
+    };
+    entries.push(text("annotations.json", JSON.stringify(coco)));
+  }
+
+  const meta = {
+    format,
+    createdAt: new Date().toISOString(),
+    model: { id: info.modelId, version: info.modelVersion, labels: names },
+    ...(format === "coco"
+      ? {
+          cocoCategories: names.map((name, classId) => ({
+            categoryId: classId + COCO_CATEGORY_OFFSET,
+            classId,
+            name,
+          })),
+        }
+      : {}),
+    frames: samples.map((s) => ({
+      file: `${imageDir}/${s.id}.jpg`,
+      capturedAt: new Date(s.capturedAt).toISOString(),
+      width: s.width,
+      height: s.height,
+      viewerMatrix: s.viewerMatrix,
+      intrinsics: s.intrinsics,
+      boxes: s.boxes.map(({ label, score, source }) => ({
+        label,
+        score,
+        source,
+      })),
+    })),
+  };
+  entries.push(text("meta.json", JSON.stringify(meta, null, 2)));
+
+  return createZip(entries);
+}
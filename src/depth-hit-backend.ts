@@ -0,0 +1,328 @@
+// depth-hit-backend.ts
+//
+// Hit backend over WebXR depth sensing (cpu-optimized):
+//   - march the world ray, projecting each sample into the depth view,
+//   - look up the depth buffer (bilinear, hole filling from neighbours),
+//   - first sample behind the measured surface -> bisect to the crossing.
+// Returns the 3D point, a normal from neighbouring depth samples and a
+// confidence in [0, 1]. Catches objects (chairs, cups, ...) that planes and
+// hit-test skip, where the ray would otherwise land on the floor behind.
+
+import * as THREE from "three";
+import { HitBackend, HitContext, SurfaceHit, WorldRay } from "./hit-backends";
+
+const NEAR = 0.1; // meters; start marching past the controller / headset
+const FAR = 8.0; // beyond this depth is too noisy to be useful
+const STEP_MIN = 0.01;
+const STEP_REL = 0.02; // step grows with distance (depth error does too)
+const BISECT_ITERATIONS = 10;
+const HOLE_RADIUS = 4; // depth pixels searched around a hole
+const NORMAL_OFFSET = 0.01; // normalized view offset for normal estimation
+const NOISY_DEPTH = 3.0; // meters; confidence falls off beyond this
+
+export type DepthSample = { depth: number; confidence: number };
+
+// Minimal view of XRCPUDepthInformation so sampling can run on plain buffers
+export type DepthBuffer = {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+  rawValueToMeters: number;
+  normDepthBufferFromNormView: Float32Array | number[]; // column-major 4x4
+};
+
+function isValidDepth(d: number): boolean {
+  return d > 0 && Number.isFinite(d);
+}
+
+function depthAt(buf: DepthBuffer, x: number, y: number): number {
+  if (x < 0 || y < 0 || x >= buf.width || y >= buf.height) return 0;
+  return buf.data[y * buf.width + x] * buf.rawValueToMeters;
+}
+
+// Nearest valid pixels within HOLE_RADIUS, inverse-distance weighted
+function fillHole(buf: DepthBuffer, fx: number, fy: number): DepthSample | null {
+  const cx = Math.round(fx);
+  const cy = Math.round(fy);
+
+  for (let r = 1; r <= HOLE_RADIUS; r++) {
+    let sum = 0;
+    let wsum = 0;
+    for (let y = cy - r; y <= cy + r; y++) {
+      for (let x = cx - r; x <= cx + r; x++) {
+        if (Math.max(Math.abs(x - cx), Math.abs(y - cy)) !== r) continue;
+        const d = depthAt(buf, x, y);
+        if (!isValidDepth(d)) continue;
+        const w = 1 / Math.hypot(x - fx, y - fy);
+        sum += d * w;
+        wsum += w;
+      }
+    }
+    if (wsum > 0) {
+      return { depth: sum / wsum, confidence: 0.6 * (1 - r / (HOLE_RADIUS + 1)) };
+    }
+  }
+  return null;
+}
+
+// Depth in meters at normalized view coords (0,0 = top-left)
+export function sampleDepth(
+  buf: DepthBuffer,
+  u: number,
+  v: number,
+): DepthSample | null {
+  // Normalized view -> normalized depth buffer coords
+  const m = buf.normDepthBufferFromNormView;
+  const du = m[0] * u + m[4] * v + m[12];
+  const dv = m[1] * u + m[5] * v + m[13];
+  if (du < 0 || du > 1 || dv < 0 || dv > 1) return null;
+
+  // Pixel centers at +0.5
+  const fx = du * buf.width - 0.5;
+  const fy = dv * buf.height - 0.5;
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const tx = fx - x0;
+  const ty = fy - y0;
+
+  const corners = [
+    { d: depthAt(buf, x0, y0), w: (1 - tx) * (1 - ty) },
+    { d: depthAt(buf, x0 + 1, y0), w: tx * (1 - ty) },
+    { d: depthAt(buf, x0, y0 + 1), w: (1 - tx) * ty },
+    { d: depthAt(buf, x0 + 1, y0 + 1), w: tx * ty },
+  ];
+
+  let sum = 0;
+  let wsum = 0;
+  let valid = 0;
+  for (const c of corners) {
+    if (!isValidDepth(c.d)) continue;
+    sum += c.d * c.w;
+    wsum += c.w;
+    valid++;
+  }
+
+  if (valid === 4) return { depth: sum / wsum, confidence: 1 };
+  if (wsum > 1e-6) return { depth: sum / wsum, confidence: 0.5 + 0.1 * valid };
+  return fillHole(buf, fx, fy);
+}
+
+// ---------------- backend ----------------
+
+type DepthView = {
+  buffer: DepthBuffer;
+  worldToView: THREE.Matrix4;
+  viewToWorld: THREE.Matrix4;
+  projection: THREE.Matrix4;
+  projectionInv: THREE.Matrix4;
+};
+
+export class DepthHitBackend implements HitBackend {
+  readonly name = "depth";
+  readonly sync = true;
+
+  // Cached per XRFrame: depth data is only valid inside its frame callback
+  private cachedFrame: XRFrame | null = null;
+  private cachedView: DepthView | null = null;
+
+  isAvailable(ctx: HitContext): boolean {
+    const session = ctx.session;
+    if (session.depthUsage && session.depthUsage !== "cpu-optimized") {
+      return false;
+    }
+    if (session.depthActive === false) return false;
+    return !!this.depthView(ctx);
+  }
+
+  raycast(ray: WorldRay, ctx: HitContext): SurfaceHit | null {
+    const view = this.depthView(ctx);
+    if (!view) return null;
+
+    const dir = ray.dir.clone().normalize();
+    const point = new THREE.Vector3();
+
+    // March until the ray passes behind the measured surface
+    let prevT = NEAR;
+    let t = NEAR;
+    let crossing: { t0: number; t1: number } | null = null;
+    let last: DepthSample | null = null;
+
+    while (t <= FAR * 1.5) {
+      point.copy(ray.origin).addScaledVector(dir, t);
+      const gap = this.surfaceGap(view, point);
+      if (gap) {
+        last = gap.sample;
+        if (gap.gap >= 0) {
+          crossing = { t0: prevT, t1: t };
+          break;
+        }
+      }
+      prevT = t;
+      t += Math.max(STEP_MIN, STEP_REL * t);
+    }
+
+    if (!crossing || !last) return null;
+
+    // Bisect between the last sample in front and the first one behind
+    let { t0, t1 } = crossing;
+    let sample = last;
+    for (let i = 0; i < BISECT_ITERATIONS; i++) {
+      const tm = 0.5 * (t0 + t1);
+      point.copy(ray.origin).addScaledVector(dir, tm);
+      const gap = this.surfaceGap(view, point);
+      if (!gap) break;
+      sample = gap.sample;
+      if (gap.gap >= 0) t1 = tm;
+      else t0 = tm;
+    }
+
+    const tHit = 0.5 * (t0 + t1);
+    const hitPoint = ray.origin.clone().addScaledVector(dir, tHit);
+    const viewDepth = -hitPoint.clone().applyMatrix4(view.worldToView).z;
+    if (viewDepth > FAR) return null;
+
+    const normal =
+      this.estimateNormal(view, hitPoint) ?? dir.clone().negate();
+    if (normal.dot(dir) > 0) normal.negate();
+
+    // Depth noise grows with distance; grazing angles are unreliable too
+    const rangeFactor = THREE.MathUtils.clamp(
+      1 - (viewDepth - NOISY_DEPTH) / (FAR - NOISY_DEPTH),
+      0,
+      1,
+    );
+    const grazingFactor = THREE.MathUtils.clamp(
+      Math.abs(normal.dot(dir)) * 2,
+      0.3,
+      1,
+    );
+
+    return {
+      point: hitPoint,
+      normal,
+      distance: tHit,
+      label: null,
+      source: this.name,
+      confidence: sample.confidence * rangeFactor * grazingFactor,
+    };
+  }
+
+  // ---------------- depth view ----------------
+
+  private depthView(ctx: HitContext): DepthView | null {
+    if (this.cachedFrame === ctx.frame) return this.cachedView;
+    this.cachedFrame = ctx.frame;
+    this.cachedView = null;
+
+    const frame = ctx.frame as XRFrame & {
+      getDepthInformation?: (view: XRView) => XRCPUDepthInformation | null;
+    };
+    if (typeof frame.getDepthInformation !== "function") return null;
+
+    for (const view of ctx.viewerPose.views) {
+      let info: XRCPUDepthInformation | null | undefined = null;
+      try {
+        info = frame.getDepthInformation(view);
+      } catch {
+        // Depth not enabled for this session / view
+        return null;
+      }
+      if (!info) continue;
+
+      // Quest depth may come from its own camera: prefer its pose/projection
+      const viewToWorld = new THREE.Matrix4().fromArray(
+        (info.transform ?? view.transform).matrix,
+      );
+      const projection = new THREE.Matrix4().fromArray(
+        info.projectionMatrix ?? view.projectionMatrix,
+      );
+
+      const data =
+        ctx.session.depthDataFormat === "float32"
+          ? new Float32Array(info.data)
+          : new Uint16Array(info.data);
+
+      this.cachedView = {
+        buffer: {
+          width: info.width,
+          height: info.height,
+          data,
+          rawValueToMeters: info.rawValueToMeters,
+          normDepthBufferFromNormView: info.normDepthBufferFromNormView.matrix,
+        },
+        worldToView: viewToWorld.clone().invert(),
+        viewToWorld,
+        projection,
+        projectionInv: projection.clone().invert(),
+      };
+      break;
+    }
+
+    return this.cachedView;
+  }
+
+  // World point -> normalized view coords + view-space depth
+  private projectToView(
+    view: DepthView,
+    point: THREE.Vector3,
+  ): { u: number; v: number; depth: number } | null {
+    const pView = point.clone().applyMatrix4(view.worldToView);
+    const depth = -pView.z;
+    if (depth <= 0) return null;
+
+    const ndc = pView.applyMatrix4(view.projection);
+    if (Math.abs(ndc.x) > 1 || Math.abs(ndc.y) > 1) return null;
+
+    return { u: (ndc.x + 1) / 2, v: (1 - ndc.y) / 2, depth };
+  }
+
+  // Normalized view coords + depth -> world point
+  private unprojectFromView(
+    view: DepthView,
+    u: number,
+    v: number,
+    depth: number,
+  ): THREE.Vector3 {
+    const ndc = new THREE.Vector3(u * 2 - 1, 1 - v * 2, 0.5);
+    const dirView = ndc.applyMatrix4(view.projectionInv);
+    dirView.multiplyScalar(depth / -dirView.z);
+    return dirView.applyMatrix4(view.viewToWorld);
+  }
+
+  // > 0: point is behind the measured surface
+  private surfaceGap(
+    view: DepthView,
+    point: THREE.Vector3,
+  ): { gap: number; sample: DepthSample } | null {
+    const p = this.projectToView(view, point);
+    if (!p) return null;
+    const sample = sampleDepth(view.buffer, p.u, p.v);
+    if (!sample) return null;
+    return { gap: p.depth - sample.depth, sample };
+  }
+
+  private estimateNormal(
+    view: DepthView,
+    point: THREE.Vector3,
+  ): THREE.Vector3 | null {
+    const p = this.projectToView(view, point);
+    if (!p) return null;
+
+    const s = NORMAL_OFFSET;
+    const right = sampleDepth(view.buffer, p.u + s, p.v);
+    const left = sampleDepth(view.buffer, p.u - s, p.v);
+    const down = sampleDepth(view.buffer, p.u, p.v + s);
+    const up = sampleDepth(view.buffer, p.u, p.v - s);
+    if (!right || !left || !down || !up) return null;
+
+    const pr = this.unprojectFromView(view, p.u + s, p.v, right.depth);
+    const pl = this.unprojectFromView(view, p.u - s, p.v, left.depth);
+    const pd = this.unprojectFromView(view, p.u, p.v + s, down.depth);
+    const pu = this.unprojectFromView(view, p.u, p.v - s, up.depth);
+
+    const tx = pr.sub(pl);
+    const ty = pu.sub(pd);
+    const n = new THREE.Vector3().crossVectors(tx, ty);
+    return n.lengthSq() > 1e-12 ? n.normalize() : null;
+  }
+}
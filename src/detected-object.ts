@@ -0,0 +1,50 @@
+// detected-object.ts
+//
+// ECS view of the tracker: YoloSystem gives every confirmed track an entity
+// with a DetectedObject component (and keeps it in sync) until the track is
+// removed. The entity's object3D sits at the track's world position and
+// carries its label.
+//
+// Other systems react through queries, like RobotSystem does with Pressed:
+//
+//   objects: { required: [DetectedObject] }
+//     qualify    -> a track was confirmed
+//     disqualify -> it was forgotten (entity destroyed)
+//
+//   visible: {
+//     required: [DetectedObject],
+//     where: [eq(DetectedObject, "state", DetectedObjectState.Confirmed)],
+//   }
+//     qualify    -> confirmed, or re-identified after being lost
+//     disqualify -> lost (unseen for lostAfter seconds) or forgotten
+
+import { createComponent, Types } from "@iwsdk/core";
+
+export const DetectedObjectState = {
+  Confirmed: "confirmed",
+  Lost: "lost",
+} as const;
+
+export const DetectedObject = createComponent(
+  "DetectedObject",
+  {
+    trackId: { type: Types.Int32, default: -1 },
+    classId: { type: Types.Int16, default: -1 },
+    label: { type: Types.String, default: "" },
+    score: { type: Types.Float32, default: 0 },
+    state: {
+      type: Types.Enum,
+      enum: DetectedObjectState,
+      default: DetectedObjectState.Confirmed,
+    },
+    // Filtered world pose (refSpace); orientation faces out of the surface
+    // the object was hit on (toward the camera when there was no hit)
+    position: { type: Types.Vec3, default: [0, 0, 0] },
+    orientation: { type: Types.Vec4, default: [0, 0, 0, 1] },
+    // Latest box: cx, cy, w, h in camera image UV
+    box: { type: Types.Vec4, default: [0, 0, 0, 0] },
+    surface: { type: Types.String, default: "" }, // hit backend, "" = none
+    lastSeen: { type: Types.Float64, default: 0 }, // performance.now() ms
+  },
+  "A confirmed detection track (YoloSystem)",
+);
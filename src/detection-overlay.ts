@@ -0,0 +1,263 @@
+// detection-overlay.ts
+//
+// Detections drawn on the camera panel canvas. YoloSystem publishes the
+// latest batch as globals.detectionOverlay (boxes in the camera image UV of
+// the frame they were computed on); CameraPanelSystem maps them through
+// cameraImageMapping (same letterbox as the video) and draws the enabled
+// layers. Head motion since that frame is undone per item by shifting it by
+// how far its world point moved in the image (see alignShift below).
+
+import * as THREE from "three";
+import { CameraImageMapping, imageUvToPanelUv } from "./camera-model";
+import { COCO_SKELETON } from "./pose";
+import { DetectionMask } from "./segmentation";
+import { BoxUv } from "./tracker";
+
+const MASK_ALPHA = 0.45; // mask fill, times style.opacity
+const MIN_KEYPOINT_SCORE = 0.5;
+
+export type OverlayItem = {
+  trackId: number | null;
+  confirmed: boolean; // tentative tracks are drawn dashed
+  classId: number;
+  label: string;
+  score: number;
+  box: BoxUv; // image UV of the overlay's frame
+  worldPoint: THREE.Vector3 | null; // placement, used for alignment
+  surface: string | null; // hit source of worldPoint, null = fallback depth
+  anchorUv: { u: number; v: number } | null; // worldPoint in that frame
+  mask: DetectionMask | null; // segmentation models: covers `box`
+  keypoints: { u: number; v: number; score: number }[] | null; // pose, UV
+};
+
+export type DetectionOverlay = {
+  frameId: number;
+  captureTime: number; // performance.now() ms of the source frame
+  items: OverlayItem[];
+};
+
+// masks / keypoints apply to segmentation and pose models
+export type OverlayLayer = "boxes" | "labels" | "masks" | "keypoints";
+
+export type OverlayStyle = {
+  lineWidth: number; // panel px
+  fontSize: number; // panel px
+  opacity: number; // 0..1
+  colorBy: "class" | "track";
+};
+
+export const DEFAULT_OVERLAY_STYLE: OverlayStyle = {
+  lineWidth: 3,
+  fontSize: 28,
+  opacity: 0.9,
+  colorBy: "class",
+};
+
+// Golden-angle steps: neighbouring class / track ids get distinct hues
+export function hueForKey(key: number): number {
+  return Math.round((key * 137.508) % 360);
+}
+
+export function overlayHue(item: OverlayItem, style: OverlayStyle): number {
+  return hueForKey(
+    style.colorBy === "track" && item.trackId !== null
+      ? item.trackId
+      : item.classId,
+  );
+}
+
+// Mask as a tinted canvas (one per mask + hue, reused across panel frames)
+const maskCanvases = new WeakMap<
+  DetectionMask,
+  { hue: number; canvas: HTMLCanvasElement }
+>();
+
+function maskCanvas(mask: DetectionMask, hue: number): HTMLCanvasElement {
+  const cached = maskCanvases.get(mask);
+  if (cached && cached.hue === hue) return cached.canvas;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = mask.width;
+  canvas.height = mask.height;
+  const ctx = canvas.getContext("2d")!;
+
+  const color = new THREE.Color().setHSL(hue / 360, 0.9, 0.55);
+  const img = ctx.createImageData(mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i++) {
+    if (!mask.data[i]) continue;
+    img.data[i * 4] = color.r * 255;
+    img.data[i * 4 + 1] = color.g * 255;
+    img.data[i * 4 + 2] = color.b * 255;
+    img.data[i * 4 + 3] = 255;
+  }
+  ctx.putImageData(img, 0, 0);
+
+  maskCanvases.set(mask, { hue, canvas });
+  return canvas;
+}
+
+export function overlayLabelText(item: OverlayItem): string {
+  const id = item.trackId !== null ? ` #${item.trackId}` : "";
+  return `${item.label} ${Math.round(item.score * 100)}%${id}`;
+}
+
+// Image-UV offset that moves an item from its frame to the current one:
+// where its world point projects now minus where it projected then
+export function alignShift(
+  item: OverlayItem,
+  projectNow: (p: THREE.Vector3) => { u: number; v: number } | null,
+): { du: number; dv: number } {
+  if (!item.worldPoint || !item.anchorUv) return { du: 0, dv: 0 };
+  const now = projectNow(item.worldPoint);
+  if (!now) return { du: 0, dv: 0 };
+  return { du: now.u - item.anchorUv.u, dv: now.v - item.anchorUv.v };
+}
+
+export type OverlayPick = {
+  item: OverlayItem;
+  center: { u: number; v: number }; // shifted box center, image UV
+};
+
+// Smallest (shifted) box containing image UV (u, v), or null
+export function overlayItemAt(
+  overlay: DetectionOverlay,
+  u: number,
+  v: number,
+  shift?: (item: OverlayItem) => { du: number; dv: number },
+): OverlayPick | null {
+  let best: OverlayPick | null = null;
+  let bestArea = Infinity;
+
+  for (const item of overlay.items) {
+    const { du, dv } = shift?.(item) ?? { du: 0, dv: 0 };
+    const { cx, cy, w, h } = item.box;
+    const center = { u: cx + du, v: cy + dv };
+    const inside =
+      Math.abs(u - center.u) <= w / 2 && Math.abs(v - center.v) <= h / 2;
+    if (inside && w * h < bestArea) {
+      best = { item, center };
+      bestArea = w * h;
+    }
+  }
+
+  return best;
+}
+
+// globals.panelOverlay: the overlay as CameraPanelSystem draws it
+export type PanelOverlay = {
+  layers(): Record<OverlayLayer, boolean>;
+  setLayer(layer: OverlayLayer, on: boolean): void;
+  style(): OverlayStyle;
+  itemAt(u: number, v: number): OverlayPick | null; // panel UV
+  aligned(): OverlayItem[]; // boxes moved into the frame on the panel
+};
+
+export function panelOverlay(globals: any): PanelOverlay | null {
+  return globals.panelOverlay ?? null;
+}
+
+export function drawDetectionOverlay(
+  ctx: CanvasRenderingContext2D,
+  mapping: CameraImageMapping,
+  overlay: DetectionOverlay,
+  layers: Record<OverlayLayer, boolean>,
+  style: OverlayStyle,
+  shift?: (item: OverlayItem) => { du: number; dv: number },
+  selectedTrackId: number | null = null,
+  rejectedTrackIds: ReadonlySet<number> = new Set(),
+) {
+  if (!Object.values(layers).some(Boolean)) return;
+
+  ctx.save();
+  ctx.globalAlpha = style.opacity;
+  ctx.font = `${style.fontSize}px sans-serif`;
+  ctx.textBaseline = "top";
+
+  for (const item of overlay.items) {
+    const { du, dv } = shift?.(item) ?? { du: 0, dv: 0 };
+    const { cx, cy, w, h } = item.box;
+
+    const tl = imageUvToPanelUv(mapping, cx - w / 2 + du, cy - h / 2 + dv);
+    const br = imageUvToPanelUv(mapping, cx + w / 2 + du, cy + h / 2 + dv);
+    const x = tl.u * mapping.panelW;
+    const y = tl.v * mapping.panelH;
+    const bw = (br.u - tl.u) * mapping.panelW;
+    const bh = (br.v - tl.v) * mapping.panelH;
+
+    const hue = overlayHue(item, style);
+    const color = `hsl(${hue},90%,55%)`;
+
+    if (layers.masks && item.mask) {
+      ctx.globalAlpha = style.opacity * MASK_ALPHA;
+      ctx.drawImage(maskCanvas(item.mask, hue), x, y, bw, bh);
+      ctx.globalAlpha = style.opacity;
+    }
+
+    if (layers.boxes) {
+      const selected =
+        item.trackId !== null && item.trackId === selectedTrackId;
+      const rejected =
+        item.trackId !== null && rejectedTrackIds.has(item.trackId);
+      ctx.setLineDash(item.confirmed ? [] : [10, 8]);
+      ctx.lineWidth = selected ? style.lineWidth * 2.5 : style.lineWidth;
+      ctx.strokeStyle = selected ? "white" : rejected ? "gray" : color;
+      ctx.strokeRect(x, y, bw, bh);
+
+      if (rejected) {
+        ctx.beginPath();
+        ctx.moveTo(x, y);
+        ctx.lineTo(x + bw, y + bh);
+        ctx.moveTo(x + bw, y);
+        ctx.lineTo(x, y + bh);
+        ctx.stroke();
+      }
+    }
+
+    if (layers.keypoints && item.keypoints) {
+      const toPanel = (k: { u: number; v: number }) => {
+        const p = imageUvToPanelUv(mapping, k.u + du, k.v + dv);
+        return { x: p.u * mapping.panelW, y: p.v * mapping.panelH };
+      };
+      const kps = item.keypoints;
+      const shown = (i: number) => (kps[i]?.score ?? 0) >= MIN_KEYPOINT_SCORE;
+
+      ctx.setLineDash([]);
+      ctx.lineWidth = style.lineWidth;
+      ctx.strokeStyle = color;
+      ctx.beginPath();
+      for (const [a, b] of COCO_SKELETON) {
+        if (!shown(a) || !shown(b)) continue;
+        const pa = toPanel(kps[a]);
+        const pb = toPanel(kps[b]);
+        ctx.moveTo(pa.x, pa.y);
+        ctx.lineTo(pb.x, pb.y);
+      }
+      ctx.stroke();
+
+      ctx.fillStyle = "white";
+      kps.forEach((k, i) => {
+        if (!shown(i)) return;
+        const p = toPanel(k);
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, style.lineWidth * 1.5, 0, Math.PI * 2);
+        ctx.fill();
+      });
+    }
+
+    if (layers.labels) {
+      const text = overlayLabelText(item);
+      const pad = 6;
+      const textW = ctx.measureText(text).width + pad * 2;
+      const textH = style.fontSize + pad * 2;
+      // Above the box, or inside it when the box touches the top edge
+      const ty = y - textH >= 0 ? y - textH : y;
+
+      ctx.fillStyle = color;
+      ctx.fillRect(x, ty, textW, textH);
+      ctx.fillStyle = "black";
+      ctx.fillText(text, x + pad, ty + pad);
+    }
+  }
+
+  ctx.restore();
+}
@@ -0,0 +1,376 @@
+// detection-pipeline.ts
+//
+// Owns the YOLO worker: creation, typed messages (detection-protocol.ts),
+// backpressure and crash recovery.
+//   - at most `maxInFlight` frames are in the worker; submit() drops the
+//     rest (and closes their bitmaps),
+//   - every frame carries a frameId and the viewer pose at capture; results
+//     older than the newest delivered batch are dropped as stale,
+//   - a fatal error, worker error event, or a frame/init that never
+//     answers terminates the worker and restarts it with backoff,
+//   - loadModel() switches models at runtime; a restarted worker reloads
+//     the current one. A model the worker cannot load is replaced by the
+//     last one that loaded; with none to go back to, the pipeline stops
+//     after `maxModelFailures` tries (see `error`).
+// Call update() once per frame; it drives the timeouts and restarts.
+
+import * as THREE from "three";
+import {
+  DetectorConfig,
+  FromWorkerMessage,
+  ToWorkerMessage,
+} from "./detection-protocol";
+import { ModelLoadProgress } from "./model-cache";
+import { ModelManifest } from "./model-registry";
+import { Detection } from "./yolo";
+
+export type PipelineState =
+  | "idle"
+  | "starting"
+  | "ready"
+  | "restarting"
+  | "stopped";
+
+export type DetectionPipelineOptions = {
+  maxInFlight: number;
+  frameTimeoutMs: number; // no reply for this long -> worker is hung
+  initTimeoutMs: number; // model download + session create
+  restartDelayMs: number; // first restart; doubles per consecutive crash
+  maxRestartDelayMs: number;
+  maxModelFailures: number; // load failures before giving up on a model
+};
+
+const DEFAULT_OPTIONS: DetectionPipelineOptions = {
+  maxInFlight: 1,
+  frameTimeoutMs: 5000,
+  initTimeoutMs: 60000,
+  restartDelayMs: 1000,
+  maxRestartDelayMs: 30000,
+  maxModelFailures: 3,
+};
+
+// What the caller knows about a frame when it is captured
+export type FrameMeta = {
+  captureTime: number; // performance.now() at capture
+  viewerMatrix: THREE.Matrix4 | null; // viewer pose at capture (refSpace)
+  width: number; // source frame size (px)
+  height: number;
+};
+
+export type DetectionBatch = FrameMeta & {
+  frameId: number;
+  detections: Detection[];
+  receivedTime: number;
+  inferenceMs: number;
+};
+
+type InFlight = FrameMeta & { sentTime: number };
+
+export class DetectionPipeline {
+  readonly options: DetectionPipelineOptions;
+
+  private worker: Worker | null = null;
+  private _state: PipelineState = "idle";
+  private stateSince = 0;
+  private restartAt = 0;
+  private crashes = 0;
+
+  private nextFrameId = 1;
+  private inFlight = new Map<number, InFlight>();
+  private lastDeliveredId = 0;
+  private _latest: DetectionBatch | null = null;
+  private listeners = new Set<(batch: DetectionBatch) => void>();
+  private config: DetectorConfig = { confThreshold: 0.25, iouThreshold: 0.45 };
+  private _model: ModelManifest | null = null;
+  private lastGoodModel: ModelManifest | null = null; // last one that loaded
+  private modelFailures = 0; // consecutive load failures of _model
+  private _error: string | null = null;
+  private _labels: string[] = [];
+  private _loadProgress: ModelLoadProgress | null = null;
+
+  readonly stats = {
+    sent: 0,
+    received: 0,
+    droppedBusy: 0,
+    droppedStale: 0,
+    errors: 0,
+    restarts: 0,
+  };
+
+  constructor(
+    private createWorker: () => Worker,
+    options: Partial<DetectionPipelineOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  get state(): PipelineState {
+    return this._state;
+  }
+
+  get latest(): DetectionBatch | null {
+    return this._latest;
+  }
+
+  get inFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  get model(): ModelManifest | null {
+    return this._model;
+  }
+
+  // Model download progress while loading, null once ready
+  get loadProgress(): ModelLoadProgress | null {
+    return this._loadProgress;
+  }
+
+  // Why the last model load failed (null once a model is ready)
+  get error(): string | null {
+    return this._error;
+  }
+
+  // Labels of the loaded model (empty until the worker reports ready)
+  get labels(): string[] {
+    return this._labels;
+  }
+
+  // ---------------- lifecycle ----------------
+
+  start() {
+    if (this.worker) return;
+
+    try {
+      this.worker = this.createWorker();
+    } catch (e) {
+      console.error("[DetectionPipeline] Worker creation failed", e);
+      this.crash("worker creation failed");
+      return;
+    }
+
+    this.worker.onmessage = (ev: MessageEvent) =>
+      this.handleMessage(ev.data as FromWorkerMessage);
+    this.worker.onerror = (ev: ErrorEvent) => {
+      ev.preventDefault();
+      this.crash(ev.message || "worker error");
+    };
+    this.worker.onmessageerror = () => this.crash("message error");
+
+    this.setState("starting");
+    this.post({ type: "config", ...this.config });
+    if (this._model) this.post({ type: "load-model", manifest: this._model });
+    console.log("[DetectionPipeline] Worker started");
+  }
+
+  loadModel(manifest: ModelManifest) {
+    if (manifest !== this._model) this.modelFailures = 0;
+    this._model = manifest;
+    this._labels = [];
+    if (this._state === "stopped" && this._error) {
+      this.start(); // gave up on the previous model; try this one
+      return;
+    }
+    if (!this.worker) return; // sent by start()
+
+    this.inFlight.clear();
+    this.setState("starting");
+    this.post({ type: "load-model", manifest });
+  }
+
+  stop() {
+    this.teardown();
+    this.setState("stopped");
+  }
+
+  configure(config: Partial<DetectorConfig>) {
+    this.config = { ...this.config, ...config };
+    if (this.worker) this.post({ type: "config", ...this.config });
+  }
+
+  onBatch(listener: (batch: DetectionBatch) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  update(now = performance.now()) {
+    switch (this._state) {
+      case "starting":
+        if (now - this.stateSince > this.options.initTimeoutMs) {
+          this.crash("init timed out");
+        }
+        break;
+
+      case "ready":
+        for (const f of this.inFlight.values()) {
+          if (now - f.sentTime > this.options.frameTimeoutMs) {
+            this.crash("frame timed out");
+            break;
+          }
+        }
+        break;
+
+      case "restarting":
+        if (now >= this.restartAt) {
+          this.stats.restarts++;
+          this.start();
+        }
+        break;
+    }
+  }
+
+  // ---------------- frames ----------------
+
+  canSubmit(): boolean {
+    return (
+      this._state === "ready" && this.inFlight.size < this.options.maxInFlight
+    );
+  }
+
+  // Takes ownership of the bitmap. Returns the frameId, or null if dropped.
+  submit(bitmap: ImageBitmap, meta: FrameMeta): number | null {
+    if (!this.canSubmit()) {
+      bitmap.close();
+      this.stats.droppedBusy++;
+      return null;
+    }
+
+    const frameId = this.nextFrameId++;
+    this.inFlight.set(frameId, { ...meta, sentTime: performance.now() });
+    this.post({ type: "frame", frameId, bitmap }, [bitmap]);
+    this.stats.sent++;
+    return frameId;
+  }
+
+  // ---------------- worker messages ----------------
+
+  private handleMessage(msg: FromWorkerMessage) {
+    switch (msg.type) {
+      case "progress": {
+        const { type, ...progress } = msg;
+        this._loadProgress = progress;
+        break;
+      }
+
+      case "ready":
+        console.log(
+          "[DetectionPipeline] Worker ready, model:",
+          msg.modelId,
+          "input:",
+          msg.inputName,
+          "outputs:",
+          msg.outputNames,
+        );
+        this.crashes = 0;
+        this.modelFailures = 0;
+        this.lastGoodModel = this._model;
+        this._error = null;
+        this._labels = msg.labels;
+        this._loadProgress = null;
+        this.setState("ready");
+        break;
+
+      case "error":
+        this.stats.errors++;
+        if (msg.frameId !== null) this.inFlight.delete(msg.frameId);
+        if (msg.fatal) this.modelFailed(msg.message);
+        else console.warn("[DetectionPipeline] Frame error:", msg.message);
+        break;
+
+      case "detections":
+        this.deliver(msg.frameId, msg.detections, msg.inferenceMs);
+        break;
+    }
+  }
+
+  private deliver(
+    frameId: number,
+    detections: Detection[],
+    inferenceMs: number,
+  ) {
+    const meta = this.inFlight.get(frameId);
+    this.inFlight.delete(frameId);
+
+    // Unknown id (previous worker) or overtaken by a newer frame
+    if (!meta || frameId <= this.lastDeliveredId) {
+      this.stats.droppedStale++;
+      return;
+    }
+
+    this.lastDeliveredId = frameId;
+    this.stats.received++;
+
+    const { sentTime, ...frameMeta } = meta;
+    const batch: DetectionBatch = {
+      ...frameMeta,
+      frameId,
+      detections,
+      receivedTime: performance.now(),
+      inferenceMs,
+    };
+
+    this._latest = batch;
+    for (const listener of this.listeners) listener(batch);
+  }
+
+  // ---------------- crash / restart ----------------
+
+  // The worker could not load _model (fatal errors come from loadModel)
+  private modelFailed(reason: string) {
+    const failed = this._model;
+    this._error = reason;
+    this._loadProgress = null;
+
+    const fallback = this.lastGoodModel;
+    if (fallback && failed !== fallback) {
+      console.warn(
+        `[DetectionPipeline] Model ${failed?.id} failed (${reason}); ` +
+          `back to ${fallback.id}`,
+      );
+      this.loadModel(fallback);
+      return;
+    }
+
+    if (++this.modelFailures >= this.options.maxModelFailures) {
+      console.error(
+        `[DetectionPipeline] Model ${failed?.id} failed ` +
+          `${this.modelFailures} times (${reason}); giving up`,
+      );
+      this.stop();
+      return;
+    }
+    this.crash(reason);
+  }
+
+  private crash(reason: string) {
+    if (this._state === "stopped") return;
+
+    const delay = Math.min(
+      this.options.restartDelayMs * 2 ** this.crashes,
+      this.options.maxRestartDelayMs,
+    );
+    this.crashes++;
+
+    console.warn(
+      `[DetectionPipeline] Worker crashed (${reason}); restarting in ${delay} ms`,
+    );
+
+    this.teardown();
+    this.restartAt = performance.now() + delay;
+    this.setState("restarting");
+  }
+
+  private teardown() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.inFlight.clear();
+  }
+
+  private setState(state: PipelineState) {
+    this._state = state;
+    this.stateSince = performance.now();
+  }
+
+  private post(msg: ToWorkerMessage, transfer: Transferable[] = []) {
+    this.worker?.postMessage(msg, transfer);
+  }
+}
@@ -0,0 +1,64 @@
+// detection-protocol.ts
+//
+// Messages between DetectionPipeline (main thread) and yolo-worker.ts.
+//   main -> worker: load-model (manifest), config (thresholds),
+//                   frame (ImageBitmap, transferred)
+//   worker -> main: progress (model download), ready (model loaded), error,
+//                   detections (with masks / keypoints for seg / pose models)
+// Every frame gets exactly one reply (detections or an error carrying its
+// frameId), so the pipeline can free its in-flight slot.
+
+import { ModelLoadProgress } from "./model-cache";
+import { ModelManifest, ModelTask } from "./model-registry";
+import { Detection } from "./yolo";
+
+export type DetectorConfig = {
+  confThreshold: number;
+  iouThreshold: number;
+};
+
+export type ConfigMessage = { type: "config" } & DetectorConfig;
+
+export type FrameMessage = {
+  type: "frame";
+  frameId: number;
+  bitmap: ImageBitmap;
+};
+
+export type LoadModelMessage = {
+  type: "load-model";
+  manifest: ModelManifest;
+};
+
+export type ToWorkerMessage = LoadModelMessage | ConfigMessage | FrameMessage;
+
+export type ReadyMessage = {
+  type: "ready";
+  modelId: string;
+  task: ModelTask;
+  labels: string[];
+  inputName: string;
+  outputNames: readonly string[];
+};
+
+export type ProgressMessage = { type: "progress" } & ModelLoadProgress;
+
+export type ErrorMessage = {
+  type: "error";
+  message: string;
+  frameId: number | null; // null = not tied to a frame (e.g. init)
+  fatal: boolean; // true = the worker cannot continue; restart it
+};
+
+export type DetectionsMessage = {
+  type: "detections";
+  frameId: number;
+  detections: Detection[];
+  inferenceMs: number;
+};
+
+export type FromWorkerMessage =
+  | ProgressMessage
+  | ReadyMessage
+  | ErrorMessage
+  | DetectionsMessage;
@@ -0,0 +1,23 @@
+// download.ts
+//
+// Save data from the browser as a file (anchor + object URL).
+
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+
+  // Give the browser a moment to start the download
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadJson(filename: string, data: unknown) {
+  downloadBlob(
+    filename,
+    new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }),
+  );
+}
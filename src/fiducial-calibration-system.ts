@@ -0,0 +1,402 @@
+// fiducial-calibration-system.ts
+//
+// Automatic camera -> viewer extrinsics from a printed fiducial tag.
+//   Left controller Y button toggles the wizard.
+//   1) Tag pose in the room: either restored from a persisted XRAnchor, or
+//      measured by aiming the right controller at the four tag corners
+//      (top-left, top-right, bottom-right, bottom-left) and pulling the
+//      trigger; an anchor is then created so later sessions can skip this.
+//   2) Camera frames are scanned for the tag; each sighting gives the tag
+//      pose in camera space, which together with the viewer pose yields one
+//      estimate of lensRotation / lensTranslation.
+//   3) Estimates are averaged, written to globals.cameraIntrinsics and saved
+//      as a calibration profile with the corner reprojection error.
+//
+// Print tags with drawFiducialTag() (fiducial.ts); set `tagSize` to the
+// printed black-square edge length in meters.
+//
+// Still images: globals.fiducialCalibration.detectImage(urlOrBlob), or open
+// the app with ?fiducialImage=<url>, runs the detector on a photo and logs
+// the tags found (id, corners, bit errors).
+
+import { createSystem, Types } from "@iwsdk/core";
+import * as THREE from "three";
+import { CameraIntrinsics } from "./camera-model";
+import {
+  CalibrationSample,
+  calibrationProfileKey,
+  rmsReprojectionError,
+  saveCalibrationProfile,
+} from "./calibration";
+import { ControllerHitProbe } from "./controller-hit-probe";
+import {
+  detectFiducialsInCanvas,
+  detectFiducialsInImage,
+  extrinsicsFromTagObservation,
+  solveFiducialPose,
+  tagCornerPoints,
+  tagPoseFromWorldCorners,
+} from "./fiducial";
+import { captureCameraFrame } from "./frame-source";
+import { acquirePanel, panelMode, releasePanel } from "./panel-mode";
+
+const TOGGLE_BUTTON_INDEX = 5; // Y on the left Quest controller
+const ANCHOR_STORAGE_KEY = "questcam2ar.fiducialAnchor";
+const MAX_TAG_REPROJECTION_PX = 3;
+const CORNER_NAMES = ["top-left", "top-right", "bottom-right", "bottom-left"];
+
+type WizardStep = "idle" | "corners" | "corner-hit" | "observe" | "done";
+
+type Observation = {
+  lensMat: THREE.Matrix4;
+  samples: CalibrationSample[];
+};
+
+export class FiducialCalibrationSystem extends createSystem(
+  {},
+  {
+    tagId: { type: Types.Int16, default: 0 },
+    tagSize: { type: Types.Float32, default: 0.15 }, // meters
+    observations: { type: Types.Int8, default: 12 },
+    interval: { type: Types.Float32, default: 0.25 }, // seconds between scans
+  },
+) {
+  private step: WizardStep = "idle";
+  private probe = new ControllerHitProbe();
+  private corners: THREE.Vector3[] = [];
+
+  private tagAnchor: XRAnchor | null = null;
+  private tagMatRef: THREE.Matrix4 | null = null;
+  private observations: Observation[] = [];
+  private accumTime = 0;
+
+  private prevTrigger = false;
+  private prevToggle = false;
+
+  init() {
+    (this.globals as any).fiducialCalibration = {
+      start: () => this.start(),
+      cancel: () => this.cancel(),
+      forgetTag: () => {
+        localStorage.removeItem(ANCHOR_STORAGE_KEY);
+        this.tagAnchor = null;
+      },
+      detectImage: (src: string | Blob) => this.detectStillImage(src),
+    };
+
+    const url = new URLSearchParams(location.search).get("fiducialImage");
+    if (url) this.detectStillImage(url);
+  }
+
+  private async detectStillImage(src: string | Blob) {
+    try {
+      const dets = await detectFiducialsInImage(src);
+      console.log(`[FiducialCalibration] ${dets.length} tags in still image`);
+      for (const d of dets) {
+        console.log(
+          "[FiducialCalibration] tag",
+          d.id,
+          "| bit errors:",
+          d.hamming,
+          "| corners:",
+          d.corners
+            .map((p) => `${p.x.toFixed(1)},${p.y.toFixed(1)}`)
+            .join(" "),
+        );
+      }
+      return dets;
+    } catch (e) {
+      console.error("[FiducialCalibration] Still image failed:", e);
+      return [];
+    }
+  }
+
+  private setStatus(text: string | null) {
+    (this.globals as any).panelStatus = text;
+    if (text) console.log("[FiducialCalibration]", text);
+  }
+
+  private async start() {
+    const globals = this.globals as any;
+    if (!globals.cameraIntrinsics) {
+      this.setStatus("No camera intrinsics; cannot calibrate");
+      return;
+    }
+
+    if (!acquirePanel(globals, "fiducial")) return;
+
+    this.corners = [];
+    this.observations = [];
+    this.tagMatRef = null;
+
+    if (await this.restoreTagAnchor()) {
+      this.step = "observe";
+      this.setStatus("Tag anchor restored: look at the tag and move your head");
+      return;
+    }
+
+    this.step = "corners";
+    this.promptCorner();
+  }
+
+  private cancel() {
+    const globals = this.globals as any;
+    this.probe.cancel();
+    this.step = "idle";
+    if (panelMode(globals) !== "fiducial") return;
+    releasePanel(globals, "fiducial");
+    this.setStatus(null);
+  }
+
+  private promptCorner() {
+    const name = CORNER_NAMES[this.corners.length];
+    this.setStatus(`Aim at the tag's ${name} corner and pull trigger`);
+  }
+
+  update(dt: number, time: number) {
+    const xrMgr: any = this.xrManager;
+    const session: XRSession | null = xrMgr.getSession?.() ?? null;
+    const frame = this.xrFrame as XRFrame | null;
+    const refSpace: XRReferenceSpace | null =
+      xrMgr.getReferenceSpace?.() ?? null;
+
+    if (!session || !frame || !refSpace) return;
+
+    let rightController: XRInputSource | null = null;
+    let toggle = false;
+    for (const inputSource of session.inputSources) {
+      if (inputSource.targetRayMode !== "tracked-pointer") continue;
+      const buttons = inputSource.gamepad?.buttons;
+      if (inputSource.handedness === "left") {
+        toggle = !!buttons?.[TOGGLE_BUTTON_INDEX]?.pressed;
+      } else {
+        rightController = inputSource;
+      }
+    }
+
+    if (toggle && !this.prevToggle) {
+      if (this.step === "idle" || this.step === "done") this.start();
+      else this.cancel();
+    }
+    this.prevToggle = toggle;
+
+    const trigger = !!rightController?.gamepad?.buttons?.[0]?.pressed;
+    const triggerDown = trigger && !this.prevTrigger;
+    this.prevTrigger = trigger;
+
+    switch (this.step) {
+      case "corners":
+        if (triggerDown && rightController && !this.probe.busy) {
+          this.step = "corner-hit";
+          this.probe.start(session, rightController).then((ok) => {
+            if (!ok && this.step === "corner-hit") {
+              this.step = "corners";
+              this.setStatus("Controller hit-test unavailable; aim again");
+            }
+          });
+        }
+        break;
+
+      case "corner-hit":
+        this.pollCorner(frame, refSpace, dt);
+        break;
+
+      case "observe":
+        this.accumTime += dt;
+        if (this.accumTime >= this.config.interval.peek()) {
+          this.accumTime = 0;
+          this.observe(frame, refSpace);
+        }
+        break;
+    }
+  }
+
+  // ---------------- tag pose in the room ----------------
+
+  private pollCorner(frame: XRFrame, refSpace: XRReferenceSpace, dt: number) {
+    const result = this.probe.poll(frame, refSpace, dt);
+    if (result.status === "pending" || result.status === "idle") return;
+
+    if (result.status === "miss") {
+      this.step = "corners";
+      this.setStatus("No surface under the controller ray; aim again");
+      return;
+    }
+
+    this.corners.push(result.point);
+    if (this.corners.length < 4) {
+      this.step = "corners";
+      this.promptCorner();
+      return;
+    }
+
+    this.tagMatRef = tagPoseFromWorldCorners(this.corners);
+    this.createTagAnchor(frame, refSpace, this.tagMatRef);
+
+    this.step = "observe";
+    this.setStatus("Tag located: look at the tag and move your head");
+  }
+
+  private async createTagAnchor(
+    frame: XRFrame,
+    refSpace: XRReferenceSpace,
+    tagMat: THREE.Matrix4,
+  ) {
+    if (!frame.createAnchor) return;
+
+    const pos = new THREE.Vector3();
+    const rot = new THREE.Quaternion();
+    tagMat.decompose(pos, rot, new THREE.Vector3());
+
+    try {
+      const anchor = await frame.createAnchor(
+        new XRRigidTransform(
+          { x: pos.x, y: pos.y, z: pos.z },
+          { x: rot.x, y: rot.y, z: rot.z, w: rot.w },
+        ),
+        refSpace,
+      );
+      if (!anchor) return;
+      this.tagAnchor = anchor;
+
+      const uuid = await (anchor as any).requestPersistentHandle?.();
+      if (uuid) localStorage.setItem(ANCHOR_STORAGE_KEY, uuid);
+    } catch (e) {
+      // Persistence unsupported: the measured pose still works this session
+      console.warn("[FiducialCalibration] Tag anchor not persisted", e);
+    }
+  }
+
+  private async restoreTagAnchor(): Promise<boolean> {
+    if (this.tagAnchor) return true;
+
+    const uuid = localStorage.getItem(ANCHOR_STORAGE_KEY);
+    const session: any = (this.xrManager as any).getSession?.();
+    if (!uuid || !session?.restorePersistentAnchor) return false;
+
+    try {
+      this.tagAnchor = await session.restorePersistentAnchor(uuid);
+      return !!this.tagAnchor;
+    } catch (e) {
+      localStorage.removeItem(ANCHOR_STORAGE_KEY);
+      return false;
+    }
+  }
+
+  private currentTagMat(
+    frame: XRFrame,
+    refSpace: XRReferenceSpace,
+  ): THREE.Matrix4 | null {
+    if (this.tagAnchor) {
+      const pose = frame.getPose(this.tagAnchor.anchorSpace, refSpace);
+      if (pose) return new THREE.Matrix4().fromArray(pose.transform.matrix);
+    }
+    return this.tagMatRef;
+  }
+
+  // ---------------- camera observations ----------------
+
+  private observe(frame: XRFrame, refSpace: XRReferenceSpace) {
+    const globals = this.globals as any;
+    const intr: CameraIntrinsics | null = globals.cameraIntrinsics ?? null;
+    const tagMatRef = this.currentTagMat(frame, refSpace);
+    const viewerPose = frame.getViewerPose(refSpace);
+    if (!intr || !tagMatRef || !viewerPose) return;
+
+    const frameCanvas = captureCameraFrame(globals);
+    if (!frameCanvas) return;
+
+    const tagId = this.config.tagId.peek();
+    const det = detectFiducialsInCanvas(frameCanvas, 640, { ids: [tagId] })[0];
+    if (!det) return;
+
+    // Corner pixels in intrinsics coordinates
+    const sx = intr.width / frameCanvas.width;
+    const sy = intr.height / frameCanvas.height;
+    const corners = det.corners.map((c) => ({ x: c.x * sx, y: c.y * sy }));
+
+    const sizeM = this.config.tagSize.peek();
+    const pose = solveFiducialPose(intr, corners, sizeM);
+    if (!pose || pose.reprojectionErrorPx > MAX_TAG_REPROJECTION_PX) return;
+
+    // Viewer pose at exposure time if PoseSyncSystem is tracking history
+    const latencyMs: number = globals.cameraLatencyMs ?? 0;
+    const viewerMat =
+      globals.poseHistory?.sampleMatrix(performance.now() - latencyMs) ??
+      new THREE.Matrix4().fromArray(viewerPose.transform.matrix);
+    const lensMat = extrinsicsFromTagObservation(viewerMat, tagMatRef, pose);
+
+    const viewerMatrix: number[] = viewerMat.toArray();
+    const samples = tagCornerPoints(sizeM).map((p, i) => {
+      const w = p.applyMatrix4(tagMatRef);
+      return {
+        point: { x: w.x, y: w.y, z: w.z },
+        viewerMatrix,
+        pixel: corners[i],
+      };
+    });
+
+    this.observations.push({ lensMat, samples });
+
+    const total = this.config.observations.peek();
+    this.setStatus(`Tag sightings: ${this.observations.length}/${total}`);
+
+    if (this.observations.length >= total) this.finish(intr);
+  }
+
+  private finish(base: CameraIntrinsics) {
+    const globals = this.globals as any;
+
+    // Average translations and (hemisphere-aligned) quaternions
+    const tSum = new THREE.Vector3();
+    const qSum = new THREE.Vector4();
+    let qRef: THREE.Quaternion | null = null;
+
+    for (const obs of this.observations) {
+      const t = new THREE.Vector3();
+      const q = new THREE.Quaternion();
+      obs.lensMat.decompose(t, q, new THREE.Vector3());
+      tSum.add(t);
+
+      if (!qRef) qRef = q.clone();
+      const sign = qRef.dot(q) < 0 ? -1 : 1;
+      qSum.x += sign * q.x;
+      qSum.y += sign * q.y;
+      qSum.z += sign * q.z;
+      qSum.w += sign * q.w;
+    }
+
+    const n = this.observations.length;
+    tSum.divideScalar(n);
+    const q = new THREE.Quaternion(qSum.x, qSum.y, qSum.z, qSum.w).normalize();
+
+    const intrinsics: CameraIntrinsics = {
+      ...base,
+      lensRotation: { x: q.x, y: q.y, z: q.z, w: q.w },
+      lensTranslation: { x: tSum.x, y: tSum.y, z: tSum.z },
+    };
+
+    const samples = this.observations.flatMap((o) => o.samples);
+    const residualPx = rmsReprojectionError(intrinsics, samples);
+    const initialResidualPx = rmsReprojectionError(base, samples);
+
+    const profile = {
+      key: calibrationProfileKey(base),
+      createdAt: new Date().toISOString(),
+      sampleCount: samples.length,
+      residualPx,
+      intrinsics,
+    };
+
+    saveCalibrationProfile(profile);
+    globals.cameraIntrinsics = intrinsics;
+    globals.calibrationProfile = profile;
+    releasePanel(globals, "fiducial");
+
+    this.step = "done";
+    this.setStatus(
+      `Tag calibration: residual ${residualPx.toFixed(1)} px ` +
+        `(was ${initialResidualPx.toFixed(1)} px)`,
+    );
+  }
+}
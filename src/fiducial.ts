@@ -0,0 +1,731 @@
+// fiducial.ts
+//
+// Pure-TS square fiducial detection + pose, no DOM required:
+//   RGBA image -> grayscale -> adaptive threshold -> dark connected
+//   components -> quad corners -> bit grid decode -> dictionary match ->
+//   homography pose (undistorted via the camera model) -> LM refinement.
+//
+// Tags are ArUco-style: a black border one cell wide around a 4x4 bit grid
+// (white = 1), inside a white quiet zone. The dictionary is generated
+// deterministically below; print tags with drawFiducialTag().
+
+import * as THREE from "three";
+import {
+  CameraIntrinsics,
+  projectCameraPoint,
+  undistortNormalized,
+} from "./camera-model";
+import { levenbergMarquardt, solveLinear } from "./linalg";
+
+const TAG_BITS = 4;
+const TAG_CELLS = TAG_BITS + 2; // bits + black border
+const DICTIONARY_SIZE = 50;
+const DICTIONARY_MIN_DISTANCE = 4; // hamming, over all rotations
+const DICTIONARY_SEED = 0x2f6b;
+
+const THRESHOLD_C = 7; // pixel must be this much darker than its window mean
+const MIN_CONTRAST = 30; // gray levels between darkest and brightest cell
+const MIN_SIDE_PX = 12;
+const MAX_BORDER_ERRORS = 1;
+const MAX_BIT_ERRORS = 1;
+
+export type ImageLike = {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Uint8Array; // RGBA
+};
+
+export type GrayImage = {
+  width: number;
+  height: number;
+  data: Uint8Array;
+};
+
+export type Point2 = { x: number; y: number };
+
+export type FiducialDetection = {
+  id: number;
+  // Image-pixel corners in tag order: top-left, top-right, bottom-right,
+  // bottom-left (as printed)
+  corners: [Point2, Point2, Point2, Point2];
+  hamming: number;
+};
+
+export type FiducialPose = {
+  // Tag -> camera transform. Tag frame: origin at the tag center, +X right,
+  // +Y down (as printed), +Z into the tag; same axes as camera space when
+  // the tag faces the camera upright.
+  rotation: THREE.Quaternion;
+  translation: THREE.Vector3;
+  reprojectionErrorPx: number;
+};
+
+export type DetectOptions = {
+  ids?: number[]; // only report these ids
+  windowSize?: number; // adaptive threshold window (odd, px)
+};
+
+// ---------------- dictionary ----------------
+
+// Rotate a TAG_BITS x TAG_BITS row-major bit grid 90° clockwise
+function rotateCode(code: number): number {
+  let out = 0;
+  for (let r = 0; r < TAG_BITS; r++) {
+    for (let c = 0; c < TAG_BITS; c++) {
+      const bit = (code >> (r * TAG_BITS + c)) & 1;
+      // (r, c) -> (c, TAG_BITS - 1 - r)
+      const nr = c;
+      const nc = TAG_BITS - 1 - r;
+      out |= bit << (nr * TAG_BITS + nc);
+    }
+  }
+  return out;
+}
+
+function rotations(code: number): number[] {
+  const out = [code];
+  for (let i = 1; i < 4; i++) out.push(rotateCode(out[i - 1]));
+  return out;
+}
+
+function hamming(a: number, b: number): number {
+  let x = a ^ b;
+  let n = 0;
+  while (x) {
+    x &= x - 1;
+    n++;
+  }
+  return n;
+}
+
+let dictionary: number[] | null = null;
+
+// Greedy pick over a fixed pseudo-random order of all 16-bit codes, so the
+// id -> code table is identical on every device.
+export function getFiducialDictionary(): number[] {
+  if (dictionary) return dictionary;
+
+  const total = 1 << (TAG_BITS * TAG_BITS);
+  const order = Array.from({ length: total }, (_, i) => i);
+  let seed = DICTIONARY_SEED;
+  for (let i = total - 1; i > 0; i--) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    const j = seed % (i + 1);
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  const codes: number[] = [];
+  for (const code of order) {
+    if (codes.length >= DICTIONARY_SIZE) break;
+
+    const rots = rotations(code);
+    // Must not look like itself when rotated (orientation is unambiguous)
+    if (rots.slice(1).some((r) => hamming(code, r) < DICTIONARY_MIN_DISTANCE)) {
+      continue;
+    }
+    if (
+      codes.some((c) =>
+        rots.some((r) => hamming(c, r) < DICTIONARY_MIN_DISTANCE),
+      )
+    ) {
+      continue;
+    }
+    codes.push(code);
+  }
+
+  dictionary = codes;
+  return codes;
+}
+
+// Draw a printable tag (quiet zone included) into a 2D context
+export function drawFiducialTag(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  id: number,
+  sizePx: number,
+) {
+  const code = getFiducialDictionary()[id];
+  if (code === undefined) throw new Error(`Unknown fiducial id ${id}`);
+
+  const total = TAG_CELLS + 2; // one white cell of quiet zone on each side
+  const cell = sizePx / total;
+
+  ctx.fillStyle = "white";
+  ctx.fillRect(0, 0, sizePx, sizePx);
+  ctx.fillStyle = "black";
+  ctx.fillRect(cell, cell, cell * TAG_CELLS, cell * TAG_CELLS);
+
+  ctx.fillStyle = "white";
+  for (let r = 0; r < TAG_BITS; r++) {
+    for (let c = 0; c < TAG_BITS; c++) {
+      if ((code >> (r * TAG_BITS + c)) & 1) {
+        ctx.fillRect((c + 2) * cell, (r + 2) * cell, cell, cell);
+      }
+    }
+  }
+}
+
+// ---------------- image preprocessing ----------------
+
+export function toGray(img: ImageLike): GrayImage {
+  const { width, height, data } = img;
+  const out = new Uint8Array(width * height);
+  for (let i = 0, p = 0; p < out.length; i += 4, p++) {
+    out[p] = (data[i] * 77 + data[i + 1] * 150 + data[i + 2] * 29) >> 8;
+  }
+  return { width, height, data: out };
+}
+
+// 1 = dark (darker than local mean - C), via an integral image
+function adaptiveThreshold(gray: GrayImage, windowSize: number): Uint8Array {
+  const { width: w, height: h, data } = gray;
+  const integral = new Float64Array((w + 1) * (h + 1));
+
+  for (let y = 0; y < h; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < w; x++) {
+      rowSum += data[y * w + x];
+      integral[(y + 1) * (w + 1) + (x + 1)] =
+        integral[y * (w + 1) + (x + 1)] + rowSum;
+    }
+  }
+
+  const half = windowSize >> 1;
+  const out = new Uint8Array(w * h);
+  for (let y = 0; y < h; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(h, y + half + 1);
+    for (let x = 0; x < w; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(w, x + half + 1);
+      const sum =
+        integral[y1 * (w + 1) + x1] -
+        integral[y0 * (w + 1) + x1] -
+        integral[y1 * (w + 1) + x0] +
+        integral[y0 * (w + 1) + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+      out[y * w + x] = data[y * w + x] < mean - THRESHOLD_C ? 1 : 0;
+    }
+  }
+  return out;
+}
+
+type Component = {
+  area: number;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+  boundary: Point2[];
+};
+
+// 4-connected components of dark pixels, with their boundary pixels
+function darkComponents(bin: Uint8Array, w: number, h: number): Component[] {
+  const labels = new Int32Array(w * h).fill(-1);
+  const comps: Component[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < bin.length; start++) {
+    if (!bin[start] || labels[start] !== -1) continue;
+
+    const id = comps.length;
+    const comp: Component = {
+      area: 0,
+      minX: w,
+      minY: h,
+      maxX: 0,
+      maxY: 0,
+      boundary: [],
+    };
+    comps.push(comp);
+
+    labels[start] = id;
+    stack.push(start);
+
+    while (stack.length) {
+      const p = stack.pop()!;
+      const x = p % w;
+      const y = (p - x) / w;
+
+      comp.area++;
+      if (x < comp.minX) comp.minX = x;
+      if (x > comp.maxX) comp.maxX = x;
+      if (y < comp.minY) comp.minY = y;
+      if (y > comp.maxY) comp.maxY = y;
+
+      let isBoundary = false;
+      const neighbors = [
+        x > 0 ? p - 1 : -1,
+        x < w - 1 ? p + 1 : -1,
+        y > 0 ? p - w : -1,
+        y < h - 1 ? p + w : -1,
+      ];
+      for (const q of neighbors) {
+        if (q < 0 || !bin[q]) {
+          isBoundary = true;
+          continue;
+        }
+        if (labels[q] === -1) {
+          labels[q] = id;
+          stack.push(q);
+        }
+      }
+      if (isBoundary) comp.boundary.push({ x, y });
+    }
+  }
+
+  return comps;
+}
+
+// ---------------- quad fitting ----------------
+
+function cross(o: Point2, a: Point2, b: Point2): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+function dist(a: Point2, b: Point2): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function quadArea(q: Point2[]): number {
+  let s = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = q[i];
+    const b = q[(i + 1) % 4];
+    s += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(s) / 2;
+}
+
+// Four extreme boundary points: farthest from centroid, farthest from that,
+// then farthest on each side of the resulting diagonal.
+function fitQuad(comp: Component): Point2[] | null {
+  const pts = comp.boundary;
+  if (pts.length < 16) return null;
+
+  let cx = 0;
+  let cy = 0;
+  for (const p of pts) {
+    cx += p.x;
+    cy += p.y;
+  }
+  const c = { x: cx / pts.length, y: cy / pts.length };
+
+  let p0 = pts[0];
+  for (const p of pts) if (dist(p, c) > dist(p0, c)) p0 = p;
+  let p2 = pts[0];
+  for (const p of pts) if (dist(p, p0) > dist(p2, p0)) p2 = p;
+
+  let p1: Point2 | null = null;
+  let p3: Point2 | null = null;
+  let best1 = 0;
+  let best3 = 0;
+  for (const p of pts) {
+    const s = cross(p0, p2, p);
+    if (s > best1) {
+      best1 = s;
+      p1 = p;
+    } else if (-s > best3) {
+      best3 = -s;
+      p3 = p;
+    }
+  }
+  if (!p1 || !p3) return null;
+
+  // Clockwise on screen (y down): p0 -> p1 -> p2 -> p3
+  let quad = [p0, p1, p2, p3];
+  if (cross(quad[0], quad[1], quad[2]) < 0) quad = [p0, p3, p2, p1];
+
+  // Pixel centers -> pixel-corner coordinates, pushed half a pixel outward
+  return quad.map((p) => {
+    const dx = p.x - c.x;
+    const dy = p.y - c.y;
+    const len = Math.hypot(dx, dy) || 1;
+    return {
+      x: p.x + 0.5 + (0.5 * dx) / len,
+      y: p.y + 0.5 + (0.5 * dy) / len,
+    };
+  });
+}
+
+function isPlausibleQuad(quad: Point2[], comp: Component): boolean {
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    const c = quad[(i + 2) % 4];
+    if (dist(a, b) < MIN_SIDE_PX) return false;
+    if (cross(a, b, c) <= 0) return false; // not convex
+  }
+
+  const sides = quad.map((q, i) => dist(q, quad[(i + 1) % 4]));
+  if (Math.max(...sides) > 4 * Math.min(...sides)) return false;
+
+  // Border + dark bits cover roughly 55-100% of the tag area
+  const fill = comp.area / quadArea(quad);
+  return fill > 0.4 && fill < 1.2;
+}
+
+// ---------------- homography ----------------
+
+// 3x3 row-major H with H * [src, 1] ~ [dst, 1]
+export function homographyFromPoints(
+  src: Point2[],
+  dst: Point2[],
+): number[] | null {
+  const A: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    A.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    A.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+  const h = solveLinear(A, b);
+  return h ? [...h, 1] : null;
+}
+
+export function applyHomography(H: number[], x: number, y: number): Point2 {
+  const w = H[6] * x + H[7] * y + H[8];
+  return {
+    x: (H[0] * x + H[1] * y + H[2]) / w,
+    y: (H[3] * x + H[4] * y + H[5]) / w,
+  };
+}
+
+// ---------------- decoding ----------------
+
+function sampleGray(gray: GrayImage, x: number, y: number): number {
+  const xi = Math.min(gray.width - 1, Math.max(0, Math.round(x)));
+  const yi = Math.min(gray.height - 1, Math.max(0, Math.round(y)));
+  return gray.data[yi * gray.width + xi];
+}
+
+function decodeQuad(
+  gray: GrayImage,
+  quad: Point2[],
+  ids: number[] | undefined,
+): FiducialDetection | null {
+  const unit = [
+    { x: 0, y: 0 },
+    { x: 1, y: 0 },
+    { x: 1, y: 1 },
+    { x: 0, y: 1 },
+  ];
+  const H = homographyFromPoints(unit, quad);
+  if (!H) return null;
+
+  // Mean gray per cell over a 3x3 sub-grid around the cell center
+  const cells: number[] = [];
+  for (let r = 0; r < TAG_CELLS; r++) {
+    for (let c = 0; c < TAG_CELLS; c++) {
+      let sum = 0;
+      for (let sy = -1; sy <= 1; sy++) {
+        for (let sx = -1; sx <= 1; sx++) {
+          const p = applyHomography(
+            H,
+            (c + 0.5 + sx * 0.2) / TAG_CELLS,
+            (r + 0.5 + sy * 0.2) / TAG_CELLS,
+          );
+          sum += sampleGray(gray, p.x, p.y);
+        }
+      }
+      cells.push(sum / 9);
+    }
+  }
+
+  const lo = Math.min(...cells);
+  const hi = Math.max(...cells);
+  if (hi - lo < MIN_CONTRAST) return null;
+  const thr = (lo + hi) / 2;
+
+  let borderErrors = 0;
+  let code = 0;
+  for (let r = 0; r < TAG_CELLS; r++) {
+    for (let c = 0; c < TAG_CELLS; c++) {
+      const white = cells[r * TAG_CELLS + c] > thr;
+      const isBorder =
+        r === 0 || c === 0 || r === TAG_CELLS - 1 || c === TAG_CELLS - 1;
+      if (isBorder) {
+        if (white) borderErrors++;
+      } else if (white) {
+        code |= 1 << ((r - 1) * TAG_BITS + (c - 1));
+      }
+    }
+  }
+  if (borderErrors > MAX_BORDER_ERRORS) return null;
+
+  // observed = rotate^k(dictionary code) => printed top-left is quad[k]
+  const dict = getFiducialDictionary();
+  let best: { id: number; rot: number; d: number } | null = null;
+  for (let id = 0; id < dict.length; id++) {
+    if (ids && !ids.includes(id)) continue;
+    const rots = rotations(dict[id]);
+    for (let k = 0; k < 4; k++) {
+      const d = hamming(code, rots[k]);
+      if (d <= MAX_BIT_ERRORS && (!best || d < best.d)) {
+        best = { id, rot: k, d };
+      }
+    }
+  }
+  if (!best) return null;
+
+  const k = best.rot;
+  const corners = [0, 1, 2, 3].map((i) => quad[(i + k) % 4]) as [
+    Point2,
+    Point2,
+    Point2,
+    Point2,
+  ];
+
+  return { id: best.id, corners, hamming: best.d };
+}
+
+// ---------------- detection ----------------
+
+export function detectFiducials(
+  img: ImageLike,
+  opts: DetectOptions = {},
+): FiducialDetection[] {
+  const gray = toGray(img);
+  const windowSize =
+    opts.windowSize ?? (Math.max(15, Math.round(img.width / 25)) | 1);
+
+  const bin = adaptiveThreshold(gray, windowSize);
+  const comps = darkComponents(bin, img.width, img.height);
+
+  const minArea = MIN_SIDE_PX * MIN_SIDE_PX * 0.5;
+  const maxArea = img.width * img.height * 0.5;
+
+  const found = new Map<number, FiducialDetection>();
+  for (const comp of comps) {
+    if (comp.area < minArea || comp.area > maxArea) continue;
+
+    const quad = fitQuad(comp);
+    if (!quad || !isPlausibleQuad(quad, comp)) continue;
+
+    const det = decodeQuad(gray, quad, opts.ids);
+    if (!det) continue;
+
+    // Keep the cleanest decode per id
+    const prev = found.get(det.id);
+    if (!prev || det.hamming < prev.hamming) found.set(det.id, det);
+  }
+
+  return [...found.values()];
+}
+
+// Browser helper: detect on a (downscaled) copy of a camera frame canvas and
+// return corners in full-resolution pixels.
+export function detectFiducialsInCanvas(
+  frameCanvas: HTMLCanvasElement,
+  maxWidth = 640,
+  opts: DetectOptions = {},
+): FiducialDetection[] {
+  const scale = Math.min(1, maxWidth / frameCanvas.width);
+  const w = Math.round(frameCanvas.width * scale);
+  const h = Math.round(frameCanvas.height * scale);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return [];
+
+  ctx.drawImage(frameCanvas, 0, 0, w, h);
+  const dets = detectFiducials(ctx.getImageData(0, 0, w, h), opts);
+
+  return dets.map((d) => ({
+    ...d,
+    corners: d.corners.map((p) => ({ x: p.x / scale, y: p.y / scale })) as [
+      Point2,
+      Point2,
+      Point2,
+      Point2,
+    ],
+  }));
+}
+
+// Browser helper for still images (photos of printed tags, saved frames):
+// decodes a URL or Blob and detects like on a camera frame.
+export async function detectFiducialsInImage(
+  src: string | Blob,
+  maxWidth = 640,
+  opts: DetectOptions = {},
+): Promise<FiducialDetection[]> {
+  let blob = src as Blob;
+  if (typeof src === "string") {
+    const res = await fetch(src);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    blob = await res.blob();
+  }
+  const bitmap = await createImageBitmap(blob);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return detectFiducialsInCanvas(canvas, maxWidth, opts);
+}
+
+// ---------------- pose ----------------
+
+export function tagCornerPoints(sizeM: number): THREE.Vector3[] {
+  const s = sizeM / 2;
+  return [
+    new THREE.Vector3(-s, -s, 0),
+    new THREE.Vector3(s, -s, 0),
+    new THREE.Vector3(s, s, 0),
+    new THREE.Vector3(-s, s, 0),
+  ];
+}
+
+function poseResiduals(
+  intr: CameraIntrinsics,
+  corners: Point2[],
+  objPts: THREE.Vector3[],
+  p: number[],
+): number[] {
+  const w = new THREE.Vector3(p[0], p[1], p[2]);
+  const angle = w.length();
+  const q =
+    angle > 1e-12
+      ? new THREE.Quaternion().setFromAxisAngle(w.normalize(), angle)
+      : new THREE.Quaternion();
+  const t = new THREE.Vector3(p[3], p[4], p[5]);
+
+  const out: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const pc = objPts[i].clone().applyQuaternion(q).add(t);
+    const proj = projectCameraPoint(intr, pc);
+    if (!proj) {
+      out.push(intr.width, intr.height);
+      continue;
+    }
+    out.push(proj.x - corners[i].x, proj.y - corners[i].y);
+  }
+  return out;
+}
+
+// Tag pose in camera space from its four pixel corners
+export function solveFiducialPose(
+  intr: CameraIntrinsics,
+  corners: Point2[],
+  sizeM: number,
+): FiducialPose | null {
+  const objPts = tagCornerPoints(sizeM);
+
+  // Homography tag plane (meters) -> undistorted normalized image coords
+  const norm = corners.map((c) =>
+    undistortNormalized(intr, (c.x - intr.cx) / intr.fx, (c.y - intr.cy) / intr.fy),
+  );
+  const H = homographyFromPoints(
+    objPts.map((p) => ({ x: p.x, y: p.y })),
+    norm,
+  );
+  if (!H) return null;
+
+  const h1 = new THREE.Vector3(H[0], H[3], H[6]);
+  const h2 = new THREE.Vector3(H[1], H[4], H[7]);
+  const h3 = new THREE.Vector3(H[2], H[5], H[8]);
+
+  let lambda = 2 / (h1.length() + h2.length());
+  if (h3.z * lambda < 0) lambda = -lambda; // tag must be in front
+
+  const r1 = h1.multiplyScalar(lambda).normalize();
+  const r2 = h2.multiplyScalar(lambda);
+  r2.addScaledVector(r1, -r1.dot(r2)).normalize();
+  const r3 = new THREE.Vector3().crossVectors(r1, r2);
+
+  const rot = new THREE.Quaternion().setFromRotationMatrix(
+    new THREE.Matrix4().makeBasis(r1, r2, r3),
+  );
+  const t = h3.multiplyScalar(lambda);
+
+  // Refine with distortion-aware reprojection error
+  const angle = 2 * Math.acos(THREE.MathUtils.clamp(rot.w, -1, 1));
+  const s = Math.sqrt(Math.max(0, 1 - rot.w * rot.w));
+  const axis =
+    s > 1e-9
+      ? new THREE.Vector3(rot.x / s, rot.y / s, rot.z / s)
+      : new THREE.Vector3(1, 0, 0);
+  const p0 = [
+    axis.x * angle,
+    axis.y * angle,
+    axis.z * angle,
+    t.x,
+    t.y,
+    t.z,
+  ];
+
+  const p = levenbergMarquardt(
+    (params) => poseResiduals(intr, corners, objPts, params),
+    p0,
+    [1e-6, 1e-6, 1e-6, 1e-6, 1e-6, 1e-6],
+    20,
+  );
+
+  const w = new THREE.Vector3(p[0], p[1], p[2]);
+  const a = w.length();
+  const rotation =
+    a > 1e-12
+      ? new THREE.Quaternion().setFromAxisAngle(w.normalize(), a)
+      : new THREE.Quaternion();
+
+  const r = poseResiduals(intr, corners, objPts, p);
+  let sq = 0;
+  for (const x of r) sq += x * x;
+
+  return {
+    rotation,
+    translation: new THREE.Vector3(p[3], p[4], p[5]),
+    reprojectionErrorPx: Math.sqrt(sq / 4),
+  };
+}
+
+// Tag frame in refSpace from its four corners measured in the room
+// (top-left, top-right, bottom-right, bottom-left as printed)
+export function tagPoseFromWorldCorners(corners: THREE.Vector3[]): THREE.Matrix4 {
+  const [tl, tr, br, bl] = corners;
+
+  const x = new THREE.Vector3()
+    .subVectors(tr, tl)
+    .add(new THREE.Vector3().subVectors(br, bl))
+    .normalize();
+  const yRaw = new THREE.Vector3()
+    .subVectors(bl, tl)
+    .add(new THREE.Vector3().subVectors(br, tr));
+  const y = yRaw.addScaledVector(x, -x.dot(yRaw)).normalize();
+  const z = new THREE.Vector3().crossVectors(x, y);
+
+  const origin = new THREE.Vector3()
+    .add(tl)
+    .add(tr)
+    .add(br)
+    .add(bl)
+    .multiplyScalar(0.25);
+
+  return new THREE.Matrix4().makeBasis(x, y, z).setPosition(origin);
+}
+
+// Camera pose relative to the viewer (the lensRotation / lensTranslation
+// extrinsics) from one observation:
+//   viewer->cam = inv(ref->viewer) * (ref->tag) * inv(cam->tag)
+export function extrinsicsFromTagObservation(
+  viewerMat: THREE.Matrix4,
+  tagMatRef: THREE.Matrix4,
+  tagPoseCam: FiducialPose,
+): THREE.Matrix4 {
+  const tagMatCam = new THREE.Matrix4().compose(
+    tagPoseCam.translation,
+    tagPoseCam.rotation,
+    new THREE.Vector3(1, 1, 1),
+  );
+
+  return new THREE.Matrix4()
+    .copy(viewerMat)
+    .invert()
+    .multiply(tagMatRef)
+    .multiply(tagMatCam.invert());
+}
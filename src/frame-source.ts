@@ -0,0 +1,71 @@
+// frame-source.ts
+//
+// Where camera frames come from. By default the XR camera entity
+// (CameraUtils.captureFrame); a replay or a synthetic camera can take over by
+// setting globals.frameSource. Systems that read camera pixels go through
+// captureCameraFrame() instead of calling CameraUtils directly.
+//
+// CameraPanelSystem grabs one frame per new video frame and publishes it as
+// globals.cameraFrame (CameraFrame): systems that must see the same pixels
+// and capture time as the panel read that instead of grabbing their own.
+
+import { CameraSource, CameraUtils } from "@iwsdk/core";
+
+export interface FrameSource {
+  readonly name: string;
+  capture(): HTMLCanvasElement | null;
+}
+
+export type CameraFrame = {
+  canvas: HTMLCanvasElement;
+  frameId: number; // increments with every new frame
+  captureTime: number; // performance.now() ms the frame was captured
+};
+
+export function captureCameraFrame(globals: any): HTMLCanvasElement | null {
+  const source: FrameSource | null = globals.frameSource ?? null;
+  if (source) return source.capture();
+
+  const cameraEntity = globals.cameraEntity;
+  if (!cameraEntity) return null;
+  return CameraUtils.captureFrame?.(cameraEntity) ?? null;
+}
+
+// The XR camera's <video>, or null while a frame source has taken over
+export function cameraVideoElement(globals: any): HTMLVideoElement | null {
+  if (globals.frameSource) return null;
+  const video = globals.cameraEntity?.getValue(CameraSource, "videoElement");
+  return (video as HTMLVideoElement | null) ?? null;
+}
+
+// Counts new video frames with requestVideoFrameCallback and remembers when
+// the latest one was captured (metadata.captureTime where the browser has
+// it, else when it was handed to the compositor).
+export class VideoFrameClock {
+  private video: HTMLVideoElement | null = null;
+  private count = 0;
+  private time = 0;
+
+  static supported(video: HTMLVideoElement): boolean {
+    return typeof video.requestVideoFrameCallback === "function";
+  }
+
+  attach(video: HTMLVideoElement) {
+    if (video === this.video) return;
+    this.video = video;
+    this.count = 0;
+
+    const onFrame: VideoFrameRequestCallback = (now, metadata) => {
+      if (this.video !== video) return; // replaced
+      this.count++;
+      this.time = metadata.captureTime ?? metadata.presentationTime ?? now;
+      video.requestVideoFrameCallback(onFrame);
+    };
+    video.requestVideoFrameCallback(onFrame);
+  }
+
+  // Frames seen so far (0 = none yet) and the capture time of the last one
+  latest(): { count: number; time: number } {
+    return { count: this.count, time: this.time };
+  }
+}
@@ -0,0 +1,126 @@
+// hit-backend-system.ts
+//
+// Owns globals.hitBackends (HitBackendRegistry):
+//   - SceneGeometryHitBackend over the XRPlane / XRMesh entities created by
+//     SceneUnderstandingSystem (synchronous, preferred when present),
+//   - DepthHitBackend over the depth-sensing buffer (synchronous; wins when
+//     it sees a surface clearly in front of the scene geometry),
+//   - XRHitTestBackend (async WebXR hit-test, fallback).
+// Refreshes the registry's per-frame HitContext so consumers can call
+// raycastSync() / raycast() from their own update().
+//
+// Register before any system that casts rays (TapHitDebugSystem, ...).
+
+import { createSystem, Types, XRMesh, XRPlane } from "@iwsdk/core";
+import { DepthHitBackend } from "./depth-hit-backend";
+import {
+  HitBackendRegistry,
+  HitContext,
+  SceneGeometryHitBackend,
+  XRHitTestBackend,
+} from "./hit-backends";
+
+type Spaces = {
+  session: XRSession;
+  refSpace: XRReferenceSpace;
+  viewerSpace: XRReferenceSpace;
+};
+
+export class HitBackendSystem extends createSystem(
+  {
+    planes: { required: [XRPlane] },
+    meshes: { required: [XRMesh] },
+  },
+  {
+    // "auto" | "scene-geometry" | "depth" | "webxr-hit-test"
+    backend: { type: Types.String, default: "auto" },
+  },
+) {
+  private registry = new HitBackendRegistry();
+  private spaces: Spaces | null = null;
+  private spacesPending = false;
+  private lastAvailable = "";
+
+  init() {
+    this.registry
+      .register(
+        new SceneGeometryHitBackend(() => ({
+          planes: this.queries.planes.entities,
+          meshes: this.queries.meshes.entities,
+        })),
+        10,
+      )
+      .register(new DepthHitBackend(), 5)
+      .register(new XRHitTestBackend(), 0);
+
+    this.registry.preferred = this.config.backend.peek();
+    this.config.backend.subscribe((value) => {
+      this.registry.preferred = value || "auto";
+    });
+
+    (this.globals as any).hitBackends = this.registry;
+  }
+
+  // ---------------- XR spaces ----------------
+
+  private ensureSpaces(): Spaces | null {
+    const xrMgr: any = this.xrManager;
+    const session: XRSession | null = xrMgr.getSession?.() ?? null;
+
+    if (!session) {
+      this.spaces = null;
+      return null;
+    }
+    if (this.spaces?.session === session) return this.spaces;
+    if (this.spacesPending) return null;
+
+    this.spacesPending = true;
+    (async () => {
+      let refSpace: XRReferenceSpace | null =
+        xrMgr.getReferenceSpace?.() ?? null;
+
+      if (!refSpace) {
+        refSpace = await session.requestReferenceSpace("local-floor");
+      }
+
+      const viewerSpace = await session.requestReferenceSpace("viewer");
+      this.spaces = { session, refSpace, viewerSpace };
+    })()
+      .catch((e) => console.warn("[HitBackends] reference spaces failed", e))
+      .finally(() => {
+        this.spacesPending = false;
+      });
+
+    return null;
+  }
+
+  // ---------------- main update ----------------
+
+  update(dt: number) {
+    const frame = this.xrFrame as XRFrame | null;
+    const spaces = this.ensureSpaces();
+
+    if (!frame || !spaces) {
+      this.registry.update(null, dt);
+      return;
+    }
+
+    const viewerPose = frame.getViewerPose(spaces.refSpace);
+    if (!viewerPose) {
+      this.registry.update(null, dt);
+      return;
+    }
+
+    const ctx: HitContext = { ...spaces, frame, viewerPose };
+    this.registry.update(ctx, dt);
+
+    const available = this.registry
+      .available()
+      .map((b) => b.name)
+      .join(", ");
+    if (available !== this.lastAvailable) {
+      this.lastAvailable = available;
+      console.log("[HitBackends] available:", available || "(none)");
+    }
+  }
+}
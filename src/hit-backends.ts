@@ -0,0 +1,348 @@
+// hit-backends.ts
+//
+// Pluggable "ray -> real-world surface" backends:
+//   - SceneGeometryHitBackend: synchronous ray cast against the XRPlane
+//     polygons and XRMesh geometry registered by SceneUnderstandingSystem
+//     (same-frame result, surface normal, semantic label).
+//   - DepthHitBackend (depth-hit-backend.ts): depth-sensing lookup along
+//     the ray (synchronous, with confidence).
+//   - XRHitTestBackend: WebXR hit-test with an offsetRay (async; resolves a
+//     frame or more later, or times out).
+// HitBackendRegistry picks among them by priority and availability.
+
+import { Entity, XRMesh, XRPlane } from "@iwsdk/core";
+import * as THREE from "three";
+
+export type WorldRay = { origin: THREE.Vector3; dir: THREE.Vector3 };
+
+export type SurfaceHit = {
+  point: THREE.Vector3;
+  normal: THREE.Vector3;
+  distance: number; // along the ray, meters
+  label: string | null; // semantic label / plane orientation, if known
+  source: string; // backend name
+  confidence?: number; // 0..1, for backends that can estimate one
+};
+
+export type HitContext = {
+  session: XRSession;
+  frame: XRFrame;
+  refSpace: XRReferenceSpace;
+  viewerSpace: XRReferenceSpace;
+  viewerPose: XRViewerPose;
+};
+
+export interface HitBackend {
+  readonly name: string;
+  readonly sync: boolean;
+  isAvailable(ctx: HitContext): boolean;
+  // Sync backends return immediately; async ones return a promise that is
+  // settled from update().
+  raycast(
+    ray: WorldRay,
+    ctx: HitContext,
+  ): SurfaceHit | null | Promise<SurfaceHit | null>;
+  update?(ctx: HitContext, dt: number): void;
+}
+
+const HIT_TIMEOUT = 0.4; // seconds before an XR hit-test is given up
+const MAX_HIT_DISTANCE = 20;
+const MIN_CONFIDENCE = 0.3; // sync hits below this are ignored
+const AMBIGUITY_MARGIN = 0.05; // meters a lower-priority hit must be nearer by
+
+// WebXR plane object (the native one, not the ECS component)
+type NativePlane = {
+  planeSpace: XRSpace;
+  polygon: DOMPointReadOnly[];
+  orientation?: string;
+  semanticLabel?: string;
+};
+
+// ---------------- scene geometry ----------------
+
+export type SceneGeometrySource = () => {
+  planes: Iterable<Entity>;
+  meshes: Iterable<Entity>;
+};
+
+export class SceneGeometryHitBackend implements HitBackend {
+  readonly name = "scene-geometry";
+  readonly sync = true;
+
+  private raycaster = new THREE.Raycaster();
+
+  constructor(private readonly source: SceneGeometrySource) {}
+
+  isAvailable(): boolean {
+    const { planes, meshes } = this.source();
+    for (const _ of planes) return true;
+    for (const _ of meshes) return true;
+    return false;
+  }
+
+  raycast(ray: WorldRay, ctx: HitContext): SurfaceHit | null {
+    const { planes, meshes } = this.source();
+    let best: SurfaceHit | null = null;
+
+    for (const entity of planes) {
+      const plane = entity.getValue(XRPlane, "_plane") as NativePlane | undefined;
+      if (!plane) continue;
+      const hit = this.intersectPlane(plane, ray, ctx);
+      if (hit && (!best || hit.distance < best.distance)) best = hit;
+    }
+
+    this.raycaster.set(ray.origin, ray.dir);
+    this.raycaster.far = best ? best.distance : MAX_HIT_DISTANCE;
+
+    for (const entity of meshes) {
+      const object = entity.object3D;
+      if (!object) continue;
+
+      object.updateMatrixWorld();
+      const hits = this.raycaster.intersectObject(object, false);
+      const hit = hits[0];
+      if (!hit || (best && hit.distance >= best.distance)) continue;
+
+      const normal = hit.face
+        ? hit.face.normal.clone().transformDirection(object.matrixWorld)
+        : ray.dir.clone().negate();
+      if (normal.dot(ray.dir) > 0) normal.negate();
+
+      const isBounded = entity.getValue(XRMesh, "isBounded3D");
+      const label = isBounded
+        ? (entity.getValue(XRMesh, "semanticLabel") as string) || null
+        : "global mesh";
+
+      best = {
+        point: hit.point.clone(),
+        normal,
+        distance: hit.distance,
+        label,
+        source: this.name,
+      };
+    }
+
+    return best;
+  }
+
+  private intersectPlane(
+    plane: NativePlane,
+    ray: WorldRay,
+    ctx: HitContext,
+  ): SurfaceHit | null {
+    const pose = ctx.frame.getPose(plane.planeSpace, ctx.refSpace);
+    if (!pose) return null;
+
+    const planeMat = new THREE.Matrix4().fromArray(pose.transform.matrix);
+    const origin = new THREE.Vector3().setFromMatrixPosition(planeMat);
+    const normal = new THREE.Vector3(0, 1, 0).transformDirection(planeMat);
+
+    const denom = normal.dot(ray.dir);
+    if (Math.abs(denom) < 1e-6) return null;
+
+    const t = origin.clone().sub(ray.origin).dot(normal) / denom;
+    if (t <= 0 || t > MAX_HIT_DISTANCE) return null;
+
+    const point = ray.origin.clone().addScaledVector(ray.dir, t);
+
+    // Polygon lives in the plane's local XZ
+    const local = point.clone().applyMatrix4(planeMat.clone().invert());
+    if (!pointInPolygonXZ(local.x, local.z, plane.polygon)) return null;
+
+    if (denom > 0) normal.negate(); // face the ray
+
+    return {
+      point,
+      normal,
+      distance: t,
+      label: plane.semanticLabel ?? plane.orientation ?? null,
+      source: this.name,
+    };
+  }
+}
+
+function pointInPolygonXZ(
+  x: number,
+  z: number,
+  polygon: DOMPointReadOnly[],
+): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.z > z !== b.z > z && x < ((b.x - a.x) * (z - a.z)) / (b.z - a.z) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// ---------------- WebXR hit-test ----------------
+
+type PendingHitTest = {
+  source: XRHitTestSource | null;
+  ray: WorldRay;
+  elapsed: number;
+  resolve: (hit: SurfaceHit | null) => void;
+};
+
+export class XRHitTestBackend implements HitBackend {
+  readonly name = "webxr-hit-test";
+  readonly sync = false;
+
+  private pending: PendingHitTest[] = [];
+
+  isAvailable(ctx: HitContext): boolean {
+    return typeof (ctx.session as any).requestHitTestSource === "function";
+  }
+
+  raycast(ray: WorldRay, ctx: HitContext): Promise<SurfaceHit | null> {
+    return new Promise((resolve) => {
+      const req: PendingHitTest = { source: null, ray, elapsed: 0, resolve };
+      this.pending.push(req);
+
+      // offsetRay in refSpace: a viewer-space ray would follow the head
+      // while the source waits for results
+      const { origin, dir } = ray;
+      const xrRay = new XRRay(
+        new DOMPointReadOnly(origin.x, origin.y, origin.z, 1),
+        new DOMPointReadOnly(dir.x, dir.y, dir.z, 0),
+      );
+
+      // Typed as possibly undefined in @types/webxr
+      const request = ctx.session.requestHitTestSource?.({
+        space: ctx.refSpace,
+        offsetRay: xrRay,
+      });
+
+      if (!request) {
+        this.settle(req, null);
+        return;
+      }
+
+      request
+        .then((source) => {
+          // Settled (timed out) meanwhile: nothing will cancel it later
+          if (!this.pending.includes(req)) {
+            source?.cancel();
+            return;
+          }
+          req.source = source ?? null;
+          if (!req.source) this.settle(req, null);
+        })
+        .catch((e) => {
+          console.warn("[XRHitTestBackend] requestHitTestSource failed", e);
+          this.settle(req, null);
+        });
+    });
+  }
+
+  update(ctx: HitContext, dt: number) {
+    for (const req of [...this.pending]) {
+      req.elapsed += dt;
+      if (!req.source) {
+        if (req.elapsed > HIT_TIMEOUT) this.settle(req, null);
+        continue;
+      }
+
+      const results = ctx.frame.getHitTestResults(req.source);
+      const pose = results.length ? results[0].getPose(ctx.refSpace) : null;
+
+      if (pose) {
+        const m = new THREE.Matrix4().fromArray(pose.transform.matrix);
+        const point = new THREE.Vector3().setFromMatrixPosition(m);
+        const normal = new THREE.Vector3(0, 1, 0).transformDirection(m);
+        this.settle(req, {
+          point,
+          normal,
+          distance: point.distanceTo(req.ray.origin),
+          label: null,
+          source: this.name,
+        });
+      } else if (req.elapsed > HIT_TIMEOUT) {
+        this.settle(req, null);
+      }
+    }
+  }
+
+  private settle(req: PendingHitTest, hit: SurfaceHit | null) {
+    req.source?.cancel();
+    req.source = null;
+    this.pending = this.pending.filter((p) => p !== req);
+    req.resolve(hit);
+  }
+}
+
+// ---------------- registry ----------------
+
+export class HitBackendRegistry {
+  private backends: { backend: HitBackend; priority: number }[] = [];
+  private ctx: HitContext | null = null;
+
+  // "auto" = first available by priority; otherwise a backend name
+  preferred = "auto";
+
+  register(backend: HitBackend, priority = 0): this {
+    this.backends.push({ backend, priority });
+    this.backends.sort((a, b) => b.priority - a.priority);
+    return this;
+  }
+
+  get(name: string): HitBackend | null {
+    return this.backends.find((b) => b.backend.name === name)?.backend ?? null;
+  }
+
+  get context(): HitContext | null {
+    return this.ctx;
+  }
+
+  update(ctx: HitContext | null, dt: number) {
+    this.ctx = ctx;
+    if (!ctx) return;
+    for (const { backend } of this.backends) backend.update?.(ctx, dt);
+  }
+
+  available(): HitBackend[] {
+    const ctx = this.ctx;
+    if (!ctx) return [];
+
+    const list = this.backends
+      .map((b) => b.backend)
+      .filter((b) => b.isAvailable(ctx));
+
+    if (this.preferred === "auto") return list;
+    return list.filter((b) => b.name === this.preferred);
+  }
+
+  // Same-frame result from synchronous backends only. Backends are tried in
+  // priority order; a lower-priority hit replaces the current one only when
+  // it is clearly nearer (e.g. depth sees a chair in front of the floor
+  // plane) and confident enough.
+  raycastSync(ray: WorldRay): SurfaceHit | null {
+    const ctx = this.ctx;
+    if (!ctx) return null;
+
+    let best: SurfaceHit | null = null;
+    for (const backend of this.available()) {
+      if (!backend.sync) continue;
+      const hit = backend.raycast(ray, ctx) as SurfaceHit | null;
+      if (!hit || (hit.confidence ?? 1) < MIN_CONFIDENCE) continue;
+      if (!best || hit.distance < best.distance - AMBIGUITY_MARGIN) best = hit;
+    }
+    return best;
+  }
+
+  // First available async backend only (null if there is none)
+  async raycastAsync(ray: WorldRay): Promise<SurfaceHit | null> {
+    const ctx = this.ctx;
+    if (!ctx) return null;
+
+    const asyncBackend = this.available().find((b) => !b.sync);
+    return asyncBackend ? await asyncBackend.raycast(ray, ctx) : null;
+  }
+
+  // Sync backends first, then the first available async backend
+  async raycast(ray: WorldRay): Promise<SurfaceHit | null> {
+    return this.raycastSync(ray) ?? (await this.raycastAsync(ray));
+  }
+}
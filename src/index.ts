@@ -23,6 +23,26 @@ import { RobotSystem } from "./robot.js";
 import { TapHitDebugSystem } from "./tap-hit-debug-system";
 import { CameraPanelSystem } from "./camera-panel-system";
 import { ControllerPanelTapSystem } from "./controller-panel-tap-system";
+import { CalibrationSystem } from "./calibration-system";
+import { FiducialCalibrationSystem } from "./fiducial-calibration-system";
+import { ObjectSelectionSystem } from "./object-selection-system";
+import { ObjectMemorySystem } from "./object-memory-system";
+import { ZoneSystem } from "./zone-system";
+import { DatasetCaptureSystem } from "./dataset-capture-system";
+import { AnnotationSystem } from "./annotation-system";
+import { DetectedObject } from "./detected-object";
+import { PoseSyncSystem } from "./pose-sync-system";
+import { HitBackendSystem } from "./hit-backend-system";
+import { ManifoldSystem } from "./manifold-system";
+import { SessionRecorderSystem } from "./session-recorder-system";
+import { SyntheticCameraSystem } from "./synthetic-camera-system";
+import { BenchmarkSystem } from "./benchmark-system";
+import { YoloSystem } from "./yolo-system";
+import { DetectionPipeline } from "./detection-pipeline";
+import { DEFAULT_MODEL_ID, ModelRegistry } from "./model-registry";
+import { clearModelCache } from "./model-cache";
+import { CameraIntrinsics, intrinsicsFromTrackSettings } from "./camera-model";
+import { applyCalibrationProfile } from "./calibration";
 
 // Shared state between panel + systems
 const tapHitState = {
@@ -30,18 +50,6 @@ const tapHitState = {
   pendingRayUv: null as { u: number; v: number } | null, // consumed by TapHitDebugSystem
 };
 
-type CameraIntrinsics = {
-  width: number;
-  height: number;
-  fx: number;
-  fy: number;
-  cx: number;
-  cy: number;
-  distortion?: number[];
-  lensRotation?: { x: number; y: number; z: number; w: number };
-  lensTranslation?: { x: number; y: number; z: number };
-};
-
 async function fetchCameraIntrinsics(): Promise<CameraIntrinsics | null> {
   try {
     const stream = await navigator.mediaDevices.getUserMedia({
@@ -56,51 +64,12 @@ async function fetchCameraIntrinsics(): Promise<CameraIntrinsics | null> {
     const settings: any = track.getSettings();
     console.log("[Intrinsics] raw track settings:", settings);
 
-    const calib: number[] | undefined = settings.lensIntrinsicCalibration;
-    const dist: number[] | undefined = settings.lensDistortion;
-    const rot: DOMPointReadOnly | undefined = settings.lensRotation;
-    const trans: DOMPointReadOnly | undefined = settings.lensTranslation;
-
-    if (!calib || calib.length < 4) {
-      console.warn("[Intrinsics] lensIntrinsicCalibration missing or too short");
-      track.stop();
-      stream.getTracks().forEach((t) => t.stop());
-      return null;
-    }
-
-    const [fx, fy, cx, cy] = calib;
-    const width = settings.width;
-    const height = settings.height;
-
-    if (!width || !height || !fx || !fy) {
-      console.warn(
-        "[Intrinsics] Missing one or more fields (w,h,fx,fy,cx,cy). Cannot build intrinsics yet.",
-      );
-      track.stop();
-      stream.getTracks().forEach((t) => t.stop());
-      return null;
-    }
-
-    const intrinsics: CameraIntrinsics = {
-      width,
-      height,
-      fx,
-      fy,
-      cx,
-      cy,
-      distortion: dist,
-      lensRotation: rot
-        ? { x: rot.x, y: rot.y, z: rot.z, w: rot.w }
-        : undefined,
-      lensTranslation: trans
-        ? { x: trans.x, y: trans.y, z: trans.z }
-        : undefined,
-    };
+    const intrinsics = intrinsicsFromTrackSettings(settings);
 
     track.stop();
     stream.getTracks().forEach((t) => t.stop());
 
-    console.log("[Intrinsics] parsed:", intrinsics);
+    if (intrinsics) console.log("[Intrinsics] parsed:", intrinsics);
     return intrinsics;
   } catch (e) {
     console.warn("[Intrinsics] getUserMedia failed:", e);
@@ -108,7 +77,33 @@ async function fetchCameraIntrinsics(): Promise<CameraIntrinsics | null> {
   }
 }
 
+// Offline support: public/sw.js caches what the app loads. Resources
+// fetched before the worker took control are handed to it explicitly.
+async function registerServiceWorker() {
+  if (!("serviceWorker" in navigator)) return;
+
+  try {
+    await navigator.serviceWorker.register(new URL("sw.js", document.baseURI));
+    const registration = await navigator.serviceWorker.ready;
+
+    const urls = [
+      location.href,
+      ...performance
+        .getEntriesByType("resource")
+        .map((e) => e.name)
+        .filter((url) => url.startsWith(location.origin)),
+    ];
+    registration.active?.postMessage({ type: "cache-urls", urls });
+    console.log("[Offline] Service worker ready");
+  } catch (e) {
+    console.warn("[Offline] Service worker registration failed", e);
+  }
+}
+
 async function main() {
+  // Not under `vite dev`: the cache-first worker would serve stale modules
+  if (import.meta.env.PROD) registerServiceWorker();
+
   try {
     try {
       await CameraUtils.getDevices();
@@ -117,8 +112,10 @@ async function main() {
       console.warn("[Camera] Devices unavailable", err);
     }
 
-    // 1) Fetch intrinsics/extrinsics once up front
-    const cameraIntrinsics = await fetchCameraIntrinsics();
+    // 1) Fetch intrinsics/extrinsics once up front, then prefer a saved
+    //    calibration profile for this device + resolution
+    const { intrinsics: cameraIntrinsics, profile: calibrationProfile } =
+      applyCalibrationProfile(await fetchCameraIntrinsics());
 
     const assets: AssetManifest = {
       webxr: {
@@ -173,14 +170,58 @@ async function main() {
       frameRate: 30,
     });
 
+    // YOLO worker, owned by the pipeline (restarts it if it crashes)
+    const detectionPipeline = new DetectionPipeline(
+      () =>
+        new Worker(new URL("./yolo-worker.ts", import.meta.url), {
+          type: "module",
+        }),
+    );
+    detectionPipeline.start();
+
+    // Model manifests; switch at runtime with globals.models.use(idOrUrl)
+    // or pick one at load time with ?model=<id or manifest url>
+    const modelRegistry = new ModelRegistry();
+    const useModel = async (idOrUrl: string) => {
+      const manifest =
+        modelRegistry.get(idOrUrl) ?? (await modelRegistry.fetch(idOrUrl));
+      detectionPipeline.loadModel(manifest);
+      console.log("[Models] Using", manifest.id, manifest.version);
+      return manifest;
+    };
+
+    const modelParam = new URLSearchParams(location.search).get("model");
+    const initialModel = modelParam ?? DEFAULT_MODEL_ID;
+    useModel(initialModel).catch((e) => {
+      console.error("[Models] Failed to load", initialModel, e);
+      if (initialModel === DEFAULT_MODEL_ID) return;
+      useModel(DEFAULT_MODEL_ID).catch((e2) => {
+        console.error("[Models] Failed to load", DEFAULT_MODEL_ID, e2);
+      });
+    });
+
     const worldAny = world as any;
     worldAny.globals = {
       cameraEntity,
       tapHitState,
       panelHoverUv: null,
+      panelDrag: null,
       pendingPanelHitPointRef: null,
       cameraIntrinsics, // <--- NEW
+      calibrationProfile, // fitted profile in use (null = raw intrinsics)
+      panelMode: null, // which mode owns panel clicks (panel-mode.ts)
+      panelStatus: calibrationProfile
+        ? `Calibration profile: ${calibrationProfile.residualPx.toFixed(1)} px residual`
+        : null,
       cameraImageMapping: null,
+      cameraFrame: null, // frame on the panel + its capture time
+      reticlePanelUv: null, // hit point reprojected through the camera model
+      detectionPipeline, // read by YoloSystem
+      models: {
+        registry: modelRegistry,
+        use: useModel,
+        clearCache: clearModelCache, // drop cached weights (refetch next load)
+      },
     };
 
     const tex = AssetManager.getTexture("webxr")!;
@@ -204,18 +245,64 @@ async function main() {
       .registerComponent(XRMesh)
       .registerComponent(XRAnchor)
 
+      // One entity per confirmed detection track (set by YoloSystem)
+      .registerComponent(DetectedObject)
+
       .registerSystem(PanelSystem)
       .registerSystem(RobotSystem)
 
+      // Session record / replay (feeds recorded frames + input before the
+      // camera panel reads them)
+      .registerSystem(SessionRecorderSystem)
+
+      // IWER only: ground-truth camera rendered from the emulated room
+      .registerSystem(SyntheticCameraSystem)
+
       // In-world camera panel + controller ray interaction
       .registerSystem(CameraPanelSystem)
       .registerSystem(ControllerPanelTapSystem)
 
-      // Panel UV -> camera ray (intrinsics) -> hit-test -> reticle
-      .registerSystem(TapHitDebugSystem);
+      // Viewer pose history -> pose at camera capture time (+ latency)
+      .registerSystem(PoseSyncSystem)
+
+      // Ray -> surface backends (scene planes/meshes, XR hit-test)
+      .registerSystem(HitBackendSystem)
+
+      // Panel UV -> world sample cache, re-keyed as the head moves
+      .registerSystem(ManifoldSystem)
+
+      // Panel UV -> camera ray (intrinsics) -> hit backends -> reticle
+      .registerSystem(TapHitDebugSystem)
+
+      // Camera frames -> YOLO worker -> world labels
+      .registerSystem(YoloSystem)
+
+      // Panel click on a detection box -> selected track + XRAnchor label
+      .registerSystem(ObjectSelectionSystem)
+
+      // Confirmed tracks -> persistent object memory + search panel
+      .registerSystem(ObjectMemorySystem)
+
+      // Floor zones + "label enters zone" rules on DetectedObject entities
+      .registerSystem(ZoneSystem)
+
+      // Camera frames + reviewed detections -> YOLO / COCO training ZIP
+      .registerSystem(DatasetCaptureSystem)
+
+      // Frozen frame + panel drag gestures -> hand-labeled dataset frames
+      .registerSystem(AnnotationSystem)
+
+      // Pipeline ray vs ground truth -> angular / position error reports
+      .registerSystem(BenchmarkSystem)
+
+      // Controller target + panel click pairs -> fitted calibration profile
+      .registerSystem(CalibrationSystem)
+
+      // Printed fiducial tag -> camera/viewer extrinsics
+      .registerSystem(FiducialCalibrationSystem);
 
     console.log(
-      "World created. CameraPanelSystem + ControllerPanelTapSystem + TapHitDebugSystem ready.",
+      "World created. CameraPanelSystem + ControllerPanelTapSystem + TapHitDebugSystem + YoloSystem ready.",
     );
   } catch (e) {
     console.error("Fatal init error", e);
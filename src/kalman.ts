@@ -0,0 +1,96 @@
+// kalman.ts
+//
+// Constant-velocity Kalman filter, one independent [position, velocity]
+// state per axis. Used by the tracker for image boxes (cx, cy, w, h in
+// image UV) and world positions (x, y, z in refSpace meters).
+//   predict(dt): position += velocity * dt, covariance grows with q
+//   update(z, r): blend in a measurement with variance r
+
+export class KalmanAxis {
+  x: number; // position
+  v = 0; // velocity (units / s)
+
+  // covariance [[p00, p01], [p01, p11]]
+  private p00: number;
+  private p01 = 0;
+  private p11: number;
+
+  // q: process noise (acceleration spectral density, units^2 / s^3)
+  constructor(
+    x: number,
+    variance: number,
+    private q: number,
+    velocityVariance = variance,
+  ) {
+    this.x = x;
+    this.p00 = variance;
+    this.p11 = velocityVariance;
+  }
+
+  get variance(): number {
+    return this.p00;
+  }
+
+  predict(dt: number) {
+    if (dt <= 0) return;
+
+    this.x += this.v * dt;
+
+    // P = F P F^T + Q, F = [[1, dt], [0, 1]]
+    const dt2 = dt * dt;
+    const p00 = this.p00 + 2 * dt * this.p01 + dt2 * this.p11;
+    const p01 = this.p01 + dt * this.p11;
+
+    this.p00 = p00 + (this.q * dt2 * dt) / 3;
+    this.p01 = p01 + (this.q * dt2) / 2;
+    this.p11 += this.q * dt;
+  }
+
+  update(z: number, r: number) {
+    const s = this.p00 + r;
+    const k0 = this.p00 / s;
+    const k1 = this.p01 / s;
+    const y = z - this.x;
+
+    this.x += k0 * y;
+    this.v += k1 * y;
+
+    // P = (I - K H) P, H = [1, 0]
+    const p00 = this.p00;
+    const p01 = this.p01;
+    this.p00 = (1 - k0) * p00;
+    this.p01 = (1 - k0) * p01;
+    this.p11 -= k1 * p01;
+  }
+
+  // Keep the position, forget the motion (e.g. a track that left view)
+  stop(velocityVariance = this.p11) {
+    this.v = 0;
+    this.p01 = 0;
+    this.p11 = velocityVariance;
+  }
+}
+
+export class KalmanVector {
+  readonly axes: KalmanAxis[];
+
+  constructor(values: number[], variance: number, q: number) {
+    this.axes = values.map((x) => new KalmanAxis(x, variance, q));
+  }
+
+  get values(): number[] {
+    return this.axes.map((a) => a.x);
+  }
+
+  predict(dt: number) {
+    for (const a of this.axes) a.predict(dt);
+  }
+
+  update(values: number[], r: number) {
+    this.axes.forEach((a, i) => a.update(values[i], r));
+  }
+
+  stop() {
+    for (const a of this.axes) a.stop();
+  }
+}
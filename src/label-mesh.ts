@@ -0,0 +1,75 @@
+// label-mesh.ts
+//
+// Text label quads (canvas texture on a plane) for world-space labels:
+// YoloSystem track labels and ObjectSelectionSystem anchored labels.
+
+import * as THREE from "three";
+
+const CANVAS_W = 512;
+const CANVAS_H = 128;
+
+export type LabelMeshOptions = {
+  width: number; // meters
+  height: number;
+  background: string; // CSS color
+  name: string;
+};
+
+const DEFAULT_OPTIONS: LabelMeshOptions = {
+  width: 0.3,
+  height: 0.08,
+  background: "rgba(0, 0, 0, 0.7)",
+  name: "Label",
+};
+
+export function createLabelMesh(
+  text: string,
+  options: Partial<LabelMeshOptions> = {},
+): THREE.Mesh {
+  const o = { ...DEFAULT_OPTIONS, ...options };
+
+  const canvas = document.createElement("canvas");
+  canvas.width = CANVAS_W;
+  canvas.height = CANVAS_H;
+
+  const texture = new THREE.CanvasTexture(canvas);
+  const material = new THREE.MeshBasicMaterial({
+    map: texture,
+    transparent: true,
+  });
+
+  const geometry = new THREE.PlaneGeometry(o.width, o.height);
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.name = o.name;
+  mesh.userData.labelBackground = o.background;
+
+  updateLabelMesh(mesh, text);
+  return mesh;
+}
+
+export function updateLabelMesh(mesh: THREE.Mesh, text: string) {
+  const material = mesh.material as THREE.MeshBasicMaterial;
+  const texture = material.map as THREE.CanvasTexture;
+  const canvas = texture.image as HTMLCanvasElement;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = mesh.userData.labelBackground ?? DEFAULT_OPTIONS.background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  ctx.fillStyle = "white";
+  ctx.font = "40px sans-serif";
+  ctx.textBaseline = "middle";
+  ctx.fillText(text, 20, canvas.height / 2);
+
+  texture.needsUpdate = true;
+}
+
+export function disposeLabelMesh(mesh: THREE.Mesh) {
+  mesh.parent?.remove(mesh);
+  mesh.geometry.dispose();
+  const material = mesh.material as THREE.MeshBasicMaterial;
+  material.map?.dispose();
+  material.dispose();
+}
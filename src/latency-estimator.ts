@@ -0,0 +1,180 @@
+// latency-estimator.ts
+//
+// Estimates camera latency (how old a captured frame is compared to the
+// viewer pose at capture time) from motion:
+//   - global image shift between consecutive low-res gray frames -> image
+//     angular speed,
+//   - head angular speed from the PoseHistory,
+//   - latency = lag that best correlates the two speed signals.
+// Pure TS; the caller supplies downsampled gray frames.
+
+import { PoseHistory } from "./pose-history";
+
+const MAX_SHIFT_PX = 6; // search radius on the downsampled frame
+const WINDOW_MS = 5000; // motion history kept for correlation
+const MIN_SAMPLES = 30;
+const MIN_CORRELATION = 0.6;
+const MIN_MEAN_SPEED = 0.15; // rad/s; below this the head is too still
+
+type MotionSample = { time: number; dt: number; speed: number };
+
+export type LatencyEstimate = { latencyMs: number; correlation: number };
+
+// Mean absolute difference of the overlap of a and b shifted by (dx, dy)
+function shiftCost(
+  a: Uint8Array,
+  b: Uint8Array,
+  w: number,
+  h: number,
+  dx: number,
+  dy: number,
+): number {
+  let sum = 0;
+  let n = 0;
+  const y0 = Math.max(0, -dy);
+  const y1 = Math.min(h, h - dy);
+  const x0 = Math.max(0, -dx);
+  const x1 = Math.min(w, w - dx);
+
+  for (let y = y0; y < y1; y += 2) {
+    const rowA = y * w;
+    const rowB = (y + dy) * w + dx;
+    for (let x = x0; x < x1; x += 2) {
+      sum += Math.abs(a[rowA + x] - b[rowB + x]);
+      n++;
+    }
+  }
+  return n ? sum / n : Infinity;
+}
+
+// Vertex offset of a parabola through (-1, c0), (0, c1), (1, c2)
+function parabolicOffset(c0: number, c1: number, c2: number): number {
+  const denom = c0 - 2 * c1 + c2;
+  if (!isFinite(denom) || denom <= 0) return 0;
+  return Math.max(-0.5, Math.min(0.5, (0.5 * (c0 - c2)) / denom));
+}
+
+// Shift (dx, dy) minimizing mean absolute difference, refined to sub-pixel
+export function globalShift(
+  a: Uint8Array,
+  b: Uint8Array,
+  w: number,
+  h: number,
+  maxShift = MAX_SHIFT_PX,
+): { dx: number; dy: number; cost: number } {
+  let best = { dx: 0, dy: 0, cost: Infinity };
+
+  for (let dy = -maxShift; dy <= maxShift; dy++) {
+    for (let dx = -maxShift; dx <= maxShift; dx++) {
+      const cost = shiftCost(a, b, w, h, dx, dy);
+      if (cost < best.cost) best = { dx, dy, cost };
+    }
+  }
+
+  const { dx, dy, cost } = best;
+  const sx = parabolicOffset(
+    shiftCost(a, b, w, h, dx - 1, dy),
+    cost,
+    shiftCost(a, b, w, h, dx + 1, dy),
+  );
+  const sy = parabolicOffset(
+    shiftCost(a, b, w, h, dx, dy - 1),
+    cost,
+    shiftCost(a, b, w, h, dx, dy + 1),
+  );
+
+  return { dx: dx + sx, dy: dy + sy, cost };
+}
+
+function pearson(a: number[], b: number[]): number {
+  const n = a.length;
+  let ma = 0;
+  let mb = 0;
+  for (let i = 0; i < n; i++) {
+    ma += a[i];
+    mb += b[i];
+  }
+  ma /= n;
+  mb /= n;
+
+  let cov = 0;
+  let va = 0;
+  let vb = 0;
+  for (let i = 0; i < n; i++) {
+    const da = a[i] - ma;
+    const db = b[i] - mb;
+    cov += da * db;
+    va += da * da;
+    vb += db * db;
+  }
+  return va > 0 && vb > 0 ? cov / Math.sqrt(va * vb) : 0;
+}
+
+export class LatencyEstimator {
+  private prevGray: Uint8Array | null = null;
+  private prevTime = 0;
+  private samples: MotionSample[] = [];
+
+  // radPerPixel: angle subtended by one pixel of the downsampled frame
+  addFrame(
+    gray: Uint8Array,
+    w: number,
+    h: number,
+    timeMs: number,
+    radPerPixel: number,
+  ) {
+    const prev = this.prevGray;
+
+    // The XR loop runs faster than the camera: skip repeated frames
+    if (prev && prev.length === gray.length && prev.every((v, i) => v === gray[i])) {
+      return;
+    }
+
+    const dt = timeMs - this.prevTime;
+    this.prevGray = gray;
+    this.prevTime = timeMs;
+    if (!prev || prev.length !== gray.length || dt <= 0) return;
+
+    const { dx, dy } = globalShift(prev, gray, w, h);
+    const speed = (Math.hypot(dx, dy) * radPerPixel) / (dt / 1000);
+    this.samples.push({ time: timeMs, dt, speed });
+
+    const cutoff = timeMs - WINDOW_MS;
+    while (this.samples.length && this.samples[0].time < cutoff) {
+      this.samples.shift();
+    }
+  }
+
+  reset() {
+    this.prevGray = null;
+    this.samples = [];
+  }
+
+  estimate(
+    history: PoseHistory,
+    minLagMs = 0,
+    maxLagMs = 200,
+    stepMs = 5,
+  ): LatencyEstimate | null {
+    if (this.samples.length < MIN_SAMPLES) return null;
+
+    const imageSpeeds = this.samples.map((s) => s.speed);
+    const meanSpeed =
+      imageSpeeds.reduce((a, b) => a + b, 0) / imageSpeeds.length;
+    if (meanSpeed < MIN_MEAN_SPEED) return null;
+
+    let best: LatencyEstimate | null = null;
+    for (let lag = minLagMs; lag <= maxLagMs; lag += stepMs) {
+      const headSpeeds: number[] = [];
+      for (const s of this.samples) {
+        headSpeeds.push(history.angularSpeed(s.time - lag, s.dt) ?? 0);
+      }
+      const c = pearson(imageSpeeds, headSpeeds);
+      if (!best || c > best.correlation) {
+        best = { latencyMs: lag, correlation: c };
+      }
+    }
+
+    return best && best.correlation >= MIN_CORRELATION ? best : null;
+  }
+}
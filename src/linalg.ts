@@ -0,0 +1,198 @@
+// linalg.ts
+//
+// Small dense linear algebra helpers for the calibration / pose solvers
+// and the tracker's assignment step.
+
+// Solve A x = b (Gaussian elimination with partial pivoting).
+// Returns null if A is singular.
+export function solveLinear(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    }
+    if (Math.abs(M[pivot][col]) < 1e-15) return null;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+
+    for (let r = col + 1; r < n; r++) {
+      const f = M[r][col] / M[col][col];
+      for (let c = col; c <= n; c++) M[r][c] -= f * M[col][c];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let s = M[r][n];
+    for (let c = r + 1; c < n; c++) s -= M[r][c] * x[c];
+    x[r] = s / M[r][r];
+  }
+  return x;
+}
+
+function sumSquares(r: number[]): number {
+  let s = 0;
+  for (const x of r) s += x * x;
+  return s;
+}
+
+// Levenberg-Marquardt least squares with a central-difference Jacobian.
+// `steps` is the finite-difference step per parameter.
+export function levenbergMarquardt(
+  residuals: (p: number[]) => number[],
+  p0: number[],
+  steps: number[],
+  maxIterations = 50,
+): number[] {
+  const n = p0.length;
+  let p = [...p0];
+  let r = residuals(p);
+  let cost = sumSquares(r);
+  let lambda = 1e-3;
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    const J: number[][] = r.map(() => new Array(n).fill(0));
+    for (let j = 0; j < n; j++) {
+      const pPlus = [...p];
+      const pMinus = [...p];
+      pPlus[j] += steps[j];
+      pMinus[j] -= steps[j];
+      const rPlus = residuals(pPlus);
+      const rMinus = residuals(pMinus);
+      for (let i = 0; i < r.length; i++) {
+        J[i][j] = (rPlus[i] - rMinus[i]) / (2 * steps[j]);
+      }
+    }
+
+    // Normal equations: (JtJ + lambda * diag(JtJ)) dp = -Jt r
+    const JtJ: number[][] = [];
+    const Jtr: number[] = [];
+    for (let a = 0; a < n; a++) {
+      JtJ.push(new Array(n).fill(0));
+      let g = 0;
+      for (let i = 0; i < r.length; i++) g += J[i][a] * r[i];
+      Jtr.push(-g);
+      for (let b = 0; b < n; b++) {
+        let s = 0;
+        for (let i = 0; i < r.length; i++) s += J[i][a] * J[i][b];
+        JtJ[a][b] = s;
+      }
+    }
+
+    let improved = false;
+    while (lambda < 1e10) {
+      const A = JtJ.map((row, a) =>
+        row.map((v, b) => (a === b ? v * (1 + lambda) : v)),
+      );
+      const dp = solveLinear(A, Jtr);
+      if (!dp) {
+        lambda *= 10;
+        continue;
+      }
+
+      const pNew = p.map((v, i) => v + dp[i]);
+      const rNew = residuals(pNew);
+      const costNew = sumSquares(rNew);
+
+      if (costNew < cost) {
+        const relGain = (cost - costNew) / Math.max(cost, 1e-12);
+        p = pNew;
+        r = rNew;
+        cost = costNew;
+        lambda = Math.max(lambda / 10, 1e-12);
+        improved = relGain > 1e-9;
+        break;
+      }
+      lambda *= 10;
+    }
+
+    if (!improved) break;
+  }
+
+  return p;
+}
+
+// Minimum-cost assignment (Hungarian / Kuhn–Munkres, O(n^3)).
+// cost[i][j] for row i, column j; Infinity marks a forbidden pair.
+// Returns the column assigned to each row, or -1 if none.
+export function hungarian(cost: number[][]): number[] {
+  const rows = cost.length;
+  const cols = rows ? cost[0].length : 0;
+  if (!rows || !cols) return new Array(rows).fill(-1);
+
+  // Square matrix; forbidden / padded cells get a large finite cost
+  const n = Math.max(rows, cols);
+  let big = 1;
+  for (const row of cost) {
+    for (const c of row) {
+      if (Number.isFinite(c)) big = Math.max(big, Math.abs(c));
+    }
+  }
+  big *= n * 10;
+
+  const a = (i: number, j: number) => {
+    if (i >= rows || j >= cols) return 0;
+    const c = cost[i][j];
+    return Number.isFinite(c) ? c : big;
+  };
+
+  // 1-based potentials (e-maxx formulation)
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(n + 1).fill(0);
+  const p = new Array(n + 1).fill(0); // p[j] = row matched to column j
+  const way = new Array(n + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array(n + 1).fill(Infinity);
+    const used = new Array(n + 1).fill(false);
+
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+
+      for (let j = 1; j <= n; j++) {
+        if (used[j]) continue;
+        const cur = a(i0 - 1, j - 1) - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0);
+  }
+
+  const assignment = new Array(rows).fill(-1);
+  for (let j = 1; j <= n; j++) {
+    const i = p[j] - 1;
+    if (i < rows && j - 1 < cols && Number.isFinite(cost[i][j - 1])) {
+      assignment[i] = j - 1;
+    }
+  }
+  return assignment;
+}
@@ -0,0 +1,229 @@
+// manifold-cache.ts
+//
+// Dense panel UV -> world "manifold" cache.
+// Every resolved panel ray is stored as a sample (panel UV, viewer pose at
+// capture, hit point, normal). Queries interpolate nearby samples by
+// intersecting the query ray with each neighbour's tangent plane, so a UV
+// can be answered immediately while a hit-test refines it.
+//
+// Samples are world points; when the head moves, rekey() reprojects them to
+// their new panel UV. Entries are dropped once the head has moved too far
+// from where they were captured, when they age out, or when they leave the
+// camera image.
+
+import * as THREE from "three";
+
+export type ManifoldSample = {
+  u: number; // current panel UV (updated by rekey)
+  v: number;
+  point: THREE.Vector3;
+  normal: THREE.Vector3;
+  viewerPosition: THREE.Vector3; // viewer pose at capture
+  viewerQuaternion: THREE.Quaternion;
+  time: number; // performance.now() ms
+  confidence: number;
+  label: string | null;
+  source: string;
+};
+
+export type ManifoldQuery = {
+  point: THREE.Vector3;
+  normal: THREE.Vector3;
+  confidence: number;
+  neighbours: number;
+};
+
+export type ManifoldStats = {
+  count: number;
+  bySource: Record<string, number>;
+  meanConfidence: number;
+  coverage: number; // fraction of COVERAGE_GRID cells holding a sample
+  oldestAgeMs: number;
+};
+
+export type ManifoldCacheOptions = {
+  maxSamples: number;
+  maxAgeMs: number;
+  queryRadius: number; // panel UV
+  mergeRadius: number; // panel UV; closer samples are replaced
+  maxTranslation: number; // meters of head motion before a sample is stale
+  maxRotation: number; // radians
+};
+
+const DEFAULT_OPTIONS: ManifoldCacheOptions = {
+  maxSamples: 2000,
+  maxAgeMs: 15000,
+  queryRadius: 0.03,
+  mergeRadius: 0.004,
+  maxTranslation: 0.75,
+  maxRotation: THREE.MathUtils.degToRad(35),
+};
+
+// Without a camera model UVs cannot be reprojected: only tiny head motion
+// keeps them valid.
+const STRICT_TRANSLATION = 0.02;
+const STRICT_ROTATION = THREE.MathUtils.degToRad(1);
+
+const COVERAGE_GRID = 16;
+const MIN_QUERY_CONFIDENCE = 0.2;
+
+export class ManifoldCache {
+  readonly options: ManifoldCacheOptions;
+  private samples: ManifoldSample[] = [];
+
+  constructor(options: Partial<ManifoldCacheOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  get size(): number {
+    return this.samples.length;
+  }
+
+  all(): readonly ManifoldSample[] {
+    return this.samples;
+  }
+
+  clear() {
+    this.samples = [];
+  }
+
+  add(sample: ManifoldSample) {
+    const r2 = this.options.mergeRadius * this.options.mergeRadius;
+
+    // Refine: a new sample replaces any that cover the same spot
+    this.samples = this.samples.filter(
+      (s) => (s.u - sample.u) ** 2 + (s.v - sample.v) ** 2 > r2,
+    );
+    this.samples.push(sample);
+
+    if (this.samples.length > this.options.maxSamples) {
+      this.samples.splice(0, this.samples.length - this.options.maxSamples);
+    }
+  }
+
+  // Interpolated world point for panel (u, v) along `ray`. Null if no
+  // neighbour is close enough.
+  query(
+    u: number,
+    v: number,
+    ray: { origin: THREE.Vector3; dir: THREE.Vector3 },
+  ): ManifoldQuery | null {
+    const radius = this.options.queryRadius;
+    const r2 = radius * radius;
+
+    let tSum = 0;
+    let wSum = 0;
+    let confSum = 0;
+    let count = 0;
+    let nearest = Infinity;
+    const normal = new THREE.Vector3();
+
+    for (const s of this.samples) {
+      const d2 = (s.u - u) ** 2 + (s.v - v) ** 2;
+      if (d2 > r2) continue;
+
+      // Query ray against the neighbour's tangent plane
+      const denom = s.normal.dot(ray.dir);
+      if (Math.abs(denom) < 0.1) continue; // grazing: unreliable
+      const t = s.point.clone().sub(ray.origin).dot(s.normal) / denom;
+      if (t <= 0) continue;
+
+      const d = Math.sqrt(d2);
+      const w = s.confidence / (d + 1e-3);
+      tSum += t * w;
+      wSum += w;
+      confSum += s.confidence;
+      normal.addScaledVector(s.normal, w);
+      nearest = Math.min(nearest, d);
+      count++;
+    }
+
+    if (!count || wSum <= 0) return null;
+
+    const support = Math.min(1, count / 4);
+    const proximity = 1 - nearest / radius;
+    const confidence = (confSum / count) * support * proximity;
+    if (confidence < MIN_QUERY_CONFIDENCE) return null;
+
+    return {
+      point: ray.origin.clone().addScaledVector(ray.dir, tSum / wSum),
+      normal: normal.normalize(),
+      confidence,
+      neighbours: count,
+    };
+  }
+
+  // Re-key samples for the current head pose. `project` maps a world point
+  // to its panel UV (null = off-image); pass null when there is no camera
+  // model, and only samples captured from (almost) this pose are kept.
+  rekey(
+    viewerMat: THREE.Matrix4,
+    now: number,
+    project: ((p: THREE.Vector3) => { u: number; v: number } | null) | null,
+  ) {
+    const pos = new THREE.Vector3();
+    const quat = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+    viewerMat.decompose(pos, quat, scale);
+
+    const maxT = project ? this.options.maxTranslation : STRICT_TRANSLATION;
+    const maxR = project ? this.options.maxRotation : STRICT_ROTATION;
+
+    this.samples = this.samples.filter((s) => {
+      if (now - s.time > this.options.maxAgeMs) return false;
+      if (s.viewerPosition.distanceTo(pos) > maxT) return false;
+      if (s.viewerQuaternion.angleTo(quat) > maxR) return false;
+      if (!project) return true;
+
+      const uv = project(s.point);
+      if (!uv || uv.u < 0 || uv.u > 1 || uv.v < 0 || uv.v > 1) return false;
+      s.u = uv.u;
+      s.v = uv.v;
+      return true;
+    });
+  }
+
+  stats(now = performance.now()): ManifoldStats {
+    const bySource: Record<string, number> = {};
+    const cells = new Set<number>();
+    let conf = 0;
+    let oldest = 0;
+
+    for (const s of this.samples) {
+      bySource[s.source] = (bySource[s.source] ?? 0) + 1;
+      conf += s.confidence;
+      oldest = Math.max(oldest, now - s.time);
+      const cx = Math.min(COVERAGE_GRID - 1, Math.floor(s.u * COVERAGE_GRID));
+      const cy = Math.min(COVERAGE_GRID - 1, Math.floor(s.v * COVERAGE_GRID));
+      cells.add(cy * COVERAGE_GRID + cx);
+    }
+
+    return {
+      count: this.samples.length,
+      bySource,
+      meanConfidence: this.samples.length ? conf / this.samples.length : 0,
+      coverage: cells.size / (COVERAGE_GRID * COVERAGE_GRID),
+      oldestAgeMs: oldest,
+    };
+  }
+
+  toJSON() {
+    return {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      options: this.options,
+      samples: this.samples.map((s) => ({
+        u: s.u,
+        v: s.v,
+        point: s.point.toArray(),
+        normal: s.normal.toArray(),
+        viewerPosition: s.viewerPosition.toArray(),
+        viewerQuaternion: s.viewerQuaternion.toArray(),
+        time: s.time,
+        confidence: s.confidence,
+        label: s.label,
+        source: s.source,
+      })),
+    };
+  }
+}
@@ -0,0 +1,149 @@
+// manifold-system.ts
+//
+// Owns the panel UV -> world manifold cache (manifold-cache.ts):
+//   - globals.manifold: { cache, stats(), export(), clear(), setVisible() },
+//   - re-keys the cached samples to the current camera pose a few times a
+//     second (reprojection through camera-model.ts when extrinsics exist),
+//   - optional point cloud of the cached samples, colored by confidence.
+//
+// TapHitDebugSystem reads from the cache first and writes every resolved
+// hit back into it. Register after PoseSyncSystem.
+
+import { createSystem, Types } from "@iwsdk/core";
+import * as THREE from "three";
+import {
+  CameraImageMapping,
+  CameraIntrinsics,
+  cameraPoseFromViewer,
+  hasExtrinsics,
+  worldPointToPanelUv,
+} from "./camera-model";
+import { downloadJson } from "./download";
+import { ManifoldCache } from "./manifold-cache";
+
+const REKEY_INTERVAL = 0.1; // seconds
+const POINT_SIZE = 0.015; // meters
+
+export class ManifoldSystem extends createSystem(
+  {},
+  {
+    maxSamples: { type: Types.Int16, default: 2000 },
+    maxAge: { type: Types.Float32, default: 15 }, // seconds
+    visualize: { type: Types.Boolean, default: false },
+  },
+) {
+  private cache!: ManifoldCache;
+  private rekeyTimer = 0;
+  private points: THREE.Points | null = null;
+
+  init() {
+    this.cache = new ManifoldCache({
+      maxSamples: this.config.maxSamples.peek(),
+      maxAgeMs: this.config.maxAge.peek() * 1000,
+    });
+
+    this.config.maxSamples.subscribe((value) => {
+      this.cache.options.maxSamples = value;
+    });
+    this.config.maxAge.subscribe((value) => {
+      this.cache.options.maxAgeMs = value * 1000;
+    });
+
+    const globals = this.globals as any;
+    globals.manifold = {
+      cache: this.cache,
+      stats: () => this.cache.stats(),
+      clear: () => this.cache.clear(),
+      export: () =>
+        downloadJson(`manifold-${Date.now()}.json`, this.cache.toJSON()),
+      setVisible: (on: boolean) => {
+        this.config.visualize.value = on;
+      },
+    };
+  }
+
+  update(dt: number) {
+    this.rekeyTimer += dt;
+    if (this.rekeyTimer < REKEY_INTERVAL) return;
+    this.rekeyTimer = 0;
+
+    const viewerMat = this.currentViewerMatrix();
+    if (viewerMat) {
+      this.cache.rekey(viewerMat, performance.now(), this.projector(viewerMat));
+    }
+
+    this.updatePoints();
+  }
+
+  // ---------------- pose / projection ----------------
+
+  private currentViewerMatrix(): THREE.Matrix4 | null {
+    const globals = this.globals as any;
+    if (globals.cameraFramePose?.matrix) {
+      return globals.cameraFramePose.matrix as THREE.Matrix4;
+    }
+
+    const xrMgr: any = this.xrManager;
+    const frame = this.xrFrame as XRFrame | null;
+    const refSpace: XRReferenceSpace | null =
+      xrMgr.getReferenceSpace?.() ?? null;
+    if (!frame || !refSpace) return null;
+
+    const pose = frame.getViewerPose(refSpace);
+    return pose ? new THREE.Matrix4().fromArray(pose.transform.matrix) : null;
+  }
+
+  private projector(viewerMat: THREE.Matrix4) {
+    const globals = this.globals as any;
+    const intr: CameraIntrinsics | null = globals.cameraIntrinsics ?? null;
+    const mapping: CameraImageMapping | null =
+      globals.cameraImageMapping ?? null;
+    if (!hasExtrinsics(intr) || !mapping) return null;
+
+    const cameraMat = cameraPoseFromViewer(intr, viewerMat);
+    return (p: THREE.Vector3) =>
+      worldPointToPanelUv(intr, mapping, cameraMat, p);
+  }
+
+  // ---------------- debug point cloud ----------------
+
+  private updatePoints() {
+    const visible = this.config.visualize.peek();
+
+    if (!visible) {
+      if (this.points) this.points.visible = false;
+      return;
+    }
+
+    if (!this.points) {
+      const mat = new THREE.PointsMaterial({
+        size: POINT_SIZE,
+        vertexColors: true,
+        transparent: true,
+        opacity: 0.8,
+        depthWrite: false,
+      });
+      this.points = new THREE.Points(new THREE.BufferGeometry(), mat);
+      this.points.name = "ManifoldPoints";
+      this.points.frustumCulled = false;
+      (this.scene as THREE.Scene).add(this.points);
+    }
+
+    const samples = this.cache.all();
+    const positions = new Float32Array(samples.length * 3);
+    const colors = new Float32Array(samples.length * 3);
+    const color = new THREE.Color();
+
+    samples.forEach((s, i) => {
+      s.point.toArray(positions, i * 3);
+      // red (low confidence) -> green (high)
+      color.setHSL(0.33 * THREE.MathUtils.clamp(s.confidence, 0, 1), 1, 0.5);
+      color.toArray(colors, i * 3);
+    });
+
+    const geo = this.points.geometry;
+    geo.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+    geo.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+    this.points.visible = true;
+  }
+}
@@ -0,0 +1,117 @@
+// model-cache.ts
+//
+// Model weights in the Cache API, keyed by URL and tagged with the
+// manifest version: a cached copy is used only if its version matches,
+// otherwise it is downloaded again (with progress) and replaced.
+// Works on the main thread and in workers.
+
+import { ModelManifest } from "./model-registry";
+
+const CACHE_NAME = "questcam2ar-models";
+const VERSION_HEADER = "x-model-version";
+
+export type ModelLoadProgress = {
+  modelId: string;
+  loaded: number; // bytes
+  total: number | null; // null when the server sends no Content-Length
+  fromCache: boolean;
+};
+
+export async function fetchModelCached(
+  manifest: ModelManifest,
+  onProgress?: (p: ModelLoadProgress) => void,
+): Promise<Uint8Array> {
+  const cache = typeof caches !== "undefined" ? await openCache() : null;
+
+  const cached = await cache?.match(manifest.url);
+  if (cached && cached.headers.get(VERSION_HEADER) === manifest.version) {
+    const bytes = new Uint8Array(await cached.arrayBuffer());
+    onProgress?.({
+      modelId: manifest.id,
+      loaded: bytes.length,
+      total: bytes.length,
+      fromCache: true,
+    });
+    return bytes;
+  }
+
+  if (cached) {
+    console.log("[ModelCache] Stale version of", manifest.id, "; refetching");
+  }
+
+  const res = await fetch(manifest.url, { cache: "no-store" });
+  if (!res.ok) {
+    throw new Error(`Model fetch failed (${res.status}): ${manifest.url}`);
+  }
+
+  const bytes = await readWithProgress(res, (loaded, total) =>
+    onProgress?.({ modelId: manifest.id, loaded, total, fromCache: false }),
+  );
+
+  if (cache) {
+    try {
+      await cache.put(
+        manifest.url,
+        new Response(bytes.buffer as ArrayBuffer, {
+          headers: {
+            "content-type": "application/octet-stream",
+            [VERSION_HEADER]: manifest.version,
+          },
+        }),
+      );
+    } catch (e) {
+      // Quota or private mode: still usable, just not offline
+      console.warn("[ModelCache] Could not cache", manifest.id, e);
+    }
+  }
+
+  return bytes;
+}
+
+export async function clearModelCache(): Promise<boolean> {
+  if (typeof caches === "undefined") return false;
+  return caches.delete(CACHE_NAME);
+}
+
+async function openCache(): Promise<Cache | null> {
+  try {
+    return await caches.open(CACHE_NAME);
+  } catch (e) {
+    console.warn("[ModelCache] Cache API unavailable", e);
+    return null;
+  }
+}
+
+async function readWithProgress(
+  res: Response,
+  onProgress: (loaded: number, total: number | null) => void,
+): Promise<Uint8Array> {
+  const length = Number(res.headers.get("content-length"));
+  const total = length > 0 ? length : null;
+
+  if (!res.body) {
+    const bytes = new Uint8Array(await res.arrayBuffer());
+    onProgress(bytes.length, bytes.length);
+    return bytes;
+  }
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    onProgress(loaded, total);
+  }
+
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
@@ -0,0 +1,200 @@
+// model-registry.ts
+//
+// Detection models described by manifests instead of constants in yolo.ts:
+//   url, input size, normalization, output layout, class labels.
+// Output formats:
+//   yolov8 / yolo11 - [1, 4+nc, N]  cx,cy,w,h + class scores (needs NMS)
+//   yolov5          - [1, N, 5+nc]  cx,cy,w,h, objectness, class scores
+//   end2end         - [1, N, 6]     x1,y1,x2,y2, score, class (NMS in model)
+// Tasks (yolov8 / yolo11 layouts):
+//   detect  - boxes only
+//   segment - + nm mask coefficients per box, second output = prototype
+//             masks [1, nm, mh, mw] (segmentation.ts)
+//   pose    - + `keypoints` x [x, y, visibility] per box (pose.ts)
+// Labels are inline or a URL to a .txt (one per line) or .json array.
+// A manifest fetched from a URL resolves its relative URLs against it.
+
+import { COCO_CLASS_NAMES } from "./yolo";
+
+export type ModelOutputFormat = "yolov5" | "yolov8" | "yolo11" | "end2end";
+
+export type ModelTask = "detect" | "segment" | "pose";
+
+export type ModelManifest = {
+  id: string;
+  name: string;
+  version: string; // bump when the weights change
+  url: string;
+  inputSize: number; // square input, px
+  normalization: {
+    mean: [number, number, number]; // applied to RGB in [0,1]
+    std: [number, number, number];
+  };
+  outputFormat: ModelOutputFormat;
+  task: ModelTask;
+  keypoints?: number; // pose models; default 17 (COCO)
+  labels: string[] | string;
+};
+
+const OUTPUT_FORMATS: ModelOutputFormat[] = [
+  "yolov5",
+  "yolov8",
+  "yolo11",
+  "end2end",
+];
+
+const TASKS: ModelTask[] = ["detect", "segment", "pose"];
+
+export const DEFAULT_NORMALIZATION: ModelManifest["normalization"] = {
+  mean: [0, 0, 0],
+  std: [1, 1, 1],
+};
+
+export const BUILTIN_MODELS: ModelManifest[] = [
+  {
+    id: "yolo11n-coco",
+    name: "YOLO11n (COCO)",
+    version: "1",
+    url: "/models/yolo11n.onnx",
+    inputSize: 640,
+    normalization: DEFAULT_NORMALIZATION,
+    outputFormat: "yolo11",
+    task: "detect",
+    labels: COCO_CLASS_NAMES,
+  },
+  {
+    id: "yolo11n-seg-coco",
+    name: "YOLO11n-seg (COCO)",
+    version: "1",
+    url: "/models/yolo11n-seg.onnx",
+    inputSize: 640,
+    normalization: DEFAULT_NORMALIZATION,
+    outputFormat: "yolo11",
+    task: "segment",
+    labels: COCO_CLASS_NAMES,
+  },
+  {
+    id: "yolo11n-pose-coco",
+    name: "YOLO11n-pose (COCO)",
+    version: "1",
+    url: "/models/yolo11n-pose.onnx",
+    inputSize: 640,
+    normalization: DEFAULT_NORMALIZATION,
+    outputFormat: "yolo11",
+    task: "pose",
+    keypoints: 17,
+    labels: ["person"],
+  },
+];
+
+export const DEFAULT_MODEL_ID = BUILTIN_MODELS[0].id;
+
+// Checks a parsed manifest and fills defaults; throws on bad input
+export function parseModelManifest(
+  json: any,
+  baseUrl = location.href,
+): ModelManifest {
+  if (!json || typeof json !== "object") {
+    throw new Error("Model manifest is not an object");
+  }
+  if (typeof json.id !== "string" || !json.id) {
+    throw new Error("Model manifest has no id");
+  }
+  if (typeof json.url !== "string") {
+    throw new Error(`Model manifest "${json.id}" has no url`);
+  }
+  if (!OUTPUT_FORMATS.includes(json.outputFormat)) {
+    throw new Error(
+      `Model manifest "${json.id}": unknown outputFormat ${json.outputFormat}`,
+    );
+  }
+  const task = json.task ?? "detect";
+  if (!TASKS.includes(task)) {
+    throw new Error(`Model manifest "${json.id}": unknown task ${task}`);
+  }
+  if (task !== "detect" && !["yolov8", "yolo11"].includes(json.outputFormat)) {
+    throw new Error(
+      `Model manifest "${json.id}": task ${task} needs yolov8 / yolo11 output`,
+    );
+  }
+  if (!Array.isArray(json.labels) && typeof json.labels !== "string") {
+    throw new Error(`Model manifest "${json.id}" has no labels`);
+  }
+
+  const resolve = (url: string) => new URL(url, baseUrl).href;
+
+  return {
+    id: json.id,
+    name: json.name ?? json.id,
+    version: String(json.version ?? "1"),
+    url: resolve(json.url),
+    inputSize: json.inputSize ?? 640,
+    normalization: json.normalization ?? DEFAULT_NORMALIZATION,
+    outputFormat: json.outputFormat,
+    task,
+    ...(task === "pose" ? { keypoints: json.keypoints ?? 17 } : {}),
+    labels:
+      typeof json.labels === "string" ? resolve(json.labels) : json.labels,
+  };
+}
+
+export async function loadModelLabels(
+  manifest: ModelManifest,
+): Promise<string[]> {
+  if (Array.isArray(manifest.labels)) return manifest.labels;
+
+  const res = await fetch(manifest.labels);
+  if (!res.ok) {
+    throw new Error(`Labels fetch failed (${res.status}): ${manifest.labels}`);
+  }
+
+  const text = await res.text();
+  if (manifest.labels.endsWith(".json")) {
+    const labels = JSON.parse(text);
+    if (!Array.isArray(labels)) {
+      throw new Error(`Labels file is not a JSON array: ${manifest.labels}`);
+    }
+    return labels.map(String);
+  }
+
+  return text
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter((l) => l.length > 0);
+}
+
+export class ModelRegistry {
+  private models = new Map<string, ModelManifest>();
+
+  constructor(models: ModelManifest[] = BUILTIN_MODELS) {
+    for (const m of models) this.register(m);
+  }
+
+  register(manifest: ModelManifest) {
+    if (this.models.has(manifest.id)) {
+      console.log("[ModelRegistry] Replacing model", manifest.id);
+    }
+    this.models.set(manifest.id, manifest);
+  }
+
+  get(id: string): ModelManifest | null {
+    return this.models.get(id) ?? null;
+  }
+
+  list(): ModelManifest[] {
+    return [...this.models.values()];
+  }
+
+  // Registers (and returns) the manifest found at url
+  async fetch(url: string): Promise<ModelManifest> {
+    const absolute = new URL(url, location.href).href;
+    const res = await fetch(absolute);
+    if (!res.ok) {
+      throw new Error(`Model manifest fetch failed (${res.status}): ${url}`);
+    }
+
+    const manifest = parseModelManifest(await res.json(), absolute);
+    this.register(manifest);
+    return manifest;
+  }
+}
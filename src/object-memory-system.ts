@@ -0,0 +1,736 @@
+// object-memory-system.ts
+//
+// Spatial object memory (object-memory.ts) fed from the placed detection
+// batches: confirmed tracks with a surface hit update their record's
+// position and confidence, and a crop of the frame (globals.detectionFrame)
+// becomes a thumbnail every `thumbnailInterval` seconds. Records are written
+// to IndexedDB and loaded again in later sessions.
+//
+// Positions are kept relative to one persistent XRAnchor (the memory
+// origin), restored at session start; without anchor support they are
+// plain refSpace coordinates. An origin that is not located within
+// ORIGIN_LOCATE_TIMEOUT is replaced by a new one (then by refSpace), and
+// the panel's status line says so.
+//
+// Search panel: left trigger opens / closes it next to the camera panel.
+// It lists the remembered labels; picking one shows where and when that
+// object was last seen (newest first, with thumbnails), and picking a
+// result highlights that spot in the room with an arrow pointing at it.
+// globals.objectMemory does the same from code: search("where is my cup").
+
+import { createSystem, Types } from "@iwsdk/core";
+import * as THREE from "three";
+import { DetectionOverlay } from "./detection-overlay";
+import { createLabelMesh, updateLabelMesh } from "./label-mesh";
+import {
+  ObjectMemory,
+  ObjectMemoryStore,
+  ObjectRecord,
+  searchRecords,
+} from "./object-memory";
+import { BoxUv, MultiObjectTracker } from "./tracker";
+
+const TOGGLE_BUTTON_INDEX = 0; // trigger on the left Quest controller
+const ORIGIN_STORAGE_KEY = "questcam2ar.memoryOrigin";
+const ORIGIN_LOCATE_TIMEOUT = 10; // s before a pending origin is given up
+const PERSIST_INTERVAL = 2; // s between IndexedDB writes
+const THUMBNAIL_SIZE = 128; // px, longer side
+const THUMBNAIL_PADDING = 0.1; // of the box size, each side
+
+// search panel
+const PANEL_PX = 1024;
+const PANEL_SIZE_M = 0.45;
+const PANEL_DISTANCE = 0.9; // m in front of the head when opened
+const PANEL_SIDE_OFFSET = 0.6; // m to the left of the view direction
+const PANEL_REFRESH = 1; // s, "seen ... ago" lines
+const MAX_CHIPS = 12;
+const CHIP_COLUMNS = 4;
+const MAX_RESULTS = 4;
+
+// highlight
+const MARKER_RADIUS = 0.12; // m
+const POINTER_DISTANCE = 0.6; // m in front of the head
+const POINTER_DROP = 0.15; // m below the view direction
+const POINTER_HIDE_ANGLE = THREE.MathUtils.degToRad(20); // target in view
+
+type OriginState = "pending" | "anchored" | "unanchored";
+
+type PanelRegion = {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  action: () => void;
+};
+
+export type ObjectMemoryResult = {
+  id: string;
+  label: string;
+  classId: number;
+  position: THREE.Vector3; // refSpace, this session
+  lastSeen: number; // Date.now()
+  confidence: number;
+  sightings: number;
+  thumbnail: Blob | null; // newest
+};
+
+export class ObjectMemorySystem extends createSystem(
+  {},
+  {
+    minScore: { type: Types.Float32, default: 0.5 },
+    thumbnailInterval: { type: Types.Float32, default: 10 }, // s per object
+  },
+) {
+  private memory = new ObjectMemory();
+  private store = new ObjectMemoryStore();
+  private loaded = false; // stored records merged in (or load failed)
+  private started = false;
+  private persistTime = 0;
+
+  private originState: OriginState = "pending";
+  private originAnchor: XRAnchor | null = null;
+  private originCreateRequested = false;
+  private originPendingTime = 0; // s the current origin has been pending
+  private originReplaced = false; // the stored origin was not found
+  private origin = new THREE.Matrix4(); // refSpace <- memory origin
+  private originInverse = new THREE.Matrix4();
+
+  private lastOverlayFrame = 0;
+  private pendingThumbnails = new Set<string>(); // record ids
+
+  private prevToggle = false;
+  private prevTrigger = false;
+  private raycaster = new THREE.Raycaster();
+
+  private panel: THREE.Mesh | null = null;
+  private ctx: CanvasRenderingContext2D | null = null;
+  private query: string | null = null; // selected label
+  private regions: PanelRegion[] = [];
+  private panelDirty = true;
+  private panelAge = 0;
+  private thumbnailImages = new WeakMap<Blob, ImageBitmap | null>();
+
+  private highlightId: string | null = null;
+  private marker: THREE.Group | null = null;
+  private markerLabel: THREE.Mesh | null = null;
+  private pointer: THREE.Mesh | null = null;
+
+  init() {
+    (this.globals as any).objectMemory = {
+      search: (query: string) => this.search(query),
+      // Newest sighting matching the query, or null
+      where: (query: string) => this.search(query)[0] ?? null,
+      records: () => this.search(""),
+      highlight: (id: string | null) => this.setHighlight(id),
+      forget: (id: string) => {
+        this.memory.remove(id);
+        if (this.highlightId === id) this.setHighlight(null);
+        this.panelDirty = true;
+      },
+      clear: () => {
+        this.memory.clear();
+        this.setHighlight(null);
+        this.panelDirty = true;
+      },
+      showPanel: (on: boolean) => this.showPanel(on),
+    };
+  }
+
+  update(dt: number) {
+    const xrMgr: any = this.xrManager;
+    const session: XRSession | null = xrMgr.getSession?.() ?? null;
+    const frame = this.xrFrame as XRFrame | null;
+    const refSpace: XRReferenceSpace | null =
+      xrMgr.getReferenceSpace?.() ?? null;
+    if (!session || !frame || !refSpace) return;
+
+    if (!this.started) {
+      this.started = true;
+      this.loadRecords();
+      this.restoreOrigin(session);
+    }
+
+    this.updateOrigin(frame, refSpace, dt);
+    if (this.loaded && this.originState !== "pending") this.observe();
+
+    this.persistTime += dt;
+    if (this.persistTime >= PERSIST_INTERVAL) {
+      this.persistTime = 0;
+      this.persist();
+    }
+
+    this.handleInput(session, frame, refSpace);
+    this.updatePanel(dt);
+    this.updateHighlight();
+  }
+
+  // ---------------- memory origin ----------------
+
+  private async restoreOrigin(session: XRSession) {
+    const uuid = localStorage.getItem(ORIGIN_STORAGE_KEY);
+    const restore = (session as any).restorePersistentAnchor;
+
+    if (uuid && restore) {
+      try {
+        const anchor: XRAnchor = await restore.call(session, uuid);
+        if (this.originReplaced) {
+          anchor.delete(); // timed out meanwhile; a new origin is in use
+          return;
+        }
+        this.originAnchor = anchor;
+        return; // anchored once it is located
+      } catch (e) {
+        console.warn("[ObjectMemory] Could not restore the memory origin", e);
+      }
+    }
+    if (this.originReplaced) return;
+    if (uuid) this.originReplaced = true;
+    if (this.memory.size) {
+      console.warn(
+        "[ObjectMemory] Stored positions may be off: new memory origin",
+      );
+    }
+    this.originCreateRequested = true;
+  }
+
+  private updateOrigin(
+    frame: XRFrame,
+    refSpace: XRReferenceSpace,
+    dt: number,
+  ) {
+    if (this.originCreateRequested) {
+      this.originCreateRequested = false;
+      this.originPendingTime = 0;
+      this.createOrigin(frame, refSpace);
+    }
+
+    if (this.originState === "pending") {
+      this.originPendingTime += dt;
+      if (this.originPendingTime >= ORIGIN_LOCATE_TIMEOUT) {
+        this.originLocateTimedOut();
+        return;
+      }
+    }
+
+    if (!this.originAnchor) return;
+    const pose = frame.getPose(this.originAnchor.anchorSpace, refSpace);
+    if (!pose) return;
+
+    this.origin.fromArray(pose.transform.matrix);
+    this.originInverse.copy(this.origin).invert();
+    if (this.originState === "pending") {
+      this.originState = "anchored";
+      console.log("[ObjectMemory] Memory origin located");
+    }
+  }
+
+  // Stored origin never located: start a new one; a new one that is not
+  // located either: plain refSpace
+  private originLocateTimedOut() {
+    this.originAnchor?.delete();
+    this.originAnchor = null;
+    this.originPendingTime = 0;
+
+    if (!this.originReplaced) {
+      this.originReplaced = true;
+      console.warn("[ObjectMemory] Memory origin not located; new origin");
+      this.originCreateRequested = true;
+    } else {
+      console.warn("[ObjectMemory] Memory origin not located; using refSpace");
+      this.originState = "unanchored";
+    }
+    this.panelDirty = true;
+  }
+
+  // Anchor at the refSpace origin, persisted for the next sessions
+  private async createOrigin(frame: XRFrame, refSpace: XRReferenceSpace) {
+    if (!frame.createAnchor) {
+      this.originState = "unanchored";
+      return;
+    }
+
+    try {
+      const anchor = await frame.createAnchor(new XRRigidTransform(), refSpace);
+      if (!anchor) throw new Error("no anchor");
+      if (this.originState !== "pending") {
+        anchor.delete(); // timed out meanwhile
+        return;
+      }
+      this.originAnchor = anchor;
+
+      const uuid = await (anchor as any).requestPersistentHandle?.();
+      if (!uuid) return;
+
+      // The replaced origin would keep one of the device's anchor slots
+      const old = localStorage.getItem(ORIGIN_STORAGE_KEY);
+      if (old && old !== uuid) {
+        const session: any = frame.session;
+        session.deletePersistentAnchor?.(old)?.catch?.(() => {});
+      }
+      localStorage.setItem(ORIGIN_STORAGE_KEY, uuid);
+    } catch (e) {
+      console.warn("[ObjectMemory] No memory origin anchor; using refSpace", e);
+      this.originAnchor = null;
+      this.originState = "unanchored";
+    }
+  }
+
+  private toWorld(position: [number, number, number]): THREE.Vector3 {
+    return new THREE.Vector3(...position).applyMatrix4(this.origin);
+  }
+
+  // ---------------- records ----------------
+
+  private async loadRecords() {
+    try {
+      const records = await this.store.loadAll();
+      this.memory.load(records);
+      console.log("[ObjectMemory] Loaded", records.length, "objects");
+    } catch (e) {
+      console.warn("[ObjectMemory] IndexedDB unavailable; session only", e);
+    }
+    this.loaded = true;
+    this.panelDirty = true;
+  }
+
+  private persist() {
+    this.store.write(this.memory.takeDirty()).catch((e) => {
+      console.warn("[ObjectMemory] Could not save objects", e);
+    });
+  }
+
+  // Confirmed, surface-placed items of each new batch
+  private observe() {
+    const globals = this.globals as any;
+    const overlay: DetectionOverlay | null = globals.detectionOverlay ?? null;
+    if (!overlay || overlay.frameId === this.lastOverlayFrame) return;
+    this.lastOverlayFrame = overlay.frameId;
+
+    const tracker: MultiObjectTracker | undefined = globals.tracker;
+    const snapshot = globals.detectionFrame;
+    const image: HTMLCanvasElement | null =
+      snapshot?.frameId === overlay.frameId ? snapshot.image : null;
+    const minScore = this.config.minScore.peek();
+    const thumbnailMs = this.config.thumbnailInterval.peek() * 1000;
+    const now = Date.now();
+
+    for (const item of overlay.items) {
+      if (item.trackId === null || !item.confirmed || !item.surface) continue;
+      if (item.score < minScore) continue;
+
+      // Filtered track position when there is one
+      const world = tracker?.get(item.trackId)?.worldPos ?? item.worldPoint;
+      if (!world) continue;
+
+      const record = this.memory.observe({
+        trackId: item.trackId,
+        classId: item.classId,
+        label: item.label,
+        score: item.score,
+        position: world.clone().applyMatrix4(this.originInverse),
+        time: now,
+      });
+
+      if (
+        image &&
+        now - record.thumbnailTime >= thumbnailMs &&
+        !this.pendingThumbnails.has(record.id)
+      ) {
+        this.captureThumbnail(record.id, image, item.box, now);
+      }
+    }
+    this.panelDirty = true;
+  }
+
+  private captureThumbnail(
+    id: string,
+    image: HTMLCanvasElement,
+    box: BoxUv,
+    time: number,
+  ) {
+    const w = box.w * (1 + 2 * THUMBNAIL_PADDING) * image.width;
+    const h = box.h * (1 + 2 * THUMBNAIL_PADDING) * image.height;
+    const x = Math.max(0, box.cx * image.width - w / 2);
+    const y = Math.max(0, box.cy * image.height - h / 2);
+    const sw = Math.min(w, image.width - x);
+    const sh = Math.min(h, image.height - y);
+    if (sw < 2 || sh < 2) return;
+
+    const scale = THUMBNAIL_SIZE / Math.max(sw, sh);
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(sw * scale));
+    canvas.height = Math.max(1, Math.round(sh * scale));
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.drawImage(image, x, y, sw, sh, 0, 0, canvas.width, canvas.height);
+
+    this.pendingThumbnails.add(id);
+    canvas.toBlob(
+      (blob) => {
+        this.pendingThumbnails.delete(id);
+        if (!blob) return;
+        this.memory.addThumbnail(id, blob, time);
+        this.panelDirty = true;
+      },
+      "image/jpeg",
+      0.8,
+    );
+  }
+
+  private search(query: string): ObjectMemoryResult[] {
+    return searchRecords(this.memory.list(), query).map((r) =>
+      this.toResult(r),
+    );
+  }
+
+  private toResult(r: ObjectRecord): ObjectMemoryResult {
+    return {
+      id: r.id,
+      label: r.label,
+      classId: r.classId,
+      position: this.toWorld(r.position),
+      lastSeen: r.lastSeen,
+      confidence: r.confidence,
+      sightings: r.sightings,
+      thumbnail: r.thumbnails[0] ?? null,
+    };
+  }
+
+  // ---------------- input ----------------
+
+  private handleInput(
+    session: XRSession,
+    frame: XRFrame,
+    refSpace: XRReferenceSpace,
+  ) {
+    let toggle = false;
+    let rightController: XRInputSource | null = null;
+    for (const inputSource of session.inputSources) {
+      if (inputSource.targetRayMode !== "tracked-pointer") continue;
+      if (inputSource.handedness === "left") {
+        toggle = !!inputSource.gamepad?.buttons?.[TOGGLE_BUTTON_INDEX]?.pressed;
+      } else {
+        rightController = inputSource;
+      }
+    }
+
+    if (toggle && !this.prevToggle) this.showPanel(!this.panel?.visible);
+    this.prevToggle = toggle;
+
+    const trigger = !!rightController?.gamepad?.buttons?.[0]?.pressed;
+    const triggerDown = trigger && !this.prevTrigger;
+    this.prevTrigger = trigger;
+    if (!triggerDown || !rightController || !this.panel?.visible) return;
+
+    const pose = frame.getPose(rightController.targetRaySpace, refSpace);
+    if (!pose) return;
+    const { position: p, orientation: o } = pose.transform;
+    const quat = new THREE.Quaternion(o.x, o.y, o.z, o.w);
+    this.raycaster.set(
+      new THREE.Vector3(p.x, p.y, p.z),
+      new THREE.Vector3(0, 0, -1).applyQuaternion(quat),
+    );
+
+    const hit = this.raycaster.intersectObject(this.panel, false)[0];
+    if (hit?.uv) {
+      this.clickPanel(hit.uv.x * PANEL_PX, (1 - hit.uv.y) * PANEL_PX);
+    }
+  }
+
+  private clickPanel(x: number, y: number) {
+    const region = this.regions.find(
+      (r) => x >= r.x && x <= r.x + r.w && y >= r.y && y <= r.y + r.h,
+    );
+    region?.action();
+    this.panelDirty = true;
+  }
+
+  // ---------------- search panel ----------------
+
+  private showPanel(on: boolean) {
+    if (on) this.ensurePanel();
+    if (!this.panel) return;
+    this.panel.visible = on;
+    if (!on) return;
+
+    // Beside the view direction, level, facing the head
+    const camera = this.camera as THREE.Camera;
+    const head = new THREE.Vector3();
+    const forward = new THREE.Vector3();
+    camera.getWorldPosition(head);
+    camera.getWorldDirection(forward);
+    forward.y = 0;
+    if (forward.lengthSq() < 1e-6) forward.set(0, 0, -1);
+    forward.normalize();
+    const left = new THREE.Vector3(forward.z, 0, -forward.x);
+
+    this.panel.position
+      .copy(head)
+      .addScaledVector(forward, PANEL_DISTANCE)
+      .addScaledVector(left, PANEL_SIDE_OFFSET);
+    this.panel.lookAt(head.x, this.panel.position.y, head.z);
+    this.panelDirty = true;
+  }
+
+  private ensurePanel() {
+    if (this.panel) return;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = PANEL_PX;
+    canvas.height = PANEL_PX;
+    this.ctx = canvas.getContext("2d");
+
+    const texture = new THREE.CanvasTexture(canvas);
+    this.panel = new THREE.Mesh(
+      new THREE.PlaneGeometry(PANEL_SIZE_M, PANEL_SIZE_M),
+      new THREE.MeshBasicMaterial({ map: texture, transparent: true }),
+    );
+    this.panel.name = "ObjectMemoryPanel";
+    this.panel.visible = false;
+    (this.scene as THREE.Scene).add(this.panel);
+  }
+
+  private updatePanel(dt: number) {
+    if (!this.panel?.visible || !this.ctx) return;
+
+    this.panelAge += dt;
+    if (!this.panelDirty && this.panelAge < PANEL_REFRESH) return;
+    this.panelDirty = false;
+    this.panelAge = 0;
+
+    this.drawPanel(this.ctx);
+    const material = this.panel.material as THREE.MeshBasicMaterial;
+    material.map!.needsUpdate = true;
+  }
+
+  private drawPanel(ctx: CanvasRenderingContext2D) {
+    const records = this.memory.list();
+    this.regions = [];
+
+    ctx.clearRect(0, 0, PANEL_PX, PANEL_PX);
+    ctx.fillStyle = "rgba(9, 9, 11, 0.9)";
+    ctx.fillRect(0, 0, PANEL_PX, PANEL_PX);
+    ctx.textBaseline = "top";
+
+    ctx.fillStyle = "#fafafa";
+    ctx.font = "48px sans-serif";
+    ctx.fillText("Object memory", 32, 28);
+    ctx.fillStyle = "#a1a1aa";
+    ctx.font = "28px sans-serif";
+    const origin =
+      this.originState === "pending"
+        ? "locating origin…"
+        : this.originState === "unanchored"
+          ? "not anchored"
+          : this.originReplaced
+            ? "new origin, older positions may be off"
+            : "anchored";
+    ctx.fillText(`${records.length} objects · ${origin}`, 32, 86);
+
+    // Label chips, most recently seen first
+    const labels = [...new Set(records.map((r) => r.label))].slice(
+      0,
+      MAX_CHIPS,
+    );
+    const chipW = (PANEL_PX - 64 - (CHIP_COLUMNS - 1) * 12) / CHIP_COLUMNS;
+    labels.forEach((label, i) => {
+      const x = 32 + (i % CHIP_COLUMNS) * (chipW + 12);
+      const y = 140 + Math.floor(i / CHIP_COLUMNS) * 72;
+      const selected = label === this.query;
+
+      ctx.fillStyle = selected ? "#fafafa" : "#27272a";
+      ctx.fillRect(x, y, chipW, 60);
+      ctx.fillStyle = selected ? "#09090b" : "#fafafa";
+      ctx.font = "30px sans-serif";
+      ctx.fillText(fitText(ctx, label, chipW - 24), x + 12, y + 14);
+
+      this.regions.push({
+        x,
+        y,
+        w: chipW,
+        h: 60,
+        action: () => {
+          this.query = selected ? null : label;
+        },
+      });
+    });
+
+    if (!records.length) {
+      ctx.fillStyle = "#a1a1aa";
+      ctx.fillText("Nothing remembered yet", 32, 160);
+      return;
+    }
+
+    // Results: where / when the selected label (or anything) was last seen
+    const head = new THREE.Vector3();
+    (this.camera as THREE.Camera).getWorldPosition(head);
+    const now = Date.now();
+    const results = searchRecords(records, this.query ?? "").slice(
+      0,
+      MAX_RESULTS,
+    );
+
+    results.forEach((r, i) => {
+      const y = 380 + i * 156;
+      const selected = r.id === this.highlightId;
+
+      ctx.fillStyle = selected ? "#1e3a8a" : "#18181b";
+      ctx.fillRect(32, y, PANEL_PX - 64, 144);
+
+      const thumb = this.thumbnailImage(r.thumbnails[0]);
+      if (thumb) {
+        const s = 128 / Math.max(thumb.width, thumb.height);
+        ctx.drawImage(thumb, 40, y + 8, thumb.width * s, thumb.height * s);
+      } else {
+        ctx.fillStyle = "#27272a";
+        ctx.fillRect(40, y + 8, 128, 128);
+      }
+
+      const distance = this.toWorld(r.position).distanceTo(head);
+      ctx.fillStyle = "#fafafa";
+      ctx.font = "36px sans-serif";
+      ctx.fillText(r.label, 192, y + 16);
+      ctx.fillStyle = "#a1a1aa";
+      ctx.font = "28px sans-serif";
+      ctx.fillText(
+        `seen ${formatAgo(now - r.lastSeen)} · ${distance.toFixed(1)} m away`,
+        192,
+        y + 64,
+      );
+      ctx.fillText(
+        `${Math.round(r.confidence * 100)}% · ${r.sightings} sightings`,
+        192,
+        y + 100,
+      );
+
+      this.regions.push({
+        x: 32,
+        y,
+        w: PANEL_PX - 64,
+        h: 144,
+        action: () => this.setHighlight(selected ? null : r.id),
+      });
+    });
+  }
+
+  // Decoded thumbnail, or null while it is being decoded
+  private thumbnailImage(blob: Blob | undefined): ImageBitmap | null {
+    if (!blob) return null;
+    if (this.thumbnailImages.has(blob)) return this.thumbnailImages.get(blob)!;
+
+    this.thumbnailImages.set(blob, null);
+    createImageBitmap(blob)
+      .then((image) => {
+        this.thumbnailImages.set(blob, image);
+        this.panelDirty = true;
+      })
+      .catch(() => {});
+    return null;
+  }
+
+  // ---------------- highlight ----------------
+
+  private setHighlight(id: string | null) {
+    this.highlightId = id && this.memory.get(id) ? id : null;
+    this.panelDirty = true;
+    if (!this.highlightId) return;
+
+    const record = this.memory.get(this.highlightId)!;
+    this.ensureHighlight();
+    updateLabelMesh(
+      this.markerLabel!,
+      `${record.label} · ${formatAgo(Date.now() - record.lastSeen)}`,
+    );
+    console.log("[ObjectMemory] Highlight", record.label, record.id);
+  }
+
+  private ensureHighlight() {
+    if (this.marker) return;
+    const scene = this.scene as THREE.Scene;
+
+    this.marker = new THREE.Group();
+    this.marker.name = "ObjectMemoryMarker";
+    const ring = new THREE.Mesh(
+      new THREE.RingGeometry(MARKER_RADIUS * 0.8, MARKER_RADIUS, 48),
+      new THREE.MeshBasicMaterial({
+        color: 0xfacc15,
+        side: THREE.DoubleSide,
+        transparent: true,
+        depthTest: false,
+      }),
+    );
+    ring.name = "ObjectMemoryRing";
+    this.marker.add(ring);
+
+    this.markerLabel = createLabelMesh("", {
+      background: "rgba(120, 90, 0, 0.85)",
+      name: "ObjectMemoryLabel",
+    });
+    this.markerLabel.position.y = MARKER_RADIUS + 0.06;
+    this.marker.add(this.markerLabel);
+    scene.add(this.marker);
+
+    this.pointer = new THREE.Mesh(
+      new THREE.ConeGeometry(0.02, 0.07, 16),
+      new THREE.MeshBasicMaterial({ color: 0xfacc15, depthTest: false }),
+    );
+    this.pointer.name = "ObjectMemoryPointer";
+    scene.add(this.pointer);
+  }
+
+  private updateHighlight() {
+    if (!this.marker || !this.pointer) return;
+
+    const record = this.highlightId ? this.memory.get(this.highlightId) : null;
+    this.marker.visible = !!record;
+    this.pointer.visible = false;
+    if (!record) return;
+
+    const camera = this.camera as THREE.Camera;
+    const head = new THREE.Vector3();
+    const forward = new THREE.Vector3();
+    camera.getWorldPosition(head);
+    camera.getWorldDirection(forward);
+
+    // Pulsing ring facing the head
+    const target = this.toWorld(record.position);
+    this.marker.position.copy(target);
+    this.marker.lookAt(head);
+    const pulse = 1 + 0.15 * Math.sin(performance.now() / 200);
+    this.marker.children[0].scale.setScalar(pulse);
+
+    // Arrow in front of the head while the spot is out of view
+    const toTarget = target.clone().sub(head);
+    if (toTarget.angleTo(forward) < POINTER_HIDE_ANGLE) return;
+
+    this.pointer.position
+      .copy(head)
+      .addScaledVector(forward, POINTER_DISTANCE)
+      .add(new THREE.Vector3(0, -POINTER_DROP, 0));
+    const dir = target.sub(this.pointer.position).normalize();
+    this.pointer.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), dir);
+    this.pointer.visible = true;
+  }
+}
+
+function formatAgo(ms: number): string {
+  const s = Math.max(0, ms / 1000);
+  if (s < 10) return "just now";
+  if (s < 60) return `${Math.round(s)} s ago`;
+  if (s < 3600) return `${Math.round(s / 60)} min ago`;
+  if (s < 86400) return `${Math.round(s / 3600)} h ago`;
+  return `${Math.round(s / 86400)} days ago`;
+}
+
+function fitText(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  maxWidth: number,
+): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let t = text;
+  while (t.length > 1 && ctx.measureText(t + "…").width > maxWidth) {
+    t = t.slice(0, -1);
+  }
+  return t + "…";
+}
@@ -0,0 +1,334 @@
+// object-memory.ts
+//
+// Spatial object memory: confirmed tracks merged over time into long-lived
+// records (class, last-seen position, confidence, thumbnails), kept in
+// IndexedDB across sessions.
+//   - a record follows the track it was matched to; a new track joins the
+//     nearest record of the same label within MERGE_RADIUS, else starts one,
+//   - a record is written back only when a stored field changes: a new
+//     track (sighting), a move beyond POSITION_EPSILON, or lastSeen moving
+//     on by LAST_SEEN_STEP; thumbnails are stored apart from the records,
+//   - positions are stored in the memory origin frame (a persistent anchor,
+//     see ObjectMemorySystem), so they survive re-centering between sessions,
+//   - searchRecords() answers label queries and free text ("where did I last
+//     see my cup"), newest sighting first.
+
+import * as THREE from "three";
+
+const DB_NAME = "questcam2ar-memory";
+const DB_VERSION = 2;
+const STORE_NAME = "objects";
+const THUMBNAIL_STORE_NAME = "thumbnails"; // by record id (since v2)
+
+const MERGE_RADIUS = 0.35; // m, same label closer than this = same object
+const CONFIDENCE_GAIN = 0.5; // per sighting, times the detection score
+const POSITION_EPSILON = 0.02; // m, smaller moves keep the stored position
+const LAST_SEEN_STEP = 60_000; // ms, lastSeen alone is rewritten this often
+const MAX_THUMBNAILS = 3; // newest first
+const MAX_RECORDS = 500; // least recently seen are evicted
+
+export type ObjectRecord = {
+  id: string;
+  classId: number;
+  label: string;
+  position: [number, number, number]; // memory origin frame, meters
+  firstSeen: number; // Date.now()
+  lastSeen: number;
+  sightings: number; // tracks the object was seen as
+  confidence: number; // 0..1, grows with sightings
+  thumbnails: Blob[]; // JPEG crops, newest first
+  thumbnailTime: number; // Date.now() of the newest thumbnail (0 = none)
+};
+
+// Changes to write back (see ObjectMemory.takeDirty)
+export type ObjectMemoryChanges = {
+  put: ObjectRecord[]; // record fields
+  thumbnails: ObjectRecord[]; // thumbnails + thumbnailTime
+  removed: string[];
+};
+
+export type MemorySighting = {
+  trackId: number;
+  classId: number;
+  label: string;
+  score: number;
+  position: THREE.Vector3; // memory origin frame
+  time: number; // Date.now()
+};
+
+export class ObjectMemory {
+  private records = new Map<string, ObjectRecord>();
+  private byTrack = new Map<number, string>(); // this session's track ids
+  private dirty = new Set<string>(); // changed since takeDirty()
+  private dirtyThumbnails = new Set<string>();
+  private removed = new Set<string>();
+  private writtenSeen = new Map<string, number>(); // lastSeen as stored
+
+  get size(): number {
+    return this.records.size;
+  }
+
+  get(id: string): ObjectRecord | undefined {
+    return this.records.get(id);
+  }
+
+  list(): ObjectRecord[] {
+    return [...this.records.values()].sort((a, b) => b.lastSeen - a.lastSeen);
+  }
+
+  // Records loaded from storage (not marked dirty)
+  load(records: ObjectRecord[]) {
+    for (const r of records) {
+      this.records.set(r.id, r);
+      this.writtenSeen.set(r.id, r.lastSeen);
+    }
+  }
+
+  observe(s: MemorySighting): ObjectRecord {
+    let record = this.recordForTrack(s.trackId);
+    if (!record || record.label !== s.label) {
+      record = this.nearest(s.label, s.position, MERGE_RADIUS);
+    }
+
+    if (!record) {
+      record = {
+        id: newRecordId(),
+        classId: s.classId,
+        label: s.label,
+        position: s.position.toArray() as [number, number, number],
+        firstSeen: s.time,
+        lastSeen: s.time,
+        sightings: 0,
+        confidence: 0,
+        thumbnails: [],
+        thumbnailTime: 0,
+      };
+      this.records.set(record.id, record);
+      this.evict();
+    }
+
+    // A sighting is a track joining the record; later batches of that
+    // track only move it and refresh lastSeen
+    if (this.byTrack.get(s.trackId) !== record.id) {
+      this.byTrack.set(s.trackId, record.id);
+      record.sightings++;
+      record.confidence =
+        1 - (1 - record.confidence) * (1 - CONFIDENCE_GAIN * s.score);
+      this.dirty.add(record.id);
+    }
+
+    const stored = new THREE.Vector3(...record.position);
+    if (s.position.distanceTo(stored) > POSITION_EPSILON) {
+      record.position = s.position.toArray() as [number, number, number];
+      this.dirty.add(record.id);
+    }
+
+    if (s.time > record.lastSeen) {
+      record.lastSeen = s.time;
+      const written = this.writtenSeen.get(record.id) ?? 0;
+      if (s.time - written >= LAST_SEEN_STEP) this.dirty.add(record.id);
+    }
+    return record;
+  }
+
+  recordForTrack(trackId: number): ObjectRecord | undefined {
+    const id = this.byTrack.get(trackId);
+    return id ? this.records.get(id) : undefined;
+  }
+
+  addThumbnail(id: string, thumbnail: Blob, time: number) {
+    const record = this.records.get(id);
+    if (!record) return;
+    record.thumbnails = [thumbnail, ...record.thumbnails].slice(
+      0,
+      MAX_THUMBNAILS,
+    );
+    record.thumbnailTime = time;
+    this.dirtyThumbnails.add(id);
+  }
+
+  remove(id: string) {
+    if (!this.records.delete(id)) return;
+    this.dirty.delete(id);
+    this.dirtyThumbnails.delete(id);
+    this.writtenSeen.delete(id);
+    this.removed.add(id);
+    for (const [trackId, recordId] of this.byTrack) {
+      if (recordId === id) this.byTrack.delete(trackId);
+    }
+  }
+
+  clear() {
+    for (const id of this.records.keys()) this.removed.add(id);
+    this.records.clear();
+    this.byTrack.clear();
+    this.dirty.clear();
+    this.dirtyThumbnails.clear();
+    this.writtenSeen.clear();
+  }
+
+  // Changes to write back since the last call
+  takeDirty(): ObjectMemoryChanges {
+    const records = (ids: Set<string>) =>
+      [...ids]
+        .map((id) => this.records.get(id))
+        .filter((r): r is ObjectRecord => !!r);
+    const put = records(this.dirty);
+    const thumbnails = records(this.dirtyThumbnails);
+    const removed = [...this.removed];
+    for (const r of put) this.writtenSeen.set(r.id, r.lastSeen);
+    this.dirty.clear();
+    this.dirtyThumbnails.clear();
+    this.removed.clear();
+    return { put, thumbnails, removed };
+  }
+
+  private nearest(
+    label: string,
+    position: THREE.Vector3,
+    radius: number,
+  ): ObjectRecord | undefined {
+    let best: ObjectRecord | undefined;
+    let bestDist = radius;
+    for (const r of this.records.values()) {
+      if (r.label !== label) continue;
+      const d = position.distanceTo(new THREE.Vector3(...r.position));
+      if (d <= bestDist) {
+        best = r;
+        bestDist = d;
+      }
+    }
+    return best;
+  }
+
+  private evict() {
+    if (this.records.size <= MAX_RECORDS) return;
+    const oldest = this.list().slice(MAX_RECORDS);
+    for (const r of oldest) this.remove(r.id);
+  }
+}
+
+// Records whose label is the query, part of it ("my cup" -> cup) or starts
+// with it ("cell" -> cell phone); newest sighting first. Empty = all.
+export function searchRecords(
+  records: ObjectRecord[],
+  query: string,
+): ObjectRecord[] {
+  const q = query.trim().toLowerCase();
+  const words = ` ${q.replace(/[^a-z0-9 ]+/g, " ")} `;
+
+  return records
+    .filter((r) => {
+      if (!q) return true;
+      const label = r.label.toLowerCase();
+      return words.includes(` ${label} `) || label.startsWith(q);
+    })
+    .sort((a, b) => b.lastSeen - a.lastSeen);
+}
+
+function newRecordId(): string {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `obj-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+// ---------------- IndexedDB ----------------
+
+// Stored apart, so moving a record does not rewrite its JPEGs
+type StoredThumbnails = {
+  id: string; // record id
+  thumbnails: Blob[];
+  thumbnailTime: number;
+};
+
+export class ObjectMemoryStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+          const db = req.result;
+          for (const name of [STORE_NAME, THUMBNAIL_STORE_NAME]) {
+            if (db.objectStoreNames.contains(name)) continue;
+            db.createObjectStore(name, { keyPath: "id" });
+          }
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    }
+    return this.db;
+  }
+
+  async loadAll(): Promise<ObjectRecord[]> {
+    const db = await this.open();
+    const tx = db.transaction([STORE_NAME, THUMBNAIL_STORE_NAME]);
+    const [records, thumbnails] = await Promise.all([
+      request<ObjectRecord[]>(tx.objectStore(STORE_NAME).getAll()),
+      request<StoredThumbnails[]>(
+        tx.objectStore(THUMBNAIL_STORE_NAME).getAll(),
+      ),
+    ]);
+
+    const byId = new Map(thumbnails.map((t) => [t.id, t]));
+    const loaded = records.map((r) => ({
+      ...r,
+      thumbnails: byId.get(r.id)?.thumbnails ?? r.thumbnails ?? [],
+      thumbnailTime: byId.get(r.id)?.thumbnailTime ?? r.thumbnailTime ?? 0,
+    }));
+
+    // v1 records carry their thumbnails inline: move them to their store
+    const legacy = loaded.filter((r, i) => records[i].thumbnails);
+    if (legacy.length) {
+      await this.write({ put: legacy, thumbnails: legacy, removed: [] });
+    }
+    return loaded;
+  }
+
+  async write({ put, thumbnails, removed }: ObjectMemoryChanges) {
+    if (!put.length && !thumbnails.length && !removed.length) return;
+    const db = await this.open();
+    const tx = db.transaction([STORE_NAME, THUMBNAIL_STORE_NAME], "readwrite");
+    const records = tx.objectStore(STORE_NAME);
+    const thumbs = tx.objectStore(THUMBNAIL_STORE_NAME);
+    for (const r of put) records.put(recordFields(r));
+    for (const r of thumbnails) {
+      const entry: StoredThumbnails = {
+        id: r.id,
+        thumbnails: r.thumbnails,
+        thumbnailTime: r.thumbnailTime,
+      };
+      thumbs.put(entry);
+    }
+    for (const id of removed) {
+      records.delete(id);
+      thumbs.delete(id);
+    }
+    await transactionDone(tx);
+  }
+}
+
+// A record without its thumbnails (those go to THUMBNAIL_STORE_NAME)
+function recordFields(
+  r: ObjectRecord,
+): Omit<ObjectRecord, "thumbnails" | "thumbnailTime"> {
+  const { thumbnails, thumbnailTime, ...fields } = r;
+  return fields;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
@@ -0,0 +1,353 @@
+// object-selection-system.ts
+//
+// Click a detection box on the camera panel to select that object:
+//   1) the box under the click comes from globals.panelOverlay.itemAt(),
+//      i.e. the same (head-motion aligned) boxes the panel draws,
+//   2) the box center is cast through the camera model at the current
+//      frame pose and hit-tested with globals.hitBackends,
+//   3) an XRAnchor is created at the hit with a label that stays in the
+//      room; where supported the anchor is persisted and restored, label
+//      included, in later sessions.
+// Other systems read globals.selectedObject; globals.objectSelection lists
+// and removes anchored labels. Clicks are ignored while a calibration or
+// benchmark run owns the panel.
+
+import { createSystem } from "@iwsdk/core";
+import * as THREE from "three";
+import { OverlayPick, panelOverlay } from "./detection-overlay";
+import { HitBackendRegistry, SurfaceHit } from "./hit-backends";
+import { createLabelMesh, disposeLabelMesh } from "./label-mesh";
+import { panelMode } from "./panel-mode";
+import { imageUvToRay } from "./panel-ray";
+
+const ANCHORS_STORAGE_KEY = "questcam2ar.objectAnchors";
+const FALLBACK_DISTANCE = 2.0; // meters along the ray when nothing is hit
+const LABEL_LIFT = 0.08; // label above the anchor (m)
+const LABEL_BACKGROUND = "rgba(0, 90, 160, 0.8)";
+
+type TapHitState = {
+  lastTapUv: { u: number; v: number } | null;
+};
+
+// What is saved per persisted anchor
+type StoredAnchor = {
+  uuid: string;
+  label: string;
+  classId: number;
+  createdAt: number; // Date.now()
+};
+
+type AnchoredObject = {
+  id: number;
+  trackId: number | null; // null for anchors restored from storage
+  label: string;
+  classId: number;
+  point: THREE.Vector3; // refSpace; updated from the anchor pose
+  anchor: XRAnchor | null; // null until created / when unsupported
+  uuid: string | null; // persistent handle
+  createdAt: number; // Date.now()
+  mesh: THREE.Mesh;
+};
+
+export type SelectedObject = {
+  trackId: number;
+  classId: number;
+  label: string;
+  score: number;
+  point: THREE.Vector3;
+  hit: SurfaceHit | null; // null = FALLBACK_DISTANCE along the ray
+  anchor: XRAnchor | null;
+  time: number; // performance.now() ms
+};
+
+export class ObjectSelectionSystem extends createSystem({}, {}) {
+  private lastSeenTap: { u: number; v: number } | null = null;
+  private resolving = false; // hit-test for a click still pending
+  private pendingAnchor: AnchoredObject | null = null; // next XR frame
+
+  private objects: AnchoredObject[] = [];
+  private nextId = 1;
+  private restored = false;
+  private group: THREE.Group | null = null;
+
+  init() {
+    const globals = this.globals as any;
+    globals.selectedObject = null;
+    globals.objectSelection = {
+      clear: () => {
+        globals.selectedObject = null;
+      },
+      anchors: () =>
+        this.objects.map(({ id, trackId, label, point, uuid }) => ({
+          id,
+          trackId,
+          label,
+          point: point.clone(),
+          persistent: !!uuid,
+        })),
+      remove: (id: number) => this.remove(id),
+      forgetAll: () => {
+        for (const o of [...this.objects]) this.remove(o.id);
+      },
+    };
+  }
+
+  update() {
+    const globals = this.globals as any;
+    const xrMgr: any = this.xrManager;
+    const session: XRSession | null = xrMgr.getSession?.() ?? null;
+    const frame = this.xrFrame as XRFrame | null;
+    const refSpace: XRReferenceSpace | null =
+      xrMgr.getReferenceSpace?.() ?? null;
+    if (!session || !frame || !refSpace) return;
+
+    if (!this.restored) {
+      this.restored = true;
+      this.restoreAnchors(session);
+    }
+
+    if (this.pendingAnchor) {
+      this.createAnchor(frame, refSpace, this.pendingAnchor);
+      this.pendingAnchor = null;
+    }
+
+    this.updateLabels(frame, refSpace);
+
+    // ControllerPanelTapSystem replaces lastTapUv on every click
+    const tapState: TapHitState | undefined = globals.tapHitState;
+    const tap = tapState?.lastTapUv ?? null;
+    if (!tap || tap === this.lastSeenTap) return;
+    this.lastSeenTap = tap;
+
+    if (this.resolving || panelMode(globals)) return;
+
+    const pick = panelOverlay(globals)?.itemAt(tap.u, tap.v) ?? null;
+    if (!pick) {
+      if (globals.selectedObject) console.log("[ObjectSelection] Cleared");
+      globals.selectedObject = null;
+      return;
+    }
+
+    this.resolving = true;
+    this.select(pick).finally(() => {
+      this.resolving = false;
+    });
+  }
+
+  // ---------------- selection ----------------
+
+  private async select(pick: OverlayPick) {
+    const globals = this.globals as any;
+    const { item, center } = pick;
+    if (item.trackId === null) return;
+
+    // Box center at the pose of the frame on the panel now
+    const camera = this.camera as THREE.PerspectiveCamera;
+    const viewerMat: THREE.Matrix4 =
+      globals.cameraFramePose?.matrix.clone() ?? camera.matrixWorld.clone();
+    const { ray } = imageUvToRay(
+      globals.cameraIntrinsics,
+      viewerMat,
+      camera,
+      THREE.MathUtils.clamp(center.u, 0, 1),
+      THREE.MathUtils.clamp(center.v, 0, 1),
+    );
+
+    const registry: HitBackendRegistry | undefined = globals.hitBackends;
+    const hit = registry ? await registry.raycast(ray) : null;
+    const point = hit
+      ? hit.point.clone()
+      : ray.origin.clone().addScaledVector(ray.dir, FALLBACK_DISTANCE);
+
+    // One anchored label per track: a second click moves it
+    const previous = this.objects.find((o) => o.trackId === item.trackId);
+    if (previous) this.remove(previous.id);
+
+    const object = this.addObject(item.label, item.classId, point);
+    object.trackId = item.trackId;
+    this.pendingAnchor = object;
+
+    const selected: SelectedObject = {
+      trackId: item.trackId,
+      classId: item.classId,
+      label: item.label,
+      score: item.score,
+      point,
+      hit,
+      anchor: null,
+      time: performance.now(),
+    };
+    globals.selectedObject = selected;
+
+    console.log(
+      "[ObjectSelection] Selected",
+      item.label,
+      "#" + item.trackId,
+      "at",
+      point.x.toFixed(3),
+      point.y.toFixed(3),
+      point.z.toFixed(3),
+      "surface:",
+      hit ? hit.source : "none",
+    );
+  }
+
+  // ---------------- anchors ----------------
+
+  private addObject(
+    label: string,
+    classId: number,
+    point: THREE.Vector3,
+    createdAt = Date.now(),
+  ): AnchoredObject {
+    if (!this.group) {
+      this.group = new THREE.Group();
+      this.group.name = "AnchoredObjectLabels";
+      (this.scene as THREE.Scene).add(this.group);
+    }
+
+    const mesh = createLabelMesh(label, {
+      background: LABEL_BACKGROUND,
+      name: "AnchoredObjectLabel",
+    });
+    mesh.position.set(point.x, point.y + LABEL_LIFT, point.z);
+    this.group.add(mesh);
+
+    const object: AnchoredObject = {
+      id: this.nextId++,
+      trackId: null,
+      label,
+      classId,
+      point: point.clone(),
+      anchor: null,
+      uuid: null,
+      createdAt,
+      mesh,
+    };
+    this.objects.push(object);
+    return object;
+  }
+
+  private async createAnchor(
+    frame: XRFrame,
+    refSpace: XRReferenceSpace,
+    object: AnchoredObject,
+  ) {
+    if (!frame.createAnchor) return;
+
+    const { x, y, z } = object.point;
+    try {
+      const anchor = await frame.createAnchor(
+        new XRRigidTransform({ x, y, z }),
+        refSpace,
+      );
+      if (!anchor) return;
+      if (!this.objects.includes(object)) {
+        anchor.delete(); // removed while the anchor was being created
+        return;
+      }
+      object.anchor = anchor;
+
+      const selected: SelectedObject | null = (this.globals as any)
+        .selectedObject;
+      if (selected && selected.trackId === object.trackId) {
+        selected.anchor = anchor;
+      }
+
+      const uuid = await (anchor as any).requestPersistentHandle?.();
+      if (uuid) {
+        object.uuid = uuid;
+        this.saveStoredAnchors();
+      }
+    } catch (e) {
+      // No anchors / persistence: the label still stays this session
+      console.warn("[ObjectSelection] Anchor not created or persisted", e);
+    }
+  }
+
+  private async restoreAnchors(session: XRSession) {
+    const stored = loadStoredAnchors();
+    const restore = (session as any).restorePersistentAnchor;
+    if (!stored.length || !restore) return;
+
+    for (const entry of stored) {
+      try {
+        const anchor: XRAnchor = await restore.call(session, entry.uuid);
+        const object = this.addObject(
+          entry.label,
+          entry.classId,
+          new THREE.Vector3(),
+          entry.createdAt,
+        );
+        object.anchor = anchor;
+        object.uuid = entry.uuid;
+        object.mesh.visible = false; // until the anchor is located
+      } catch (e) {
+        console.warn("[ObjectSelection] Could not restore", entry.label, e);
+      }
+    }
+
+    this.saveStoredAnchors();
+    console.log("[ObjectSelection] Restored", this.objects.length, "anchors");
+  }
+
+  private remove(id: number) {
+    const object = this.objects.find((o) => o.id === id);
+    if (!object) return;
+
+    this.objects = this.objects.filter((o) => o !== object);
+    disposeLabelMesh(object.mesh);
+    object.anchor?.delete();
+
+    const session: any = (this.xrManager as any).getSession?.();
+    if (object.uuid) {
+      session?.deletePersistentAnchor?.(object.uuid)?.catch?.(() => {});
+      this.saveStoredAnchors();
+    }
+  }
+
+  private saveStoredAnchors() {
+    const stored: StoredAnchor[] = this.objects
+      .filter((o) => o.uuid)
+      .map((o) => ({
+        uuid: o.uuid!,
+        label: o.label,
+        classId: o.classId,
+        createdAt: o.createdAt,
+      }));
+    localStorage.setItem(ANCHORS_STORAGE_KEY, JSON.stringify(stored));
+  }
+
+  // ---------------- labels ----------------
+
+  private updateLabels(frame: XRFrame, refSpace: XRReferenceSpace) {
+    if (!this.objects.length) return;
+
+    const camPos = new THREE.Vector3();
+    (this.camera as THREE.Camera).getWorldPosition(camPos);
+
+    for (const object of this.objects) {
+      if (object.anchor) {
+        const pose = frame.getPose(object.anchor.anchorSpace, refSpace);
+        if (pose) {
+          const p = pose.transform.position;
+          object.point.set(p.x, p.y, p.z);
+          object.mesh.visible = true;
+        }
+      }
+
+      const { x, y, z } = object.point;
+      object.mesh.position.set(x, y + LABEL_LIFT, z);
+      object.mesh.lookAt(camPos);
+    }
+  }
+}
+
+function loadStoredAnchors(): StoredAnchor[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(ANCHORS_STORAGE_KEY) ?? "");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,38 @@
+// panel-mode.ts
+//
+// Which mode owns the camera panel. Wizards and tools that take over panel
+// clicks (calibration, benchmark, zone drawing, dataset capture, annotation)
+// acquire the panel before they start and release it when they finish; a
+// mode cannot take the panel from another one. Plain panel clicks
+// (ObjectSelectionSystem) are ignored while any mode holds it.
+//
+// globals.panelMode is the owner (null = free); globals.panelStatus is the
+// status line drawn on the panel.
+
+export type PanelMode =
+  | "calibration"
+  | "fiducial"
+  | "benchmark"
+  | "zones"
+  | "dataset"
+  | "annotation";
+
+export function panelMode(globals: any): PanelMode | null {
+  return globals.panelMode ?? null;
+}
+
+// Takes the panel for `mode`; false when another mode holds it
+export function acquirePanel(globals: any, mode: PanelMode): boolean {
+  const owner = panelMode(globals);
+  if (owner && owner !== mode) {
+    console.warn(`[Panel] ${mode} refused: the panel is in use by ${owner}`);
+    return false;
+  }
+  globals.panelMode = mode;
+  return true;
+}
+
+// Frees the panel if `mode` holds it
+export function releasePanel(globals: any, mode: PanelMode) {
+  if (panelMode(globals) === mode) globals.panelMode = null;
+}
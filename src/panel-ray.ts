@@ -0,0 +1,112 @@
+// panel-ray.ts
+//
+// Panel UV / camera image UV -> refSpace ray (and back), shared by
+// TapHitDebugSystem, the benchmark and YoloSystem:
+//   panel UV -> camera image UV (A2 letterbox) ->
+//   extrinsics path: intrinsics (+ distortion) + lens pose on viewerMat, or
+//   fallback path: NDC unproject through the HMD render camera.
+
+import * as THREE from "three";
+import {
+  CameraImageMapping,
+  CameraIntrinsics,
+  cameraPoseFromViewer,
+  hasExtrinsics,
+  imageUvToWorldRay,
+  panelUvToImageUv,
+  worldPointToImageUv,
+} from "./camera-model";
+import { WorldRay } from "./hit-backends";
+
+export type ImageRay = {
+  ray: WorldRay;
+  cameraMat: THREE.Matrix4 | null; // null on the fallback path
+  path: "extrinsics" | "fallback";
+};
+
+export type PanelRay = ImageRay & {
+  imageUv: { u: number; v: number }; // clamped to the image
+  inImage: boolean; // false when the UV is on the letterbox bars
+};
+
+// viewerMat: viewer pose when the panel frame was captured
+export function panelUvToWorldRay(
+  mapping: CameraImageMapping,
+  intr: CameraIntrinsics | null | undefined,
+  viewerMat: THREE.Matrix4,
+  camera: THREE.Camera,
+  u: number,
+  v: number,
+): PanelRay {
+  const img = panelUvToImageUv(mapping, u, v);
+  const inImage = img.u >= 0 && img.u <= 1 && img.v >= 0 && img.v <= 1;
+
+  // Clamp in case of hover outside video bounds
+  const uImg = THREE.MathUtils.clamp(img.u, 0, 1);
+  const vImg = THREE.MathUtils.clamp(img.v, 0, 1);
+
+  return {
+    ...imageUvToRay(intr, viewerMat, camera, uImg, vImg),
+    imageUv: { u: uImg, v: vImg },
+    inImage,
+  };
+}
+
+// Camera image UV (0..1) -> refSpace ray for a frame taken at viewerMat
+export function imageUvToRay(
+  intr: CameraIntrinsics | null | undefined,
+  viewerMat: THREE.Matrix4,
+  camera: THREE.Camera,
+  uImg: number,
+  vImg: number,
+): ImageRay {
+  if (hasExtrinsics(intr)) {
+    const cameraMat = cameraPoseFromViewer(intr, viewerMat);
+    return {
+      ray: imageUvToWorldRay(intr, cameraMat, uImg, vImg),
+      cameraMat,
+      path: "extrinsics",
+    };
+  }
+
+  return {
+    ray: unprojectFromRenderCamera(camera, uImg, vImg),
+    cameraMat: null,
+    path: "fallback",
+  };
+}
+
+// Inverse of imageUvToRay: refSpace point -> camera image UV for a frame
+// taken at viewerMat; null when the point is behind the camera
+export function worldPointToImageUvAt(
+  intr: CameraIntrinsics | null | undefined,
+  viewerMat: THREE.Matrix4,
+  camera: THREE.Camera,
+  point: THREE.Vector3,
+): { u: number; v: number } | null {
+  if (hasExtrinsics(intr)) {
+    return worldPointToImageUv(
+      intr,
+      cameraPoseFromViewer(intr, viewerMat),
+      point,
+    );
+  }
+
+  const ndc = point.clone().project(camera);
+  if (ndc.z < -1 || ndc.z > 1) return null;
+  return { u: (ndc.x + 1) / 2, v: (1 - ndc.y) / 2 };
+}
+
+// Old "unproject from HMD camera" path (no intrinsics)
+export function unprojectFromRenderCamera(
+  camera: THREE.Camera,
+  uImg: number,
+  vImg: number,
+): WorldRay {
+  const origin = new THREE.Vector3();
+  camera.getWorldPosition(origin);
+
+  const ndcPoint = new THREE.Vector3(uImg * 2 - 1, 1 - vImg * 2, -1);
+  const worldPoint = ndcPoint.unproject(camera);
+  return { origin, dir: worldPoint.sub(origin).normalize() };
+}
@@ -0,0 +1,131 @@
+// pose-history.ts
+//
+// Ring buffer of timestamped viewer poses (refSpace), so rays can be built
+// from where the head was when a camera frame was captured instead of where
+// it is now. Timestamps are performance.now() milliseconds.
+
+import * as THREE from "three";
+
+const DEFAULT_CAPACITY = 256; // ~2.8 s at 90 Hz
+
+export class PoseHistory {
+  private times: Float64Array;
+  private positions: Float32Array;
+  private rotations: Float32Array;
+  private head = 0; // next write slot
+  private count = 0;
+
+  private readonly tmpPos = new THREE.Vector3();
+  private readonly tmpRot = new THREE.Quaternion();
+  private readonly tmpScale = new THREE.Vector3();
+
+  constructor(readonly capacity = DEFAULT_CAPACITY) {
+    this.times = new Float64Array(capacity);
+    this.positions = new Float32Array(capacity * 3);
+    this.rotations = new Float32Array(capacity * 4);
+  }
+
+  get size() {
+    return this.count;
+  }
+
+  clear() {
+    this.head = 0;
+    this.count = 0;
+  }
+
+  push(timeMs: number, matrix: ArrayLike<number>) {
+    // Keep timestamps monotonic; drop duplicates / out-of-order samples
+    if (this.count && timeMs <= this.times[this.index(this.count - 1)]) return;
+
+    const m = new THREE.Matrix4().fromArray(matrix as number[]);
+    m.decompose(this.tmpPos, this.tmpRot, this.tmpScale);
+
+    const i = this.head;
+    this.times[i] = timeMs;
+    this.positions.set([this.tmpPos.x, this.tmpPos.y, this.tmpPos.z], i * 3);
+    this.rotations.set(
+      [this.tmpRot.x, this.tmpRot.y, this.tmpRot.z, this.tmpRot.w],
+      i * 4,
+    );
+
+    this.head = (this.head + 1) % this.capacity;
+    this.count = Math.min(this.count + 1, this.capacity);
+  }
+
+  // k-th oldest sample -> buffer slot
+  private index(k: number): number {
+    return (this.head - this.count + k + this.capacity) % this.capacity;
+  }
+
+  private read(k: number, pos: THREE.Vector3, rot: THREE.Quaternion) {
+    const i = this.index(k);
+    pos.fromArray(this.positions, i * 3);
+    rot.fromArray(this.rotations, i * 4);
+  }
+
+  oldestTime(): number | null {
+    return this.count ? this.times[this.index(0)] : null;
+  }
+
+  newestTime(): number | null {
+    return this.count ? this.times[this.index(this.count - 1)] : null;
+  }
+
+  // Pose at timeMs (lerp/slerp between neighbors, clamped to the buffer).
+  // Returns false if the buffer is empty.
+  sample(
+    timeMs: number,
+    pos: THREE.Vector3,
+    rot: THREE.Quaternion,
+  ): boolean {
+    if (!this.count) return false;
+
+    if (timeMs <= this.times[this.index(0)]) {
+      this.read(0, pos, rot);
+      return true;
+    }
+    if (timeMs >= this.times[this.index(this.count - 1)]) {
+      this.read(this.count - 1, pos, rot);
+      return true;
+    }
+
+    // Binary search for the last sample <= timeMs
+    let lo = 0;
+    let hi = this.count - 1;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (this.times[this.index(mid)] <= timeMs) lo = mid;
+      else hi = mid;
+    }
+
+    const t0 = this.times[this.index(lo)];
+    const t1 = this.times[this.index(hi)];
+    const a = t1 > t0 ? (timeMs - t0) / (t1 - t0) : 0;
+
+    const p1 = new THREE.Vector3();
+    const r1 = new THREE.Quaternion();
+    this.read(lo, pos, rot);
+    this.read(hi, p1, r1);
+    pos.lerp(p1, a);
+    rot.slerp(r1, a);
+    return true;
+  }
+
+  sampleMatrix(timeMs: number, out = new THREE.Matrix4()): THREE.Matrix4 | null {
+    const pos = new THREE.Vector3();
+    const rot = new THREE.Quaternion();
+    if (!this.sample(timeMs, pos, rot)) return null;
+    return out.compose(pos, rot, new THREE.Vector3(1, 1, 1));
+  }
+
+  // Head angular speed (rad/s) over [timeMs - windowMs, timeMs]
+  angularSpeed(timeMs: number, windowMs: number): number | null {
+    const p = new THREE.Vector3();
+    const q0 = new THREE.Quaternion();
+    const q1 = new THREE.Quaternion();
+    if (!this.sample(timeMs - windowMs, p, q0)) return null;
+    this.sample(timeMs, p, q1);
+    return q0.angleTo(q1) / (windowMs / 1000);
+  }
+}
@@ -0,0 +1,151 @@
+// pose-sync-system.ts
+//
+// Keeps camera frames and viewer poses in sync:
+//   - records the viewer pose every XR frame into globals.poseHistory,
+//   - publishes globals.cameraFramePose: the viewer pose interpolated to
+//     cameraImageMapping.captureTime - latency, i.e. where the head was when
+//     the frame currently on the panel was exposed,
+//   - optionally estimates the latency from motion (image shift vs head
+//     rotation) and writes it to globals.cameraLatencyMs. It reads the
+//     frame the panel drew (globals.cameraFrame), once per new frame.
+//
+// Register after CameraPanelSystem so the mapping's captureTime is fresh.
+
+import { createSystem, Types } from "@iwsdk/core";
+import * as THREE from "three";
+import { CameraIntrinsics } from "./camera-model";
+import { CameraFrame } from "./frame-source";
+import { LatencyEstimator } from "./latency-estimator";
+import { PoseHistory } from "./pose-history";
+
+const HISTORY_CAPACITY = 512; // ~5.7 s at 90 Hz
+const FLOW_W = 96; // downsampled frame for motion estimation
+const ESTIMATE_INTERVAL = 2.0; // seconds between latency estimates
+const LATENCY_SMOOTHING = 0.3; // EMA weight of a new estimate
+
+export class PoseSyncSystem extends createSystem(
+  {},
+  {
+    latencyMs: { type: Types.Float32, default: 40 }, // manual / initial offset
+    autoLatency: { type: Types.Boolean, default: true },
+  },
+) {
+  private history = new PoseHistory(HISTORY_CAPACITY);
+  private estimator = new LatencyEstimator();
+  private estimateTimer = 0;
+
+  private flowCanvas: HTMLCanvasElement | null = null;
+  private flowCtx: CanvasRenderingContext2D | null = null;
+  private lastFlowFrame = -1;
+
+  init() {
+    const globals = this.globals as any;
+    globals.poseHistory = this.history;
+    globals.cameraLatencyMs = this.config.latencyMs.peek();
+    globals.cameraFramePose = null;
+
+    this.config.latencyMs.subscribe((value) => {
+      globals.cameraLatencyMs = value;
+    });
+  }
+
+  update(dt: number, time: number) {
+    const globals = this.globals as any;
+    const xrMgr: any = this.xrManager;
+    const frame = this.xrFrame as XRFrame | null;
+    const refSpace: XRReferenceSpace | null =
+      xrMgr.getReferenceSpace?.() ?? null;
+
+    if (!frame || !refSpace) return;
+
+    const now = performance.now();
+    const viewerPose = frame.getViewerPose(refSpace);
+    if (viewerPose) this.history.push(now, viewerPose.transform.matrix);
+
+    const latencyMs: number = globals.cameraLatencyMs ?? 0;
+    const captureTime: number | undefined =
+      globals.cameraImageMapping?.captureTime;
+
+    if (captureTime !== undefined) {
+      const poseTime = captureTime - latencyMs;
+      const matrix = this.history.sampleMatrix(poseTime);
+      globals.cameraFramePose = matrix ? { time: poseTime, matrix } : null;
+    }
+
+    if (this.config.autoLatency.peek()) {
+      this.trackMotion();
+
+      this.estimateTimer += dt;
+      if (this.estimateTimer >= ESTIMATE_INTERVAL) {
+        this.estimateTimer = 0;
+        this.updateLatencyEstimate();
+      }
+    }
+  }
+
+  // ---------------- latency estimation ----------------
+
+  private trackMotion() {
+    const globals = this.globals as any;
+    const intr: CameraIntrinsics | null = globals.cameraIntrinsics ?? null;
+    if (!intr) return;
+
+    // Only new frames: a repeated frame would read as "no motion"
+    const frame: CameraFrame | null = globals.cameraFrame ?? null;
+    if (!frame || frame.frameId === this.lastFlowFrame) return;
+    this.lastFlowFrame = frame.frameId;
+
+    const frameCanvas = frame.canvas;
+    if (!frameCanvas.width) return;
+
+    const w = FLOW_W;
+    const h = Math.max(
+      1,
+      Math.round((FLOW_W * frameCanvas.height) / frameCanvas.width),
+    );
+
+    if (!this.flowCanvas) {
+      this.flowCanvas = document.createElement("canvas");
+      this.flowCtx = this.flowCanvas.getContext("2d", {
+        willReadFrequently: true,
+      });
+    }
+    if (!this.flowCtx || !this.flowCanvas) return;
+    if (this.flowCanvas.width !== w || this.flowCanvas.height !== h) {
+      this.flowCanvas.width = w;
+      this.flowCanvas.height = h;
+    }
+
+    this.flowCtx.drawImage(frameCanvas, 0, 0, w, h);
+    const rgba = this.flowCtx.getImageData(0, 0, w, h).data;
+    const gray = new Uint8Array(w * h);
+    for (let i = 0, p = 0; p < gray.length; i += 4, p++) {
+      gray[p] = (rgba[i] * 77 + rgba[i + 1] * 150 + rgba[i + 2] * 29) >> 8;
+    }
+
+    // One downsampled pixel spans (width / w) full-res pixels
+    const radPerPixel = intr.width / w / intr.fx;
+    this.estimator.addFrame(gray, w, h, frame.captureTime, radPerPixel);
+  }
+
+  private updateLatencyEstimate() {
+    const globals = this.globals as any;
+    const est = this.estimator.estimate(this.history);
+    if (!est) return;
+
+    const prev: number = globals.cameraLatencyMs ?? est.latencyMs;
+    const next = THREE.MathUtils.lerp(prev, est.latencyMs, LATENCY_SMOOTHING);
+    globals.cameraLatencyMs = next;
+    globals.cameraLatencyEstimate = est;
+
+    console.log(
+      "[PoseSync] latency estimate:",
+      est.latencyMs.toFixed(0),
+      "ms | corr:",
+      est.correlation.toFixed(2),
+      "| using:",
+      next.toFixed(1),
+      "ms",
+    );
+  }
+}
@@ -0,0 +1,184 @@
+// pose.ts
+//
+// Human pose (YOLO-pose, COCO 17 keypoints):
+//   - keypoint names and skeleton edges,
+//   - decoding the per-box keypoint channels ([x, y, visibility] x K),
+//   - lifting keypoints into the room: one camera ray per joint, depths
+//     from the hit backends, then pulled to the person's median depth when
+//     a joint ray hits something far in front of / behind the body (an arm
+//     in front of a wall hits the wall),
+//   - PoseStream: per-person joint positions for listeners + CSV export.
+
+import * as THREE from "three";
+import { WorldRay } from "./hit-backends";
+
+export const COCO_KEYPOINT_NAMES = [
+  "nose",
+  "left_eye",
+  "right_eye",
+  "left_ear",
+  "right_ear",
+  "left_shoulder",
+  "right_shoulder",
+  "left_elbow",
+  "right_elbow",
+  "left_wrist",
+  "right_wrist",
+  "left_hip",
+  "right_hip",
+  "left_knee",
+  "right_knee",
+  "left_ankle",
+  "right_ankle",
+];
+
+// Pairs of keypoint indices
+export const COCO_SKELETON: [number, number][] = [
+  // head
+  [0, 1],
+  [0, 2],
+  [1, 3],
+  [2, 4],
+  // torso
+  [5, 6],
+  [5, 11],
+  [6, 12],
+  [11, 12],
+  // arms
+  [5, 7],
+  [7, 9],
+  [6, 8],
+  [8, 10],
+  // legs
+  [11, 13],
+  [13, 15],
+  [12, 14],
+  [14, 16],
+];
+
+const MAX_JOINT_DEPTH_SPREAD = 0.5; // m from the person's median depth
+
+// Keypoint in SOURCE image pixels (like Detection boxes)
+export type Keypoint = { x: number; y: number; score: number };
+
+export type PoseJoint = {
+  name: string;
+  score: number;
+  imageUv: { u: number; v: number };
+  position: THREE.Vector3 | null; // refSpace; null = not visible
+};
+
+export type PoseFrame = {
+  trackId: number;
+  captureTime: number; // performance.now() ms of the camera frame
+  joints: PoseJoint[];
+};
+
+export function keypointName(index: number): string {
+  return COCO_KEYPOINT_NAMES[index] ?? `keypoint_${index}`;
+}
+
+// channels: [x, y, v] per keypoint in model input px, v a logit or 0..1
+export function decodeKeypoints(
+  channels: Float32Array,
+  toSource: (x: number, y: number) => { x: number; y: number },
+): Keypoint[] {
+  const keypoints: Keypoint[] = [];
+  for (let k = 0; k + 2 < channels.length; k += 3) {
+    const v = channels[k + 2];
+    const score = v >= 0 && v <= 1 ? v : 1 / (1 + Math.exp(-v));
+    keypoints.push({ ...toSource(channels[k], channels[k + 1]), score });
+  }
+  return keypoints;
+}
+
+// distances[i]: hit distance along rays[i] (null = no hit).
+// Returns one point per ray, or null when nothing was hit at all.
+export function liftJoints(
+  rays: WorldRay[],
+  distances: (number | null)[],
+  maxSpread = MAX_JOINT_DEPTH_SPREAD,
+): (THREE.Vector3 | null)[] {
+  const known = distances.filter((d): d is number => d !== null);
+  if (!known.length) return rays.map(() => null);
+
+  const sorted = [...known].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+
+  return rays.map((ray, i) => {
+    const d = distances[i];
+    const inBody = d !== null && Math.abs(d - median) <= maxSpread;
+    const depth = inBody ? d : median;
+    return ray.origin.clone().addScaledVector(ray.dir, depth);
+  });
+}
+
+const HISTORY_LIMIT = 5000; // frames kept for export
+
+export class PoseStream {
+  private listeners = new Set<(frame: PoseFrame) => void>();
+  private history: PoseFrame[] = [];
+  private latestByTrack = new Map<number, PoseFrame>();
+
+  subscribe(listener: (frame: PoseFrame) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  emit(frame: PoseFrame) {
+    this.latestByTrack.set(frame.trackId, frame);
+    this.history.push(frame);
+    if (this.history.length > HISTORY_LIMIT) this.history.shift();
+
+    for (const listener of this.listeners) {
+      try {
+        listener(frame);
+      } catch (e) {
+        console.warn("[PoseStream] Listener failed", e);
+      }
+    }
+  }
+
+  latest(trackId?: number): PoseFrame[] {
+    if (trackId !== undefined) {
+      const frame = this.latestByTrack.get(trackId);
+      return frame ? [frame] : [];
+    }
+    return [...this.latestByTrack.values()];
+  }
+
+  forget(trackId: number) {
+    this.latestByTrack.delete(trackId);
+  }
+
+  clear() {
+    this.history = [];
+    this.latestByTrack.clear();
+  }
+
+  // One row per joint per frame
+  toCsv(): string {
+    const num = (x: number) => String(+x.toFixed(6));
+    const lines = ["time_ms,track_id,joint,score,u,v,x,y,z"];
+
+    for (const frame of this.history) {
+      for (const j of frame.joints) {
+        const p = j.position;
+        lines.push(
+          [
+            num(frame.captureTime),
+            frame.trackId,
+            j.name,
+            num(j.score),
+            num(j.imageUv.u),
+            num(j.imageUv.v),
+            p ? num(p.x) : "",
+            p ? num(p.y) : "",
+            p ? num(p.z) : "",
+          ].join(","),
+        );
+      }
+    }
+    return lines.join("\n") + "\n";
+  }
+}
@@ -0,0 +1,200 @@
+// segmentation.ts
+//
+// Instance masks for YOLO-seg models (Ultralytics v8/11 "-seg" exports):
+//   output0 [1, 4+nc+nm, N]   boxes, class scores, nm mask coefficients
+//   output1 [1, nm, mh, mw]   prototype masks (mh = mw = input / 4)
+// A detection's mask is sigmoid(coeffs . protos), cropped to its box and
+// resampled (bilinear) onto a grid over the box in SOURCE image pixels, so
+// it lines up with Detection.x/y/w/h. Also: the most interior mask pixel
+// (a placement point that is on the object even for chairs, rings, ...)
+// and a radial outer outline polygon.
+
+import type { Detection, LetterboxTransform } from "./yolo";
+
+const MASK_MAX_SIDE = 128; // cells along the longer box side
+
+// Binary mask over the detection box: data[y * width + x] is 1 inside
+export type DetectionMask = {
+  width: number;
+  height: number;
+  data: Uint8Array;
+};
+
+type Box = { x: number; y: number; w: number; h: number };
+
+// box: detection box in source px (after unletterbox)
+export function decodeMask(
+  protos: Float32Array,
+  protoDims: readonly number[],
+  coeffs: Float32Array,
+  box: Box,
+  t: LetterboxTransform,
+): DetectionMask | null {
+  const [, nm, mh, mw] = protoDims;
+  if (box.w < 1 || box.h < 1 || coeffs.length !== nm) return null;
+
+  const cell = Math.max(1, Math.max(box.w, box.h) / MASK_MAX_SIDE);
+  const width = Math.max(1, Math.round(box.w / cell));
+  const height = Math.max(1, Math.round(box.h / cell));
+
+  // source px -> proto px (pixel centers)
+  const sx = (t.scale * mw) / t.inputSize;
+  const sy = (t.scale * mh) / t.inputSize;
+  const ox = (t.padX * mw) / t.inputSize - 0.5;
+  const oy = (t.padY * mh) / t.inputSize - 0.5;
+
+  // Logits only for the proto pixels under the box (+1 for bilinear)
+  const x0 = clampInt(Math.floor(box.x * sx + ox), 0, mw - 1);
+  const y0 = clampInt(Math.floor(box.y * sy + oy), 0, mh - 1);
+  const x1 = clampInt(Math.ceil((box.x + box.w) * sx + ox) + 1, 0, mw - 1);
+  const y1 = clampInt(Math.ceil((box.y + box.h) * sy + oy) + 1, 0, mh - 1);
+  const cw = x1 - x0 + 1;
+  const ch = y1 - y0 + 1;
+
+  const logits = new Float32Array(cw * ch);
+  const plane = mh * mw;
+  for (let k = 0; k < nm; k++) {
+    const c = coeffs[k];
+    if (c === 0) continue;
+    for (let y = 0; y < ch; y++) {
+      const row = k * plane + (y0 + y) * mw + x0;
+      for (let x = 0; x < cw; x++) logits[y * cw + x] += c * protos[row + x];
+    }
+  }
+
+  // sigmoid > 0.5  <=>  logit > 0
+  const data = new Uint8Array(width * height);
+  for (let j = 0; j < height; j++) {
+    const py = (box.y + ((j + 0.5) * box.h) / height) * sy + oy - y0;
+    for (let i = 0; i < width; i++) {
+      const px = (box.x + ((i + 0.5) * box.w) / width) * sx + ox - x0;
+      if (bilinear(logits, cw, ch, px, py) > 0) data[j * width + i] = 1;
+    }
+  }
+
+  return { width, height, data };
+}
+
+function bilinear(
+  values: Float32Array,
+  w: number,
+  h: number,
+  x: number,
+  y: number,
+): number {
+  const xc = Math.min(Math.max(x, 0), w - 1);
+  const yc = Math.min(Math.max(y, 0), h - 1);
+  const xi = Math.floor(xc);
+  const yi = Math.floor(yc);
+  const xj = Math.min(xi + 1, w - 1);
+  const yj = Math.min(yi + 1, h - 1);
+  const fx = xc - xi;
+  const fy = yc - yi;
+
+  return (
+    values[yi * w + xi] * (1 - fx) * (1 - fy) +
+    values[yi * w + xj] * fx * (1 - fy) +
+    values[yj * w + xi] * (1 - fx) * fy +
+    values[yj * w + xj] * fx * fy
+  );
+}
+
+function clampInt(x: number, lo: number, hi: number): number {
+  return Math.min(hi, Math.max(lo, x));
+}
+
+// Mask cell farthest from the mask boundary (chamfer 3-4 distance
+// transform), in cell coordinates; null for an empty mask
+export function maskInteriorPoint(
+  mask: DetectionMask,
+): { x: number; y: number } | null {
+  const { width: w, height: h, data } = mask;
+  const dist = new Float32Array(w * h);
+  const BIG = 1e9;
+  for (let i = 0; i < w * h; i++) dist[i] = data[i] ? BIG : 0;
+
+  const get = (x: number, y: number) =>
+    x < 0 || y < 0 || x >= w || y >= h ? 0 : dist[y * w + x];
+
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = y * w + x;
+      if (!dist[i]) continue;
+      dist[i] = Math.min(
+        dist[i],
+        get(x - 1, y) + 3,
+        get(x, y - 1) + 3,
+        get(x - 1, y - 1) + 4,
+        get(x + 1, y - 1) + 4,
+      );
+    }
+  }
+
+  let best = -1;
+  let bestDist = 0;
+  for (let y = h - 1; y >= 0; y--) {
+    for (let x = w - 1; x >= 0; x--) {
+      const i = y * w + x;
+      if (!dist[i]) continue;
+      dist[i] = Math.min(
+        dist[i],
+        get(x + 1, y) + 3,
+        get(x, y + 1) + 3,
+        get(x + 1, y + 1) + 4,
+        get(x - 1, y + 1) + 4,
+      );
+      if (dist[i] > bestDist) {
+        bestDist = dist[i];
+        best = i;
+      }
+    }
+  }
+
+  return best < 0 ? null : { x: best % w, y: Math.floor(best / w) };
+}
+
+// Closed outer outline: for each of `rays` directions from `center`
+// (default: box center), the farthest mask cell along it, so holes and
+// gaps (chair backs, handles) do not cut it short. Cell coordinates.
+export function maskOutline(
+  mask: DetectionMask,
+  center = { x: (mask.width - 1) / 2, y: (mask.height - 1) / 2 },
+  rays = 32,
+): { x: number; y: number }[] {
+  const { width: w, height: h, data } = mask;
+  const maxR = Math.hypot(w, h);
+  const outline: { x: number; y: number }[] = [];
+
+  for (let k = 0; k < rays; k++) {
+    const a = (2 * Math.PI * k) / rays;
+    const dx = Math.cos(a) * 0.5;
+    const dy = Math.sin(a) * 0.5;
+
+    let last: { x: number; y: number } | null = null;
+    for (let r = 0; r < maxR; r += 0.5) {
+      const x = center.x + dx * r * 2;
+      const y = center.y + dy * r * 2;
+      const xi = Math.round(x);
+      const yi = Math.round(y);
+      if (xi < 0 || yi < 0 || xi >= w || yi >= h) break;
+      if (data[yi * w + xi]) last = { x, y };
+    }
+    if (last) outline.push(last);
+  }
+
+  return outline;
+}
+
+// Mask cell (x, y) -> camera image UV of the detection's frame
+export function maskCellToImageUv(
+  det: Detection,
+  mask: DetectionMask,
+  x: number,
+  y: number,
+): { u: number; v: number } {
+  const { srcW, srcH } = det.transform;
+  return {
+    u: (det.x + ((x + 0.5) * det.w) / mask.width) / srcW,
+    v: (det.y + ((y + 0.5) * det.h) / mask.height) / srcH,
+  };
+}
@@ -0,0 +1,99 @@
+// session-log.ts
+//
+// Recorded XR session, saved as one JSON file:
+//   - header: intrinsics, calibration profile, latency, user agent,
+//   - frames: viewer pose, controller poses + buttons/axes, panel hover UV,
+//     camera image mapping and the latest surface hit, per XR frame,
+//   - images: JPEG data URLs of camera frames, referenced by index.
+// Poses are refSpace matrices (column-major, 16 numbers).
+
+import { CameraImageMapping, CameraIntrinsics } from "./camera-model";
+import { CalibrationProfile } from "./calibration";
+
+export const SESSION_LOG_FORMAT = "questcam2ar-session";
+export const SESSION_LOG_VERSION = 1;
+
+export type RecordedController = {
+  handedness: XRHandedness;
+  pose: number[] | null; // target ray
+  buttons: { pressed: boolean; value: number }[];
+  axes: number[];
+};
+
+export type RecordedHit = {
+  point: [number, number, number];
+  normal: [number, number, number];
+  distance: number;
+  label: string | null;
+  source: string;
+  confidence?: number;
+};
+
+export type RecordedFrame = {
+  t: number; // ms since recording start
+  viewer: number[] | null;
+  controllers: RecordedController[];
+  hoverUv: { u: number; v: number } | null;
+  mapping: CameraImageMapping | null;
+  image: number | null; // index into SessionLog.images (latest frame)
+  hit: RecordedHit | null; // new surface hit this frame
+};
+
+export type SessionLog = {
+  format: typeof SESSION_LOG_FORMAT;
+  version: number;
+  createdAt: string;
+  userAgent: string;
+  cameraIntrinsics: CameraIntrinsics | null;
+  calibrationProfile: CalibrationProfile | null;
+  cameraLatencyMs: number | null;
+  frames: RecordedFrame[];
+  images: string[];
+};
+
+export function createSessionLog(
+  header: Pick<
+    SessionLog,
+    "cameraIntrinsics" | "calibrationProfile" | "cameraLatencyMs"
+  >,
+): SessionLog {
+  return {
+    format: SESSION_LOG_FORMAT,
+    version: SESSION_LOG_VERSION,
+    createdAt: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    ...header,
+    frames: [],
+    images: [],
+  };
+}
+
+export function parseSessionLog(text: string): SessionLog {
+  const log = JSON.parse(text);
+
+  if (!log || log.format !== SESSION_LOG_FORMAT) {
+    throw new Error("Not a QuestCam2AR session log");
+  }
+  if (log.version > SESSION_LOG_VERSION) {
+    throw new Error(`Unsupported session log version ${log.version}`);
+  }
+  if (!Array.isArray(log.frames) || !Array.isArray(log.images)) {
+    throw new Error("Session log has no frames");
+  }
+
+  return log as SessionLog;
+}
+
+// Index of the last frame at or before t (binary search)
+export function frameIndexAt(log: SessionLog, t: number): number {
+  let lo = 0;
+  let hi = log.frames.length - 1;
+  if (hi < 0 || t < log.frames[0].t) return 0;
+
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (log.frames[mid].t <= t) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
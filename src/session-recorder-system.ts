@@ -0,0 +1,451 @@
+// session-recorder-system.ts
+//
+// Record-and-replay of XR sessions (format in session-log.ts).
+//
+// Record (headset): left thumbstick click starts / stops. Every XR frame
+// stores the viewer pose, controller poses + buttons, panel hover UV,
+// camera mapping and new surface hits; camera frames are stored as JPEGs
+// at `imageFps`. Stopping downloads session-<time>.json.
+//
+// Replay (desktop, IWER): globals.sessionRecorder.replay(urlOrFile), or open
+// the app with ?replay=<url>. The recorded camera frames become
+// globals.frameSource and the recorded intrinsics are restored. Under IWER
+// the emulated headset and controllers are driven from the log (one frame
+// behind: poses set now are seen by the next XR frame), so the panel -> ray
+// -> hit pipeline runs on the recorded input. pause() / step() / seek() go
+// through it frame by frame; globals.sessionReplay holds the current frame
+// and its recorded hit.
+
+import { createSystem, Types } from "@iwsdk/core";
+import * as THREE from "three";
+import { CameraIntrinsics } from "./camera-model";
+import { downloadBlob } from "./download";
+import { captureCameraFrame, FrameSource } from "./frame-source";
+import { SurfaceHit } from "./hit-backends";
+import {
+  createSessionLog,
+  frameIndexAt,
+  parseSessionLog,
+  RecordedController,
+  RecordedFrame,
+  SessionLog,
+} from "./session-log";
+
+const TOGGLE_BUTTON_INDEX = 3; // left thumbstick click
+
+type ReplayState = {
+  log: SessionLog;
+  t: number; // ms into the log
+  frameIndex: number;
+  playing: boolean;
+  speed: number;
+  savedIntrinsics: CameraIntrinsics | null;
+  savedFrameSource: FrameSource | null;
+  savedControlMode: string | null;
+};
+
+// Recorded JPEGs, decoded on demand into one canvas
+class ReplayFrameSource implements FrameSource {
+  readonly name = "replay";
+  private canvas = document.createElement("canvas");
+  private shownIndex = -1;
+  private loadingIndex = -1;
+
+  constructor(private readonly images: string[]) {}
+
+  show(index: number | null) {
+    if (index === null || index === this.shownIndex) return;
+    if (index === this.loadingIndex) return;
+    this.loadingIndex = index;
+
+    const img = new Image();
+    img.onload = () => {
+      if (this.loadingIndex !== index) return; // superseded
+      this.canvas.width = img.naturalWidth;
+      this.canvas.height = img.naturalHeight;
+      this.canvas.getContext("2d")?.drawImage(img, 0, 0);
+      this.shownIndex = index;
+      this.loadingIndex = -1;
+    };
+    img.onerror = () => {
+      console.warn("[SessionReplay] failed to decode frame", index);
+      if (this.loadingIndex === index) this.loadingIndex = -1;
+    };
+    img.src = this.images[index];
+  }
+
+  capture(): HTMLCanvasElement | null {
+    return this.shownIndex >= 0 ? this.canvas : null;
+  }
+}
+
+export class SessionRecorderSystem extends createSystem(
+  {},
+  {
+    imageFps: { type: Types.Float32, default: 5 },
+    imageWidth: { type: Types.Int16, default: 960 },
+    jpegQuality: { type: Types.Float32, default: 0.7 },
+    maxSeconds: { type: Types.Float32, default: 120 },
+  },
+) {
+  private recording: SessionLog | null = null;
+  private recordStart = 0;
+  private imageTimer = 0;
+  private lastImage: number | null = null;
+  private lastHit: SurfaceHit | null = null;
+  private jpegCanvas: HTMLCanvasElement | null = null;
+
+  private replayState: ReplayState | null = null;
+  private replaySource: ReplayFrameSource | null = null;
+
+  private prevToggle = false;
+
+  init() {
+    const globals = this.globals as any;
+    globals.sessionReplay = null;
+    globals.sessionRecorder = {
+      start: () => this.startRecording(),
+      stop: () => this.stopRecording(),
+      isRecording: () => !!this.recording,
+      replay: (src: string | File | SessionLog) => this.replay(src),
+      stopReplay: () => this.stopReplay(),
+      play: () => this.setPlaying(true),
+      pause: () => this.setPlaying(false),
+      step: (frames = 1) => this.step(frames),
+      seek: (frameIndex: number) => this.seek(frameIndex),
+      setSpeed: (speed: number) => {
+        if (this.replayState) this.replayState.speed = speed;
+      },
+    };
+
+    const url = new URLSearchParams(location.search).get("replay");
+    if (url) this.replay(url);
+  }
+
+  update(dt: number) {
+    const xrMgr: any = this.xrManager;
+    const session: XRSession | null = xrMgr.getSession?.() ?? null;
+    const frame = this.xrFrame as XRFrame | null;
+    const refSpace: XRReferenceSpace | null =
+      xrMgr.getReferenceSpace?.() ?? null;
+
+    if (this.replayState) {
+      this.updateReplay(dt);
+      return;
+    }
+
+    if (!session || !frame || !refSpace) return;
+
+    let toggle = false;
+    for (const inputSource of session.inputSources) {
+      if (inputSource.handedness !== "left") continue;
+      toggle = !!inputSource.gamepad?.buttons?.[TOGGLE_BUTTON_INDEX]?.pressed;
+    }
+    if (toggle && !this.prevToggle) {
+      if (this.recording) this.stopRecording();
+      else this.startRecording();
+    }
+    this.prevToggle = toggle;
+
+    if (this.recording) this.recordFrame(dt, session, frame, refSpace);
+  }
+
+  // ---------------- recording ----------------
+
+  private startRecording() {
+    if (this.recording || this.replayState) return;
+    const globals = this.globals as any;
+
+    this.recording = createSessionLog({
+      cameraIntrinsics: globals.cameraIntrinsics ?? null,
+      calibrationProfile: globals.calibrationProfile ?? null,
+      cameraLatencyMs: globals.cameraLatencyMs ?? null,
+    });
+    this.recordStart = performance.now();
+    this.imageTimer = Infinity; // grab a frame right away
+    this.lastImage = null;
+    this.lastHit = globals.lastSurfaceHit ?? null;
+
+    console.log("[SessionRecorder] recording started");
+  }
+
+  private stopRecording() {
+    const log = this.recording;
+    if (!log) return;
+    this.recording = null;
+
+    console.log(
+      "[SessionRecorder] recording stopped |",
+      log.frames.length,
+      "frames |",
+      log.images.length,
+      "images",
+    );
+
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    downloadBlob(
+      `session-${stamp}.json`,
+      new Blob([JSON.stringify(log)], { type: "application/json" }),
+    );
+  }
+
+  private recordFrame(
+    dt: number,
+    session: XRSession,
+    frame: XRFrame,
+    refSpace: XRReferenceSpace,
+  ) {
+    const log = this.recording!;
+    const globals = this.globals as any;
+    const t = performance.now() - this.recordStart;
+
+    if (t > this.config.maxSeconds.peek() * 1000) {
+      this.stopRecording();
+      return;
+    }
+
+    this.imageTimer += dt;
+    if (this.imageTimer >= 1 / this.config.imageFps.peek()) {
+      this.imageTimer = 0;
+      const image = this.encodeCameraFrame();
+      if (image) {
+        log.images.push(image);
+        this.lastImage = log.images.length - 1;
+      }
+    }
+
+    const viewerPose = frame.getViewerPose(refSpace);
+
+    const controllers: RecordedController[] = [];
+    for (const inputSource of session.inputSources) {
+      if (inputSource.targetRayMode !== "tracked-pointer") continue;
+      const pose = frame.getPose(inputSource.targetRaySpace, refSpace);
+      const gp = inputSource.gamepad;
+      controllers.push({
+        handedness: inputSource.handedness,
+        pose: pose ? Array.from(pose.transform.matrix) : null,
+        buttons: gp
+          ? Array.from(gp.buttons, (b) => ({ pressed: b.pressed, value: b.value }))
+          : [],
+        axes: gp ? Array.from(gp.axes) : [],
+      });
+    }
+
+    // Only hits that are new since the previous frame
+    const hit: SurfaceHit | null = globals.lastSurfaceHit ?? null;
+    const newHit = hit && hit !== this.lastHit ? hit : null;
+    this.lastHit = hit;
+
+    const recorded: RecordedFrame = {
+      t,
+      viewer: viewerPose ? Array.from(viewerPose.transform.matrix) : null,
+      controllers,
+      hoverUv: globals.panelHoverUv ?? null,
+      mapping: globals.cameraImageMapping
+        ? { ...globals.cameraImageMapping }
+        : null,
+      image: this.lastImage,
+      hit: newHit
+        ? {
+            point: newHit.point.toArray() as [number, number, number],
+            normal: newHit.normal.toArray() as [number, number, number],
+            distance: newHit.distance,
+            label: newHit.label,
+            source: newHit.source,
+            confidence: newHit.confidence,
+          }
+        : null,
+    };
+    log.frames.push(recorded);
+  }
+
+  private encodeCameraFrame(): string | null {
+    const frameCanvas = captureCameraFrame(this.globals);
+    if (!frameCanvas || !frameCanvas.width || !frameCanvas.height) return null;
+
+    const w = Math.min(frameCanvas.width, this.config.imageWidth.peek());
+    const h = Math.round((w * frameCanvas.height) / frameCanvas.width);
+
+    if (!this.jpegCanvas) this.jpegCanvas = document.createElement("canvas");
+    this.jpegCanvas.width = w;
+    this.jpegCanvas.height = h;
+
+    const ctx = this.jpegCanvas.getContext("2d");
+    if (!ctx) return null;
+    ctx.drawImage(frameCanvas, 0, 0, w, h);
+
+    return this.jpegCanvas.toDataURL(
+      "image/jpeg",
+      this.config.jpegQuality.peek(),
+    );
+  }
+
+  // ---------------- replay ----------------
+
+  private async replay(src: string | File | SessionLog) {
+    try {
+      let log: SessionLog;
+      if (typeof src === "string") {
+        const res = await fetch(src);
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        log = parseSessionLog(await res.text());
+      } else if (src instanceof File) {
+        log = parseSessionLog(await src.text());
+      } else {
+        log = src;
+      }
+
+      this.stopRecording();
+      this.stopReplay();
+
+      const globals = this.globals as any;
+      const device = (window as any).IWER_DEVICE;
+
+      this.replayState = {
+        log,
+        t: 0,
+        frameIndex: -1,
+        playing: true,
+        speed: 1,
+        savedIntrinsics: globals.cameraIntrinsics ?? null,
+        savedFrameSource: globals.frameSource ?? null,
+        savedControlMode: device?.controlMode ?? null,
+      };
+
+      this.replaySource = new ReplayFrameSource(log.images);
+      globals.frameSource = this.replaySource;
+      if (log.cameraIntrinsics) globals.cameraIntrinsics = log.cameraIntrinsics;
+      if (log.cameraLatencyMs !== null) {
+        globals.cameraLatencyMs = log.cameraLatencyMs;
+      }
+
+      if (device) {
+        device.controlMode = "programmatic";
+      } else {
+        console.warn(
+          "[SessionReplay] IWER not found: replaying camera frames only",
+        );
+      }
+
+      console.log(
+        "[SessionReplay] loaded",
+        log.frames.length,
+        "frames recorded",
+        log.createdAt,
+      );
+    } catch (e) {
+      console.error("[SessionReplay] failed to load session log", e);
+    }
+  }
+
+  private stopReplay() {
+    const state = this.replayState;
+    if (!state) return;
+
+    const globals = this.globals as any;
+    globals.cameraIntrinsics = state.savedIntrinsics;
+    globals.frameSource = state.savedFrameSource;
+    globals.sessionReplay = null;
+
+    const device = (window as any).IWER_DEVICE;
+    if (device && state.savedControlMode) {
+      device.controlMode = state.savedControlMode;
+    }
+
+    this.replayState = null;
+    this.replaySource = null;
+    console.log("[SessionReplay] stopped");
+  }
+
+  private setPlaying(playing: boolean) {
+    if (this.replayState) this.replayState.playing = playing;
+  }
+
+  private step(frames: number) {
+    const state = this.replayState;
+    if (!state) return;
+    state.playing = false;
+    this.seek(state.frameIndex + frames);
+  }
+
+  private seek(frameIndex: number) {
+    const state = this.replayState;
+    if (!state || !state.log.frames.length) return;
+
+    const i = THREE.MathUtils.clamp(frameIndex, 0, state.log.frames.length - 1);
+    state.t = state.log.frames[i].t;
+    this.applyReplayFrame(i);
+  }
+
+  private updateReplay(dt: number) {
+    const state = this.replayState!;
+    const frames = state.log.frames;
+    if (!frames.length) return;
+
+    if (state.playing) {
+      state.t += dt * 1000 * state.speed;
+      if (state.t >= frames[frames.length - 1].t) {
+        state.t = frames[frames.length - 1].t;
+        state.playing = false;
+        console.log("[SessionReplay] end of log");
+      }
+    }
+
+    const i = frameIndexAt(state.log, state.t);
+    if (i !== state.frameIndex) this.applyReplayFrame(i);
+  }
+
+  private applyReplayFrame(i: number) {
+    const state = this.replayState!;
+    const recorded = state.log.frames[i];
+    state.frameIndex = i;
+
+    this.replaySource?.show(recorded.image);
+    this.driveEmulator(recorded);
+
+    (this.globals as any).sessionReplay = {
+      frameIndex: i,
+      frameCount: state.log.frames.length,
+      t: recorded.t,
+      frame: recorded,
+      hit: recorded.hit,
+    };
+  }
+
+  // Push the recorded head / controller state into IWER
+  private driveEmulator(recorded: RecordedFrame) {
+    const device = (window as any).IWER_DEVICE;
+    if (!device) return;
+
+    const pos = new THREE.Vector3();
+    const quat = new THREE.Quaternion();
+    const scale = new THREE.Vector3();
+
+    if (recorded.viewer) {
+      new THREE.Matrix4().fromArray(recorded.viewer).decompose(pos, quat, scale);
+      device.position.set(pos.x, pos.y, pos.z);
+      device.quaternion.set(quat.x, quat.y, quat.z, quat.w);
+    }
+
+    for (const c of recorded.controllers) {
+      const controller = device.controllers?.[c.handedness];
+      if (!controller) continue;
+
+      if (c.pose) {
+        new THREE.Matrix4().fromArray(c.pose).decompose(pos, quat, scale);
+        controller.position.set(pos.x, pos.y, pos.z);
+        controller.quaternion.set(quat.x, quat.y, quat.z, quat.w);
+      }
+
+      // Button index -> IWER button id via the controller's gamepad layout
+      const layout = controller.gamepadConfig?.buttons ?? [];
+      c.buttons.forEach((b, index) => {
+        const id: string | undefined = layout[index]?.id;
+        if (id) controller.updateButtonValue(id, b.value || (b.pressed ? 1 : 0));
+      });
+      if (c.axes.length >= 4) {
+        controller.updateAxes("thumbstick", c.axes[2], c.axes[3]);
+      }
+    }
+  }
+}
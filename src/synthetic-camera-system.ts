@@ -0,0 +1,451 @@
+// synthetic-camera-system.ts
+//
+// Ground-truth passthrough camera for desktop testing under IWER.
+// Renders the emulated room (the XRPlane / XRMesh geometry that
+// SceneUnderstandingSystem gets from the IWER synthetic environment) from
+// the viewer pose * lens offset, with known intrinsics and Brown-Conrady
+// distortion, and serves it as globals.frameSource.
+//
+//   - pass 1: ideal pinhole render (off-axis frustum covering the
+//     undistorted image bounds) into a render target,
+//   - pass 2: per output pixel, undistort (same fixed-point iteration as
+//     camera-model.ts) and sample pass 1.
+//
+// The camera is described by MediaTrackSettings-style values and parsed with
+// intrinsicsFromTrackSettings(), exactly like fetchCameraIntrinsics does.
+// globals.syntheticCamera exposes the ground truth (intrinsics, camera pose,
+// groundTruthRay) so the pipeline can be checked against it.
+
+import { createSystem, Entity, Types, XRMesh, XRPlane } from "@iwsdk/core";
+import * as THREE from "three";
+import {
+  CameraIntrinsics,
+  CameraTrackSettings,
+  cameraPoseFromViewer,
+  imageUvToWorldRay,
+  intrinsicsFromTrackSettings,
+  undistortNormalized,
+} from "./camera-model";
+import { FrameSource } from "./frame-source";
+
+const IDEAL_SCALE = 1.25; // pass-1 resolution relative to the output
+const BOUNDS_MARGIN = 0.02;
+const NEAR = 0.05;
+const FAR = 30;
+
+// Camera space (x right, y down, z forward) -> three.js camera (y up, -z)
+const CAMERA_TO_THREE = new THREE.Matrix4().makeRotationX(Math.PI);
+
+const ROOM_VERTEX = /* glsl */ `
+  varying vec3 vWorldPos;
+  void main() {
+    vec4 world = modelMatrix * vec4(position, 1.0);
+    vWorldPos = world.xyz;
+    gl_Position = projectionMatrix * viewMatrix * world;
+  }
+`;
+
+// Flat shading from screen-space derivatives + a world-space checker so the
+// image has texture for flow / fiducial / detection tests
+const ROOM_FRAGMENT = /* glsl */ `
+  uniform vec3 color;
+  varying vec3 vWorldPos;
+  void main() {
+    vec3 n = normalize(cross(dFdx(vWorldPos), dFdy(vWorldPos)));
+    float light = 0.35 + 0.65 * abs(dot(n, normalize(vec3(0.3, 0.8, 0.5))));
+    vec3 c = floor(vWorldPos * 4.0);
+    float checker = mod(c.x + c.y + c.z, 2.0);
+    gl_FragColor = vec4(color * light * (0.75 + 0.25 * checker), 1.0);
+  }
+`;
+
+const DISTORT_VERTEX = /* glsl */ `
+  varying vec2 vUv;
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`;
+
+const DISTORT_FRAGMENT = /* glsl */ `
+  uniform sampler2D tIdeal;
+  uniform vec2 size;       // output width, height
+  uniform vec4 focal;      // fx, fy, cx, cy
+  uniform vec3 radial;     // k1, k2, k3
+  uniform vec2 tangential; // p1, p2
+  uniform vec4 bounds;     // ideal xmin, xmax, ymin, ymax
+  varying vec2 vUv;
+
+  void main() {
+    // Output pixel (y down) -> distorted normalized coords
+    vec2 pix = vec2(vUv.x, 1.0 - vUv.y) * size;
+    vec2 d = (pix - focal.zw) / focal.xy;
+
+    vec2 p = d;
+    for (int i = 0; i < 20; i++) {
+      float r2 = dot(p, p);
+      float k = 1.0 + r2 * (radial.x + r2 * (radial.y + r2 * radial.z));
+      vec2 t = vec2(
+        2.0 * tangential.x * p.x * p.y + tangential.y * (r2 + 2.0 * p.x * p.x),
+        tangential.x * (r2 + 2.0 * p.y * p.y) + 2.0 * tangential.y * p.x * p.y
+      );
+      p = (d - t) / k;
+    }
+
+    vec2 uv = vec2(
+      (p.x - bounds.x) / (bounds.y - bounds.x),
+      (bounds.w - p.y) / (bounds.w - bounds.z)
+    );
+    if (any(lessThan(uv, vec2(0.0))) || any(greaterThan(uv, vec2(1.0)))) {
+      gl_FragColor = vec4(0.0, 0.0, 0.0, 1.0);
+    } else {
+      gl_FragColor = texture2D(tIdeal, uv);
+    }
+  }
+`;
+
+function labelColor(label: string | undefined): THREE.Color {
+  let h = 0;
+  for (const ch of label ?? "") h = (h * 31 + ch.charCodeAt(0)) >>> 0;
+  return new THREE.Color().setHSL((h % 360) / 360, 0.35, 0.6);
+}
+
+export class SyntheticCameraSystem
+  extends createSystem(
+    {
+      planes: { required: [XRPlane] },
+      meshes: { required: [XRMesh] },
+    },
+    {
+      autoEnable: { type: Types.Boolean, default: true }, // when IWER is present
+      exposeIntrinsics: { type: Types.Boolean, default: true },
+      width: { type: Types.Int16, default: 1280 },
+      height: { type: Types.Int16, default: 960 },
+      focal: { type: Types.Vec2, default: [900, 900] },
+      principalPoint: { type: Types.Vec2, default: [652, 470] },
+      radialDistortion: { type: Types.Vec3, default: [-0.08, 0.02, 0] },
+      tangentialDistortion: { type: Types.Vec2, default: [0.0005, -0.0003] },
+      lensTranslation: { type: Types.Vec3, default: [0.032, -0.018, -0.06] },
+      lensTiltDeg: { type: Types.Vec3, default: [-4, 1.5, 0.5] }, // pitch, yaw, roll
+    },
+  )
+  implements FrameSource
+{
+  readonly name = "synthetic";
+
+  private enabled = false;
+  private intrinsics: CameraIntrinsics | null = null;
+
+  private offscreen: THREE.WebGLRenderer | null = null; // own context + canvas
+  private idealTarget: THREE.WebGLRenderTarget | null = null;
+  private roomScene = new THREE.Scene();
+  private renderCamera = new THREE.PerspectiveCamera();
+  private distortScene = new THREE.Scene();
+  private distortCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
+  private distortMaterial: THREE.ShaderMaterial | null = null;
+  private bounds = { xmin: -1, xmax: 1, ymin: -1, ymax: 1 };
+
+  private proxies = new Map<Entity, THREE.Mesh>();
+  private viewerMat: THREE.Matrix4 | null = null;
+  private poseOverride: THREE.Matrix4 | null = null;
+  private cameraMat = new THREE.Matrix4();
+  private frameCounter = 0;
+  private renderedFrame = -1;
+
+  init() {
+    const globals = this.globals as any;
+    globals.syntheticCamera = {
+      enable: () => this.enable(),
+      disable: () => this.disable(),
+      isEnabled: () => this.enabled,
+      trackSettings: () => this.trackSettings(),
+      intrinsics: () => this.intrinsics,
+      cameraMatrix: () => (this.enabled ? this.cameraMat.clone() : null),
+      setPose: (m: THREE.Matrix4 | null) => {
+        this.poseOverride = m ? m.clone() : null;
+      },
+      groundTruthRay: (uImg: number, vImg: number) =>
+        this.intrinsics
+          ? imageUvToWorldRay(this.intrinsics, this.cameraMat, uImg, vImg)
+          : null,
+    };
+
+    if (this.config.autoEnable.peek() && (window as any).IWER_DEVICE) {
+      this.enable();
+    }
+  }
+
+  update() {
+    this.frameCounter++;
+    if (!this.enabled) return;
+
+    const xrMgr: any = this.xrManager;
+    const frame = this.xrFrame as XRFrame | null;
+    const refSpace: XRReferenceSpace | null =
+      xrMgr.getReferenceSpace?.() ?? null;
+    if (!frame || !refSpace) return;
+
+    const pose = frame.getViewerPose(refSpace);
+    if (pose) {
+      this.viewerMat = new THREE.Matrix4().fromArray(pose.transform.matrix);
+    }
+  }
+
+  // ---------------- enable / settings ----------------
+
+  // Same shape as MediaStreamTrack.getSettings() on Quest
+  private trackSettings(): CameraTrackSettings {
+    const [fx, fy] = this.config.focal.peek();
+    const [cx, cy] = this.config.principalPoint.peek();
+    const [k1, k2, k3] = this.config.radialDistortion.peek();
+    const [p1, p2] = this.config.tangentialDistortion.peek();
+    const [tx, ty, tz] = this.config.lensTranslation.peek();
+    const [pitch, yaw, roll] = this.config.lensTiltDeg.peek();
+
+    // Looking forward from the viewer, then the configured tilt
+    const tilt = new THREE.Quaternion().setFromEuler(
+      new THREE.Euler(
+        THREE.MathUtils.degToRad(pitch),
+        THREE.MathUtils.degToRad(yaw),
+        THREE.MathUtils.degToRad(roll),
+        "YXZ",
+      ),
+    );
+    const rot = tilt.multiply(
+      new THREE.Quaternion().setFromRotationMatrix(CAMERA_TO_THREE),
+    );
+
+    return {
+      width: this.config.width.peek(),
+      height: this.config.height.peek(),
+      lensIntrinsicCalibration: [fx, fy, cx, cy],
+      lensDistortion: [k1, k2, k3, p1, p2],
+      lensRotation: { x: rot.x, y: rot.y, z: rot.z, w: rot.w },
+      lensTranslation: { x: tx, y: ty, z: tz },
+    };
+  }
+
+  private enable() {
+    if (this.enabled) return;
+    const globals = this.globals as any;
+
+    const intr = intrinsicsFromTrackSettings(this.trackSettings());
+    if (!intr) return;
+    this.intrinsics = intr;
+
+    this.setupRenderer(intr);
+    this.enabled = true;
+
+    if (!globals.frameSource) globals.frameSource = this;
+    if (this.config.exposeIntrinsics.peek()) {
+      globals.cameraIntrinsics = intr;
+      globals.calibrationProfile = null;
+      globals.panelStatus = "Synthetic camera (ground truth)";
+    }
+    // Rendered on demand from the current pose
+    globals.cameraLatencyMs = 0;
+
+    console.log("[SyntheticCamera] enabled:", intr);
+  }
+
+  private disable() {
+    if (!this.enabled) return;
+    const globals = this.globals as any;
+    if (globals.frameSource === this) globals.frameSource = null;
+    this.enabled = false;
+    console.log("[SyntheticCamera] disabled");
+  }
+
+  // ---------------- rendering ----------------
+
+  private setupRenderer(intr: CameraIntrinsics) {
+    this.computeIdealBounds(intr);
+
+    if (!this.offscreen) {
+      this.offscreen = new THREE.WebGLRenderer({
+        antialias: true,
+        preserveDrawingBuffer: true, // read by drawImage() outside rAF
+      });
+      this.roomScene.background = new THREE.Color(0x202020);
+      // Proxies carry world matrices already; the camera is posed by hand
+      this.roomScene.matrixWorldAutoUpdate = false;
+    }
+    this.offscreen.setPixelRatio(1);
+    this.offscreen.setSize(intr.width, intr.height, false);
+
+    this.idealTarget?.dispose();
+    this.idealTarget = new THREE.WebGLRenderTarget(
+      Math.round(intr.width * IDEAL_SCALE),
+      Math.round(intr.height * IDEAL_SCALE),
+    );
+
+    const d = intr.distortion ?? [];
+    const { xmin, xmax, ymin, ymax } = this.bounds;
+
+    if (!this.distortMaterial) {
+      this.distortMaterial = new THREE.ShaderMaterial({
+        vertexShader: DISTORT_VERTEX,
+        fragmentShader: DISTORT_FRAGMENT,
+        uniforms: {
+          tIdeal: { value: null },
+          size: { value: new THREE.Vector2() },
+          focal: { value: new THREE.Vector4() },
+          radial: { value: new THREE.Vector3() },
+          tangential: { value: new THREE.Vector2() },
+          bounds: { value: new THREE.Vector4() },
+        },
+        depthTest: false,
+        depthWrite: false,
+      });
+      const quad = new THREE.Mesh(
+        new THREE.PlaneGeometry(2, 2),
+        this.distortMaterial,
+      );
+      quad.frustumCulled = false;
+      this.distortScene.add(quad);
+    }
+
+    const u = this.distortMaterial.uniforms;
+    u.tIdeal.value = this.idealTarget.texture;
+    u.size.value.set(intr.width, intr.height);
+    u.focal.value.set(intr.fx, intr.fy, intr.cx, intr.cy);
+    u.radial.value.set(d[0] ?? 0, d[1] ?? 0, d[2] ?? 0);
+    u.tangential.value.set(d[3] ?? 0, d[4] ?? 0);
+    u.bounds.value.set(xmin, xmax, ymin, ymax);
+  }
+
+  // Ideal (undistorted) normalized extent of the output image border
+  private computeIdealBounds(intr: CameraIntrinsics) {
+    let xmin = Infinity;
+    let xmax = -Infinity;
+    let ymin = Infinity;
+    let ymax = -Infinity;
+
+    const steps = 32;
+    for (let i = 0; i <= steps; i++) {
+      const s = i / steps;
+      const border = [
+        [s * intr.width, 0],
+        [s * intr.width, intr.height],
+        [0, s * intr.height],
+        [intr.width, s * intr.height],
+      ];
+      for (const [px, py] of border) {
+        const p = undistortNormalized(
+          intr,
+          (px - intr.cx) / intr.fx,
+          (py - intr.cy) / intr.fy,
+        );
+        xmin = Math.min(xmin, p.x);
+        xmax = Math.max(xmax, p.x);
+        ymin = Math.min(ymin, p.y);
+        ymax = Math.max(ymax, p.y);
+      }
+    }
+
+    const mx = (xmax - xmin) * BOUNDS_MARGIN;
+    const my = (ymax - ymin) * BOUNDS_MARGIN;
+    this.bounds = {
+      xmin: xmin - mx,
+      xmax: xmax + mx,
+      ymin: ymin - my,
+      ymax: ymax + my,
+    };
+  }
+
+  private syncRoom() {
+    const seen = new Set<Entity>();
+
+    const sync = (entity: Entity, label: string | undefined) => {
+      const object = entity.object3D as THREE.Mesh | undefined;
+      if (!object?.geometry) return;
+      seen.add(entity);
+
+      let proxy = this.proxies.get(entity);
+      if (!proxy) {
+        proxy = new THREE.Mesh(
+          object.geometry,
+          new THREE.ShaderMaterial({
+            vertexShader: ROOM_VERTEX,
+            fragmentShader: ROOM_FRAGMENT,
+            uniforms: { color: { value: labelColor(label) } },
+            side: THREE.DoubleSide,
+          }),
+        );
+        proxy.matrixAutoUpdate = false;
+        this.proxies.set(entity, proxy);
+        this.roomScene.add(proxy);
+      }
+
+      object.updateMatrixWorld();
+      proxy.matrix.copy(object.matrixWorld);
+      proxy.matrixWorld.copy(object.matrixWorld);
+    };
+
+    for (const entity of this.queries.planes.entities) {
+      sync(entity, (entity.getValue(XRPlane, "_plane") as any)?.semanticLabel);
+    }
+    for (const entity of this.queries.meshes.entities) {
+      sync(entity, entity.getValue(XRMesh, "semanticLabel") as string);
+    }
+
+    for (const [entity, proxy] of this.proxies) {
+      if (seen.has(entity)) continue;
+      this.roomScene.remove(proxy);
+      (proxy.material as THREE.Material).dispose();
+      this.proxies.delete(entity);
+    }
+  }
+
+  private render() {
+    const intr = this.intrinsics;
+    if (!this.offscreen || !this.idealTarget || !intr) return;
+
+    const viewerMat = this.viewerMat;
+    if (!this.poseOverride && !viewerMat) return;
+
+    this.cameraMat = this.poseOverride
+      ? this.poseOverride.clone()
+      : cameraPoseFromViewer(intr, viewerMat!);
+
+    this.syncRoom();
+
+    // Pass 1: ideal pinhole over the undistorted bounds (camera y is down)
+    const cam = this.renderCamera;
+    cam.matrixAutoUpdate = false;
+    cam.matrix.multiplyMatrices(this.cameraMat, CAMERA_TO_THREE);
+    cam.matrixWorld.copy(cam.matrix);
+    cam.matrixWorldInverse.copy(cam.matrixWorld).invert();
+
+    const { xmin, xmax, ymin, ymax } = this.bounds;
+    cam.projectionMatrix.makePerspective(
+      xmin * NEAR,
+      xmax * NEAR,
+      -ymin * NEAR,
+      -ymax * NEAR,
+      NEAR,
+      FAR,
+    );
+    cam.projectionMatrixInverse.copy(cam.projectionMatrix).invert();
+
+    this.offscreen.setRenderTarget(this.idealTarget);
+    this.offscreen.render(this.roomScene, cam);
+
+    // Pass 2: distortion into the output canvas
+    this.offscreen.setRenderTarget(null);
+    this.offscreen.render(this.distortScene, this.distortCamera);
+  }
+
+  // ---------------- FrameSource ----------------
+
+  capture(): HTMLCanvasElement | null {
+    if (!this.enabled || !this.offscreen) return null;
+
+    // At most one render per XR frame, however many systems capture
+    if (this.renderedFrame !== this.frameCounter) {
+      this.renderedFrame = this.frameCounter;
+      this.render();
+    }
+    return this.offscreen.domElement;
+  }
+}
@@ -4,15 +4,31 @@
 //   panel pixels -> camera image UV (A2 letterbox) ->
 //   intrinsics: pixel -> camera-space ray ->
 //   extrinsics: camera-space ray -> refSpace ray ->
-//   viewer-space ray -> XR hit-test -> reticle.
+//   globals.hitBackends (scene geometry, then XR hit-test) -> reticle.
 //
 // If intrinsics are missing, falls back to old NDC+unproject path.
+// Lens distortion is removed when building the ray and re-applied when the
+// hit point is projected back onto the panel (globals.reticlePanelUv).
+// The camera pose comes from globals.cameraFramePose (PoseSyncSystem): the
+// viewer pose when the displayed frame was captured, not the current one.
+// The latest hit (point, normal, label, backend) is kept in
+// globals.lastSurfaceHit.
+// globals.manifold (ManifoldSystem) answers a UV immediately from earlier
+// hits; every new hit is written back to refine it.
 
 import { createSystem } from "@iwsdk/core";
 import * as THREE from "three";
+import {
+  CameraImageMapping,
+  CameraIntrinsics,
+  panelUvToImageUv,
+  worldPointToPanelUv,
+} from "./camera-model";
+import { HitBackendRegistry, SurfaceHit, WorldRay } from "./hit-backends";
+import { ManifoldCache } from "./manifold-cache";
+import { panelUvToWorldRay, unprojectFromRenderCamera } from "./panel-ray";
 
 const FALLBACK_DISTANCE = 2.0;
-const HIT_TIMEOUT = 0.4;
 const RETICLE_RADIUS_OUTER = 0.07;
 const RETICLE_RADIUS_INNER = 0.05;
 const RETICLE_Z_OFFSET = 0.002; // meters above surface to avoid z-fighting
@@ -22,74 +38,17 @@ type TapHitState = {
   pendingRayUv: { u: number; v: number } | null;
 };
 
-type CameraImageMapping = {
-  srcW: number;
-  srcH: number;
-  panelW: number;
-  panelH: number;
-  renderW: number;
-  renderH: number;
-  offsetX: number;
-  offsetY: number;
-} | null;
-
-type CameraIntrinsics = {
-  width: number;
-  height: number;
-  fx: number;
-  fy: number;
-  cx: number;
-  cy: number;
-  distortion?: number[];
-  lensRotation?: { x: number; y: number; z: number; w: number };
-  lensTranslation?: { x: number; y: number; z: number };
-};
-
-type Spaces = {
-  session: XRSession;
-  refSpace: XRReferenceSpace;
-  viewerSpace: XRReferenceSpace;
-};
-
 export class TapHitDebugSystem extends createSystem({}, {}) {
   private reticle: THREE.Mesh | null = null;
-  private spacesPromise: Promise<Spaces | null> | null = null;
 
-  private activeHitSource: XRHitTestSource | null = null;
-  private pendingRayRef: { origin: THREE.Vector3; dir: THREE.Vector3 } | null =
-    null;
-  private timeSinceTap = 0;
+  // Async (XR hit-test) request in flight; no new one until it settles
+  private hitInFlight = false;
 
   // Rotate RingGeometry's +Z normal to +Y (WebXR surface normal)
   private readonly reticlePreRot = new THREE.Quaternion().setFromEuler(
     new THREE.Euler(-Math.PI / 2, 0, 0, "XYZ"),
   );
 
-  // ---------------- XR spaces ----------------
-
-  private async ensureSpaces(): Promise<Spaces | null> {
-    const xrMgr: any = this.xrManager;
-    const session: XRSession | null = xrMgr.getSession?.() ?? null;
-    if (!session) return null;
-
-    if (this.spacesPromise) return this.spacesPromise;
-
-    this.spacesPromise = (async () => {
-      let refSpace: XRReferenceSpace | null =
-        xrMgr.getReferenceSpace?.() ?? null;
-
-      if (!refSpace) {
-        refSpace = await session.requestReferenceSpace("local-floor");
-      }
-
-      const viewerSpace = await session.requestReferenceSpace("viewer");
-
-      return { session, refSpace, viewerSpace };
-    })();
-
-    return this.spacesPromise;
-  }
-
   // ---------------- reticle helpers ----------------
 
   private ensureReticle(scene: THREE.Scene) {
@@ -117,31 +76,28 @@ export class TapHitDebugSystem extends createSystem({}, {}) {
     scene.add(this.reticle);
   }
 
-  private placeReticleAtPoseMatrix(poseTransform: XRRigidTransform) {
+  private placeReticleAtHit(hit: SurfaceHit) {
     if (!this.reticle) return;
 
-    const poseMat = new THREE.Matrix4().fromArray(poseTransform.matrix);
+    // Surface normal -> +Y, then rotate the ring's local +Z (geometry normal)
+    // onto it
+    const normal = hit.normal.clone().normalize();
+    const quat = new THREE.Quaternion()
+      .setFromUnitVectors(new THREE.Vector3(0, 1, 0), normal)
+      .multiply(this.reticlePreRot);
 
-    const pos = new THREE.Vector3();
-    const quat = new THREE.Quaternion();
-    const scale = new THREE.Vector3();
-    poseMat.decompose(pos, quat, scale);
-
-    // Rotate reticle so its local +Z (geometry normal) becomes +Y (surface normal)
-    quat.multiply(this.reticlePreRot);
-
-    // Compute final surface normal from adjusted quaternion
-    const normal = new THREE.Vector3(0, 1, 0).applyQuaternion(quat).normalize();
-    pos.addScaledVector(normal, RETICLE_Z_OFFSET);
+    const pos = hit.point.clone().addScaledVector(normal, RETICLE_Z_OFFSET);
 
     this.reticle.position.copy(pos);
     this.reticle.quaternion.copy(quat);
-    this.reticle.scale.copy(scale);
+    this.reticle.scale.set(1, 1, 1);
     this.reticle.updateMatrix();
     this.reticle.visible = true;
   }
 
   private placeReticleFallback(origin: THREE.Vector3, dir: THREE.Vector3) {
+    // No surface: nothing to reproject onto the panel
+    (this.globals as any).reticlePanelUv = null;
     if (!this.reticle) return;
 
     const pos = origin
@@ -166,81 +122,92 @@ export class TapHitDebugSystem extends createSystem({}, {}) {
     this.reticle.visible = true;
   }
 
-  // Transform ray from refSpace to viewerSpace
-  private rayRefSpaceToViewerSpace(
-    originRef: THREE.Vector3,
-    dirRef: THREE.Vector3,
-    viewerPose: XRViewerPose,
+  // Project the hit back through the (distorted) camera model so the panel
+  // can show where the reticle lands in the image.
+  private reprojectHitToPanel(
+    point: THREE.Vector3,
+    cameraMat: THREE.Matrix4 | null,
   ) {
-    const m = new THREE.Matrix4().fromArray(viewerPose.transform.matrix); // viewer -> ref
-    const inv = new THREE.Matrix4().copy(m).invert(); // ref -> viewer
+    const globals = this.globals as any;
+    const intr: CameraIntrinsics | null | undefined = globals.cameraIntrinsics;
+    const mapping: CameraImageMapping | null =
+      globals.cameraImageMapping ?? null;
+
+    if (!intr || !mapping || !cameraMat) {
+      globals.reticlePanelUv = null;
+      return;
+    }
 
-    const oRef4 = new THREE.Vector4(originRef.x, originRef.y, originRef.z, 1.0);
-    const oView4 = oRef4.applyMatrix4(inv);
-    const originView = new THREE.Vector3(oView4.x, oView4.y, oView4.z);
+    globals.reticlePanelUv = worldPointToPanelUv(
+      intr,
+      mapping,
+      cameraMat,
+      point,
+    );
+  }
 
-    const pRef = originRef.clone().add(dirRef);
-    const pRef4 = new THREE.Vector4(pRef.x, pRef.y, pRef.z, 1.0);
-    const pView4 = pRef4.applyMatrix4(inv);
-    const pView = new THREE.Vector3(pView4.x, pView4.y, pView4.z);
+  private applyHit(hit: SurfaceHit, cameraMat: THREE.Matrix4 | null) {
+    const globals = this.globals as any;
+    globals.lastSurfaceHit = hit;
+
+    console.log(
+      "[YOLO HIT DEBUG] HIT via",
+      hit.source,
+      "| label:",
+      hit.label ?? "-",
+      "| dist:",
+      hit.distance.toFixed(3),
+      "| normal:",
+      hit.normal.x.toFixed(2),
+      hit.normal.y.toFixed(2),
+      hit.normal.z.toFixed(2),
+    );
 
-    const dirView = pView.sub(originView).normalize();
-    return { originView, dirView };
+    this.placeReticleAtHit(hit);
+    this.reprojectHitToPanel(hit.point, cameraMat);
+  }
+
+  private recordSample(
+    manifold: ManifoldCache,
+    u: number,
+    v: number,
+    hit: SurfaceHit,
+    viewerMat: THREE.Matrix4,
+  ) {
+    const viewerPosition = new THREE.Vector3();
+    const viewerQuaternion = new THREE.Quaternion();
+    viewerMat.decompose(viewerPosition, viewerQuaternion, new THREE.Vector3());
+
+    manifold.add({
+      u,
+      v,
+      point: hit.point.clone(),
+      normal: hit.normal.clone(),
+      viewerPosition,
+      viewerQuaternion,
+      time: performance.now(),
+      confidence: hit.confidence ?? 1,
+      label: hit.label,
+      source: hit.source,
+    });
   }
 
   // ---------------- main update ----------------
 
-  async update(dt: number, time: number) {
+  update() {
     const scene = this.scene as THREE.Scene;
     const camera = this.camera as THREE.PerspectiveCamera;
     const globals = this.globals as any;
     const tapState: TapHitState | undefined = globals.tapHitState;
+    const registry: HitBackendRegistry | undefined = globals.hitBackends;
 
     this.ensureReticle(scene);
 
-    const frame = this.xrFrame as XRFrame | null;
-    const spaces = await this.ensureSpaces();
-    if (!frame || !spaces) return;
-
-    const { refSpace, viewerSpace, session } = spaces;
-
-    // 1) If we already have an active hit-test source, poll it
-    if (this.activeHitSource) {
-      this.timeSinceTap += dt;
-
-      const results = frame.getHitTestResults(this.activeHitSource);
-
-      if (results.length) {
-        const pose = results[0].getPose(refSpace);
-        if (pose) {
-          this.placeReticleAtPoseMatrix(pose.transform);
-        }
-
-        this.activeHitSource.cancel();
-        this.activeHitSource = null;
-        this.pendingRayRef = null;
-        this.timeSinceTap = 0;
-        return;
-      }
-
-      if (this.timeSinceTap > HIT_TIMEOUT && this.pendingRayRef) {
-        const { origin, dir } = this.pendingRayRef;
-        console.log("[YOLO HIT DEBUG] NO-HIT (timeout) -> fallback");
-        this.placeReticleFallback(origin, dir);
-
-        this.activeHitSource.cancel();
-        this.activeHitSource = null;
-        this.pendingRayRef = null;
-        this.timeSinceTap = 0;
-      }
-
-      return;
-    }
-
-    // 2) No active source: do we have a new hover UV from the panel?
+    // 1) Do we have a new hover UV from the panel?
     if (!tapState || !tapState.pendingRayUv) return;
 
-    const mapping: CameraImageMapping = globals.cameraImageMapping ?? null;
+    const mapping: CameraImageMapping | null =
+      globals.cameraImageMapping ?? null;
     if (!mapping) {
       console.warn(
         "[YOLO HIT DEBUG] No cameraImageMapping; using fallback only",
@@ -255,112 +222,39 @@ export class TapHitDebugSystem extends createSystem({}, {}) {
     const { u, v } = tapState.pendingRayUv;
     tapState.pendingRayUv = null; // consume this sample
 
-    const {
-      srcW,
-      srcH,
-      panelW,
-      panelH,
-      renderW,
-      renderH,
-      offsetX,
-      offsetY,
-    } = mapping;
-
-    // Panel UV -> panel pixels
-    const px = u * panelW;
-    const py = v * panelH;
-
-    // Map into the letterboxed camera region
-    const camU = (px - offsetX) / renderW;
-    const camV = (py - offsetY) / renderH;
-
-    // Raw image UV
-    let uImg = camU;
-    let vImg = camV;
-
-    // Clamp in case of hover outside video bounds
-    uImg = THREE.MathUtils.clamp(uImg, 0, 1);
-    vImg = THREE.MathUtils.clamp(vImg, 0, 1);
-
-    // Fallback values if we end up needing NDC/unproject
-    let originRef = new THREE.Vector3();
-    let dirRef = new THREE.Vector3();
-
-    // Viewer pose is needed for both extrinsics and hit-test
-    const viewerPose = frame.getViewerPose(refSpace);
-    if (!viewerPose) {
+    // Viewer pose is needed for extrinsics and every hit backend
+    const ctx = registry?.context ?? null;
+    if (!registry || !ctx) {
       console.log("[YOLO HIT DEBUG] No viewerPose; using camera fallback");
-      camera.getWorldPosition(originRef);
-
-      const xNdcFallback = uImg * 2 - 1;
-      const yNdcFallback = 1 - vImg * 2;
-
-      const ndcPoint = new THREE.Vector3(xNdcFallback, yNdcFallback, -1);
-      const worldPoint = ndcPoint.clone().unproject(camera);
-      dirRef = worldPoint.sub(originRef).normalize();
-
-      this.placeReticleFallback(originRef, dirRef);
-      this.pendingRayRef = null;
+      const img = panelUvToImageUv(mapping, u, v);
+      const fallback = unprojectFromRenderCamera(
+        camera,
+        THREE.MathUtils.clamp(img.u, 0, 1),
+        THREE.MathUtils.clamp(img.v, 0, 1),
+      );
+      this.placeReticleFallback(fallback.origin, fallback.dir);
       return;
     }
 
-    // 2a) Preferred path: intrinsics + lensRotation/Translation
-    const useIntrinsics =
-      cameraIntrinsics &&
-      cameraIntrinsics.width &&
-      cameraIntrinsics.height &&
-      cameraIntrinsics.fx &&
-      cameraIntrinsics.fy &&
-      cameraIntrinsics.cx !== undefined &&
-      cameraIntrinsics.cy !== undefined &&
-      cameraIntrinsics.lensRotation &&
-      cameraIntrinsics.lensTranslation;
-
-    if (useIntrinsics) {
-      const intr = cameraIntrinsics as CameraIntrinsics;
-
-      // Image UV -> pixel coordinates
-      const xPix = uImg * intr.width;
-      const yPix = vImg * intr.height;
-
-      // Pinhole camera model (Android-style intrinsics)
-      const xCam = (xPix - intr.cx) / intr.fx;
-      const yCam = (yPix - intr.cy) / intr.fy;
-
-      const dirCam = new THREE.Vector3(xCam, yCam, 1).normalize();
-
-      // Build camera pose in refSpace: viewerPose (display center) * lens pose
-      const viewerMat = new THREE.Matrix4().fromArray(
-        viewerPose.transform.matrix,
-      );
-
-      const lensQ = new THREE.Quaternion(
-        intr.lensRotation!.x,
-        intr.lensRotation!.y,
-        intr.lensRotation!.z,
-        intr.lensRotation!.w,
-      );
-      const lensT = new THREE.Vector3(
-        intr.lensTranslation!.x,
-        intr.lensTranslation!.y,
-        intr.lensTranslation!.z,
-      );
-      const lensMat = new THREE.Matrix4().compose(
-        lensT,
-        lensQ,
-        new THREE.Vector3(1, 1, 1),
-      );
-
-      const camMatRef = viewerMat.clone().multiply(lensMat);
-
-      const camPosRef = new THREE.Vector3();
-      const camRotRef = new THREE.Quaternion();
-      const camScaleRef = new THREE.Vector3();
-      camMatRef.decompose(camPosRef, camRotRef, camScaleRef);
-
-      originRef = camPosRef.clone();
-      dirRef = dirCam.clone().applyQuaternion(camRotRef).normalize();
+    const viewerMat: THREE.Matrix4 =
+      globals.cameraFramePose?.matrix.clone() ??
+      new THREE.Matrix4().fromArray(ctx.viewerPose.transform.matrix);
+
+    // 2) Preferred path: intrinsics (+ distortion) + lensRotation/Translation;
+    //    otherwise the old "unproject from HMD camera" path
+    const panelRay = panelUvToWorldRay(
+      mapping,
+      cameraIntrinsics,
+      viewerMat,
+      camera,
+      u,
+      v,
+    );
+    const { cameraMat, inImage } = panelRay;
+    const { u: uImg, v: vImg } = panelRay.imageUv;
+    const { origin: originRef, dir: dirRef } = panelRay.ray;
 
+    if (panelRay.path === "extrinsics") {
       console.log(
         "[YOLO HIT DEBUG] EXTRINSICS ray | panel uv:",
         u.toFixed(3),
@@ -378,16 +272,6 @@ export class TapHitDebugSystem extends createSystem({}, {}) {
         dirRef.z.toFixed(3),
       );
     } else {
-      // 2b) Fallback: old "unproject from HMD camera" path
-      const xNdc = uImg * 2 - 1;
-      const yNdc = 1 - vImg * 2;
-
-      const ndcPoint = new THREE.Vector3(xNdc, yNdc, -1);
-      const worldPoint = ndcPoint.clone().unproject(camera);
-
-      camera.getWorldPosition(originRef);
-      dirRef = worldPoint.sub(originRef).normalize();
-
       console.log(
         "[YOLO HIT DEBUG] Fallback ray | panel uv:",
         u.toFixed(3),
@@ -396,53 +280,63 @@ export class TapHitDebugSystem extends createSystem({}, {}) {
         uImg.toFixed(3),
         vImg.toFixed(3),
         "| ndc:",
-        xNdc.toFixed(3),
-        yNdc.toFixed(3),
+        (uImg * 2 - 1).toFixed(3),
+        (1 - vImg * 2).toFixed(3),
       );
     }
 
-    this.pendingRayRef = { origin: originRef.clone(), dir: dirRef.clone() };
-    this.timeSinceTap = 0;
-
-    const fallbackPos = originRef
-      .clone()
-      .add(dirRef.clone().multiplyScalar(FALLBACK_DISTANCE));
-
-    const hitSession = session as XRSession & {
-      requestHitTestSource?: (
-        init: XRHitTestOptionsInit,
-      ) => Promise<XRHitTestSource>;
+    const ray: WorldRay = { origin: originRef.clone(), dir: dirRef.clone() };
+    const manifold: ManifoldCache | undefined = globals.manifold?.cache;
+    const record = (hit: SurfaceHit) => {
+      if (!manifold || !inImage) return;
+      this.recordSample(manifold, u, v, hit, viewerMat);
     };
 
-    if (!hitSession.requestHitTestSource) {
-      console.warn("[YOLO HIT DEBUG] Hit-test API not available; fallback");
-      this.placeReticleFallback(originRef, dirRef);
-      this.pendingRayRef = null;
-      return;
-    }
-
-    try {
-      const { originView, dirView } = this.rayRefSpaceToViewerSpace(
-        originRef,
-        dirRef,
-        viewerPose,
+    // 3) Cached manifold: answer right away, backends below refine it
+    const cached = manifold && inImage ? manifold.query(u, v, ray) : null;
+    if (cached) {
+      this.applyHit(
+        {
+          point: cached.point,
+          normal: cached.normal,
+          distance: cached.point.distanceTo(ray.origin),
+          label: null,
+          source: "manifold",
+          confidence: cached.confidence,
+        },
+        cameraMat,
       );
+    }
 
-      const xrRay = new XRRay(
-        new DOMPointReadOnly(originView.x, originView.y, originView.z, 1),
-        new DOMPointReadOnly(dirView.x, dirView.y, dirView.z, 0),
-      );
+    // 4) Synchronous backends: reticle lands this frame
+    const syncHit = registry.raycastSync(ray);
+    if (syncHit) {
+      this.applyHit(syncHit, cameraMat);
+      record(syncHit);
+      return;
+    }
 
-      this.activeHitSource = await hitSession.requestHitTestSource({
-        space: viewerSpace,
-        offsetRay: xrRay,
+    // 5) Async backends (XR hit-test): settle later, or fall back
+    if (this.hitInFlight) return;
+
+    this.hitInFlight = true;
+    registry
+      .raycastAsync(ray)
+      .then((hit) => {
+        if (hit) {
+          this.applyHit(hit, cameraMat);
+          record(hit);
+        } else if (!cached) {
+          console.log("[YOLO HIT DEBUG] NO-HIT -> fallback");
+          this.placeReticleFallback(ray.origin, ray.dir);
+        }
+      })
+      .catch((e) => {
+        console.warn("[YOLO HIT DEBUG] raycast failed; fallback", e);
+        if (!cached) this.placeReticleFallback(ray.origin, ray.dir);
+      })
+      .finally(() => {
+        this.hitInFlight = false;
       });
-    } catch (e) {
-      console.warn("[YOLO HIT DEBUG] requestHitTestSource failed; fallback", e);
-      this.placeReticleFallback(originRef, dirRef);
-      this.activeHitSource = null;
-      this.pendingRayRef = null;
-      this.timeSinceTap = 0;
-    }
   }
 }
@@ -0,0 +1,348 @@
+// tracker.ts
+//
+// Multi-object tracker for detection batches (SORT-style, plus world space).
+// Each track keeps two constant-velocity Kalman filters (kalman.ts):
+//   image: box cx, cy, w, h in camera image UV
+//   world: x, y, z in refSpace meters (from the detection's surface hit)
+// Association per batch:
+//   1. predict every track to the batch time; the predicted image center is
+//      the world estimate projected with the batch's camera pose, so turning
+//      the head does not break matching (image KF alone when no world state)
+//   2. Hungarian assignment of detections to tentative/confirmed tracks,
+//      cost = mix of (1 - IoU) and world distance, same class only
+//   3. Hungarian re-identification of the leftovers against lost tracks,
+//      by class and world distance: the old id comes back
+// Lifecycle:
+//   tentative -> confirmed after minHits matches (dropped on first miss)
+//   confirmed -> lost when unseen for lostAfter seconds
+//   lost      -> removed after forgetAfter seconds
+
+import * as THREE from "three";
+import { KalmanVector } from "./kalman";
+import { hungarian } from "./linalg";
+
+// Axis-aligned box in camera image UV (0..1, top-left origin)
+export type BoxUv = { cx: number; cy: number; w: number; h: number };
+
+export type TrackObservation = {
+  box: BoxUv;
+  classId: number;
+  label: string;
+  score: number;
+  worldPoint: THREE.Vector3 | null;
+  worldSigma?: number; // meters; large for fallback (no surface) placements
+};
+
+export type TrackState = "tentative" | "confirmed" | "lost";
+
+export type Track = {
+  id: number;
+  state: TrackState;
+  classId: number;
+  label: string;
+  score: number;
+  hits: number;
+  reidentified: number; // times it came back from "lost"
+  firstSeen: number; // seconds (tracker clock)
+  lastSeen: number;
+  box: BoxUv; // filtered
+  worldPos: THREE.Vector3 | null; // filtered
+  image: KalmanVector;
+  world: KalmanVector | null;
+  time: number; // time the filters were last predicted to
+};
+
+// Image UV of a refSpace point for the current batch's camera, or null
+export type ProjectFn = (
+  point: THREE.Vector3,
+) => { u: number; v: number } | null;
+
+export type TrackerOptions = {
+  minHits: number;
+  lostAfter: number; // s
+  forgetAfter: number; // s
+  minIou: number; // below this, only the world gate can match
+  worldGate: number; // m, association gate (and cost scale)
+  reidGate: number; // m, re-identification gate
+  imageSigma: number; // UV, detection box noise
+  imageProcessNoise: number; // UV^2 / s^3
+  worldSigma: number; // m, default surface hit noise
+  worldProcessNoise: number; // m^2 / s^3
+};
+
+export const DEFAULT_TRACKER_OPTIONS: TrackerOptions = {
+  minHits: 3,
+  lostAfter: 1.5,
+  forgetAfter: 10,
+  minIou: 0.1,
+  worldGate: 0.5,
+  reidGate: 0.5,
+  imageSigma: 0.01,
+  imageProcessNoise: 0.05,
+  worldSigma: 0.05,
+  worldProcessNoise: 0.01,
+};
+
+export type TrackerUpdate = {
+  matched: Track[];
+  created: Track[];
+  reidentified: Track[];
+  removed: number[]; // tentative tracks that missed this batch
+  trackIds: number[]; // track id per observation, in input order
+};
+
+export function boxIou(a: BoxUv, b: BoxUv): number {
+  const x1 = Math.max(a.cx - a.w / 2, b.cx - b.w / 2);
+  const y1 = Math.max(a.cy - a.h / 2, b.cy - b.h / 2);
+  const x2 = Math.min(a.cx + a.w / 2, b.cx + b.w / 2);
+  const y2 = Math.min(a.cy + a.h / 2, b.cy + b.h / 2);
+
+  const inter = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a.w * a.h + b.w * b.h - inter;
+  return union > 0 ? inter / union : 0;
+}
+
+export class MultiObjectTracker {
+  readonly options: TrackerOptions;
+  private tracks = new Map<number, Track>();
+  private nextId = 1;
+
+  constructor(options: Partial<TrackerOptions> = {}) {
+    this.options = { ...DEFAULT_TRACKER_OPTIONS, ...options };
+  }
+
+  get(id: number): Track | null {
+    return this.tracks.get(id) ?? null;
+  }
+
+  list(state?: TrackState): Track[] {
+    const all = [...this.tracks.values()];
+    return state ? all.filter((t) => t.state === state) : all;
+  }
+
+  clear() {
+    this.tracks.clear();
+  }
+
+  // One detection batch. time: capture time of the batch (s);
+  // project: maps world points into this batch's image (head-turn aware)
+  update(
+    observations: TrackObservation[],
+    time: number,
+    project?: ProjectFn,
+  ): TrackerUpdate {
+    const result: TrackerUpdate = {
+      matched: [],
+      created: [],
+      reidentified: [],
+      removed: [],
+      trackIds: new Array(observations.length).fill(0),
+    };
+
+    const active: Track[] = [];
+    const lost: Track[] = [];
+    for (const t of this.tracks.values()) {
+      if (t.state === "lost") lost.push(t);
+      else {
+        this.predict(t, time, project);
+        active.push(t);
+      }
+    }
+
+    // 1) detections <-> tentative / confirmed tracks
+    const assigned = hungarian(
+      observations.map((o) => active.map((t) => this.matchCost(t, o))),
+    );
+
+    const matchedTracks = new Set<Track>();
+    const leftover: number[] = [];
+    assigned.forEach((j, i) => {
+      if (j < 0) {
+        leftover.push(i);
+        return;
+      }
+      const track = active[j];
+      this.correct(track, observations[i], time);
+      matchedTracks.add(track);
+      result.matched.push(track);
+      result.trackIds[i] = track.id;
+    });
+
+    // 2) leftovers <-> lost tracks (re-identification)
+    const reassigned = hungarian(
+      leftover.map((i) => lost.map((t) => this.reidCost(t, observations[i]))),
+    );
+
+    const unmatched: number[] = [];
+    reassigned.forEach((j, k) => {
+      const obs = observations[leftover[k]];
+      if (j < 0) {
+        unmatched.push(leftover[k]);
+        return;
+      }
+      const track = lost[j];
+      track.time = time;
+      track.reidentified++;
+      track.state = "confirmed";
+      this.correct(track, obs, time);
+      result.reidentified.push(track);
+      result.trackIds[leftover[k]] = track.id;
+      console.log("[Tracker] Re-identified", track.label, "#" + track.id);
+    });
+
+    // Tentative tracks must match every batch until confirmed
+    for (const t of active) {
+      if (t.state === "tentative" && !matchedTracks.has(t)) {
+        this.tracks.delete(t.id);
+        result.removed.push(t.id);
+      }
+    }
+
+    for (const i of unmatched) {
+      const track = this.create(observations[i], time);
+      result.created.push(track);
+      result.trackIds[i] = track.id;
+    }
+
+    return result;
+  }
+
+  // Ages tracks out by wall time (also when no batches arrive);
+  // returns the ids that were removed
+  expire(time: number): number[] {
+    const { lostAfter, forgetAfter } = this.options;
+    const removed: number[] = [];
+
+    for (const t of this.tracks.values()) {
+      const unseen = time - t.lastSeen;
+      if (t.state === "lost" ? unseen > forgetAfter : unseen > lostAfter) {
+        if (t.state === "confirmed") {
+          // Keep where it was last seen; velocity would drift it away
+          t.state = "lost";
+          t.image.stop();
+          t.world?.stop();
+          t.worldPos = t.world ? vec3(t.world.values) : t.worldPos;
+          continue;
+        }
+        this.tracks.delete(t.id);
+        removed.push(t.id);
+      }
+    }
+
+    return removed;
+  }
+
+  // ---------------- internals ----------------
+
+  private create(obs: TrackObservation, time: number): Track {
+    const o = this.options;
+    const { cx, cy, w, h } = obs.box;
+    const track: Track = {
+      id: this.nextId++,
+      state: o.minHits <= 1 ? "confirmed" : "tentative",
+      classId: obs.classId,
+      label: obs.label,
+      score: obs.score,
+      hits: 1,
+      reidentified: 0,
+      firstSeen: time,
+      lastSeen: time,
+      box: { ...obs.box },
+      worldPos: obs.worldPoint?.clone() ?? null,
+      image: new KalmanVector(
+        [cx, cy, w, h],
+        o.imageSigma ** 2,
+        o.imageProcessNoise,
+      ),
+      world: obs.worldPoint
+        ? new KalmanVector(
+            obs.worldPoint.toArray(),
+            (obs.worldSigma ?? o.worldSigma) ** 2,
+            o.worldProcessNoise,
+          )
+        : null,
+      time,
+    };
+    this.tracks.set(track.id, track);
+    return track;
+  }
+
+  private predict(track: Track, time: number, project?: ProjectFn) {
+    const dt = time - track.time;
+    track.time = time;
+    track.image.predict(dt);
+    track.world?.predict(dt);
+
+    if (track.world) {
+      track.worldPos = vec3(track.world.values);
+
+      // Re-anchor the image center on where the world estimate lands in
+      // this frame; the head moved, the object (mostly) did not
+      const uv = project?.(track.worldPos);
+      if (uv) {
+        track.image.axes[0].x = uv.u;
+        track.image.axes[1].x = uv.v;
+      }
+    }
+
+    const [cx, cy, w, h] = track.image.values;
+    track.box = { cx, cy, w, h };
+  }
+
+  private correct(track: Track, obs: TrackObservation, time: number) {
+    const o = this.options;
+    const { cx, cy, w, h } = obs.box;
+
+    track.image.update([cx, cy, w, h], o.imageSigma ** 2);
+    const [fcx, fcy, fw, fh] = track.image.values;
+    track.box = { cx: fcx, cy: fcy, w: fw, h: fh };
+
+    if (obs.worldPoint) {
+      const r = (obs.worldSigma ?? o.worldSigma) ** 2;
+      if (track.world) track.world.update(obs.worldPoint.toArray(), r);
+      else {
+        track.world = new KalmanVector(
+          obs.worldPoint.toArray(),
+          r,
+          o.worldProcessNoise,
+        );
+      }
+      track.worldPos = vec3(track.world.values);
+    }
+
+    track.label = obs.label;
+    track.score = obs.score;
+    track.lastSeen = time;
+    track.hits++;
+    if (track.state === "tentative" && track.hits >= o.minHits) {
+      track.state = "confirmed";
+    }
+  }
+
+  private matchCost(track: Track, obs: TrackObservation): number {
+    if (track.classId !== obs.classId) return Infinity;
+
+    const { minIou, worldGate } = this.options;
+    const iou = boxIou(track.box, obs.box);
+    const dist =
+      track.worldPos && obs.worldPoint
+        ? track.worldPos.distanceTo(obs.worldPoint)
+        : null;
+
+    if (iou < minIou && (dist === null || dist > worldGate)) return Infinity;
+    if (dist === null) return 1 - iou;
+    return 0.5 * (1 - iou) + 0.5 * Math.min(1, dist / worldGate);
+  }
+
+  private reidCost(track: Track, obs: TrackObservation): number {
+    if (track.classId !== obs.classId) return Infinity;
+    if (!track.worldPos || !obs.worldPoint) return Infinity;
+
+    const dist = track.worldPos.distanceTo(obs.worldPoint);
+    return dist <= this.options.reidGate ? dist : Infinity;
+  }
+}
+
+function vec3(values: number[]): THREE.Vector3 {
+  return new THREE.Vector3(values[0], values[1], values[2]);
+}
@@ -1,74 +1,125 @@
-// yolo-system.ts — YOLO + WebXR hit-test labels for Quest 3 (plane-based depth)
-
-import { createSystem, Types, CameraUtils } from "@iwsdk/core";
+// yolo-system.ts — YOLO labels on real surfaces for Quest 3
+//
+// Frames go to the worker through globals.detectionPipeline
+// (DetectionPipeline); each returned batch is placed using the viewer pose
+// captured with its frame, not the pose when the result arrives.
+// Each detection's box center is cast through the camera model
+// (intrinsics + lens pose, panel-ray.ts) and hits its own surface via the
+// hit backends (scene geometry, depth, WebXR hit-test offset ray).
+// With a segmentation model the ray goes through the most interior mask
+// pixel instead, and the mask outline is drawn in the room at the hit depth.
+// With a pose model each person's keypoints are lifted into the room
+// (pose.ts), drawn as a skeleton and streamed as globals.poseStream.
+// Placed detections feed MultiObjectTracker (tracker.ts, globals.tracker);
+// each confirmed track is an entity with a DetectedObject component
+// (detected-object.ts) whose object3D follows the track's filtered world
+// position and carries its label, so ids and labels stay put while the
+// head turns. The batch's boxes, with their track
+// ids, go to the panel overlay as globals.detectionOverlay, and a reduced
+// copy of the batch's frame as globals.detectionFrame (for crops).
+
+import { createSystem, Entity, Types } from "@iwsdk/core";
 import * as THREE from "three";
-import { Detection, getClassName } from "./yolo";
-
-const INPUT_SIZE = 640;
+import { DetectionOverlay, hueForKey } from "./detection-overlay";
+import { DetectionBatch, DetectionPipeline } from "./detection-pipeline";
+import { DetectedObject, DetectedObjectState } from "./detected-object";
+import { downloadBlob } from "./download";
+import { CameraFrame, captureCameraFrame } from "./frame-source";
+import { HitBackendRegistry, SurfaceHit, WorldRay } from "./hit-backends";
+import {
+  createLabelMesh,
+  disposeLabelMesh,
+  updateLabelMesh,
+} from "./label-mesh";
+import { imageUvToRay, worldPointToImageUvAt } from "./panel-ray";
+import {
+  COCO_SKELETON,
+  PoseJoint,
+  PoseStream,
+  keypointName,
+  liftJoints,
+} from "./pose";
+import { MultiObjectTracker, Track, TrackObservation } from "./tracker";
+import { maskCellToImageUv, maskOutline } from "./segmentation";
+import { Detection, detectionAnchorUv, detectionImageUv } from "./yolo";
 
 // depth & label limits
 const FALLBACK_DISTANCE = 2.0; // meters along camera ray
+const LABEL_SURFACE_OFFSET = 0.05; // pull labels toward the viewer (m)
 const MAX_LABELS = 5;
 const MIN_SCORE_VISUAL = 0.35;
 
 // tracking
-const TRACK_TTL_SECONDS = 1.5; // how long a track can go unseen
-const MAX_ASSOC_NORM_DIST = 0.12; // how far (in NDC) we still consider "same object"
+const FALLBACK_WORLD_SIGMA = 0.5; // m, trust in a point with no surface hit
+
+// pose
+const MIN_KEYPOINT_SCORE = 0.5;
+const SKELETON_COLOR = 0x40ff80;
 
 // label visuals
 const LABEL_WIDTH = 0.3;
 const LABEL_HEIGHT = 0.08;
 
+// frame snapshots kept for globals.detectionFrame
+const SNAPSHOT_WIDTH = 640; // px
+const MAX_SNAPSHOTS = 8;
+
 // FOV / visibility
 const MIN_VIEW_DOT = 0.1; // hide if angle > ~84° off center
 
-interface YoloTrack {
-  id: number;
-  classId: number;
-  lastScore: number;
-  lastSeenTime: number; // seconds since system start
-
-  // last detection center in normalized [0..1] camera space
-  cxNorm: number;
-  cyNorm: number;
-
-  // smoothed world position of the label
-  worldPos: THREE.Vector3;
-
-  // label mesh in the scene
-  labelMesh: THREE.Mesh;
-}
+// Entity (object3D = group at the track position) + its label mesh
+type TrackObject = {
+  entity: Entity;
+  label: THREE.Mesh;
+};
 
-type Spaces = {
-  session: XRSession;
-  refSpace: XRReferenceSpace;
-  viewerSpace: XRReferenceSpace;
+type Placement = {
+  ray: WorldRay;
+  point: THREE.Vector3;
+  hit: SurfaceHit | null; // null = FALLBACK_DISTANCE along the ray
 };
 
 export class YoloSystem extends createSystem(
   {},
   {
     interval: { type: Types.Float32, default: 0.35 }, // seconds between YOLO frames
+    logPlacements: { type: Types.Boolean, default: false }, // one per batch
   },
 ) {
   private accumTime = 0;
-  private elapsedTime = 0;
 
-  private raycaster = new THREE.Raycaster();
-  private ndc = new THREE.Vector2();
+  // render camera moved to the viewer pose of the batch being placed
+  private captureCamera = new THREE.PerspectiveCamera();
+  private lastBatchId = 0;
+  private lastSubmittedFrame = -1; // globals.cameraFrame id
+  private placing = false; // async hit-tests for a batch still pending
+  private loadStatus: string | null = null; // model download line we posted
 
   private labelGroup: THREE.Group | null = null;
-  private tracks = new Map<number, YoloTrack>();
-  private nextTrackId = 1;
-
-  // cache for XR spaces (once a session exists)
-  private spacesPromise: Promise<Spaces | null> | null = null;
-
-  // single viewer-space hit-test source (like the flower demo)
-  private viewerHitSource: XRHitTestSource | null = null;
-
-  // last horizontal plane height derived from hit-test
-  private lastHitPlaneY: number | null = null;
+  private tracker = new MultiObjectTracker();
+  private objects = new Map<number, TrackObject>(); // by track id
+  private outlines = new Map<number, THREE.Line>(); // by track id
+  private skeletons = new Map<number, THREE.Line>(); // by track id
+  private poseStream = new PoseStream();
+  private snapshots = new Map<number, HTMLCanvasElement>(); // by frame id
+
+  init() {
+    const globals = this.globals as any;
+    globals.tracker = this.tracker;
+    globals.poseStream = {
+      subscribe: (listener: Parameters<PoseStream["subscribe"]>[0]) =>
+        this.poseStream.subscribe(listener),
+      latest: (trackId?: number) => this.poseStream.latest(trackId),
+      clear: () => this.poseStream.clear(),
+      exportCsv: () => {
+        const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+        downloadBlob(
+          `pose-${stamp}.csv`,
+          new Blob([this.poseStream.toCsv()], { type: "text/csv" }),
+        );
+      },
+    };
+  }
 
   // ---------------- UPDATE ----------------
 
@@ -76,58 +127,122 @@ export class YoloSystem extends createSystem(
     if (this.isPaused) return;
 
     this.accumTime += dt;
-    this.elapsedTime += dt;
 
-    // billboards & visibility every frame
+    // track ageing (confirmed -> lost -> removed), then entities
+    this.tracker.expire(performance.now() / 1000);
+    this.syncObjects();
     this.updateBillboardsAndVisibility();
 
+    const pipeline = this.globals.detectionPipeline as
+      | DetectionPipeline
+      | undefined;
+    if (!pipeline) return;
+    pipeline.update();
+    this.showLoadProgress(pipeline);
+
+    // 1) Capture frame & send to YOLO worker (skipped while it is busy)
     const interval = this.config.interval.peek();
-    if (this.accumTime < interval) return;
-    this.accumTime = 0;
+    const frame: CameraFrame | null = this.globals.cameraFrame ?? null;
+    const newFrame = !frame || frame.frameId !== this.lastSubmittedFrame;
+    if (this.accumTime >= interval && newFrame && pipeline.canSubmit()) {
+      this.accumTime = 0;
+      await this.submitFrame(pipeline);
+    }
 
-    const cameraEntity = this.globals.cameraEntity;
-    const sendFrameToWorker = this.globals.sendFrameToWorker as
-      | ((b: ImageBitmap) => void)
-      | undefined;
+    // 2) Place the newest batch once (one batch at a time)
+    const batch = pipeline.latest;
+    if (!batch || batch.frameId === this.lastBatchId || this.placing) return;
+    this.lastBatchId = batch.frameId;
+
+    // Empty batches still count: they are misses for tentative tracks
+    const dets = batch.detections
+      .filter((d) => d.score >= MIN_SCORE_VISUAL)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_LABELS);
 
-    if (!cameraEntity || !sendFrameToWorker) {
-      this.pruneExpiredTracks();
-      return;
+    this.placing = true;
+    try {
+      await this.updateTracksFromDetections(dets, batch);
+    } finally {
+      this.placing = false;
     }
+  }
 
-    // 1) Capture frame & send to YOLO worker
-    const frameCanvas: HTMLCanvasElement | null =
-      CameraUtils.captureFrame?.(cameraEntity) ?? null;
+  private async submitFrame(pipeline: DetectionPipeline) {
+    // The frame on the panel (capture time + pose match it), else grab one
+    const globals = this.globals as any;
+    const frame: CameraFrame | null = globals.cameraFrame ?? null;
+    const frameCanvas = frame?.canvas ?? captureCameraFrame(globals);
+    if (!frameCanvas || typeof createImageBitmap !== "function") return;
+    this.lastSubmittedFrame = frame?.frameId ?? -1;
 
-    if (frameCanvas && typeof createImageBitmap === "function") {
-      try {
-        const bitmap = await createImageBitmap(frameCanvas);
-        sendFrameToWorker(bitmap);
-      } catch (err) {
-        console.warn("[YoloSystem] createImageBitmap failed:", err);
+    // Viewer pose when this camera frame was taken (PoseSyncSystem), else now
+    const captureTime = frame?.captureTime ?? performance.now();
+    const viewerMatrix: THREE.Matrix4 | null =
+      globals.cameraFramePose?.matrix.clone() ?? this.currentViewerMatrix();
+
+    try {
+      const snapshot = snapshotFrame(frameCanvas);
+      const bitmap = await createImageBitmap(frameCanvas);
+      const frameId = pipeline.submit(bitmap, {
+        captureTime,
+        viewerMatrix,
+        width: frameCanvas.width,
+        height: frameCanvas.height,
+      });
+      if (frameId !== null && snapshot) this.snapshots.set(frameId, snapshot);
+      // Frames lost in a worker restart are never delivered
+      for (const id of this.snapshots.keys()) {
+        if (this.snapshots.size <= MAX_SNAPSHOTS) break;
+        this.snapshots.delete(id);
       }
+    } catch (err) {
+      console.warn("[YoloSystem] createImageBitmap failed:", err);
     }
+  }
 
-    // 2) Read latest detections from worker
-    const allDets: Detection[] = this.globals.latestDetections ?? [];
-    if (!allDets.length) {
-      this.pruneExpiredTracks();
-      return;
+  // Model download progress on the panel status line
+  private showLoadProgress(pipeline: DetectionPipeline) {
+    const p = pipeline.loadProgress;
+    let text: string | null = null;
+
+    if (p) {
+      const amount =
+        p.total !== null
+          ? `${Math.round((100 * p.loaded) / p.total)}%`
+          : `${(p.loaded / 1e6).toFixed(1)} MB`;
+      text = `Loading model ${p.modelId}: ${amount}`;
+      if (p.fromCache) text += " (cached)";
     }
 
-    const dets = allDets
-      .filter((d) => d.score >= MIN_SCORE_VISUAL)
-      .sort((a, b) => b.score - a.score)
-      .slice(0, MAX_LABELS);
+    if (text === this.loadStatus) return;
 
-    if (!dets.length) {
-      this.pruneExpiredTracks();
-      return;
+    const globals = this.globals as any;
+    if (text) globals.panelStatus = text;
+    else if (globals.panelStatus === this.loadStatus) {
+      globals.panelStatus = null;
     }
+    this.loadStatus = text;
+  }
 
-    const frame = (this.xrFrame as XRFrame | null | undefined) ?? null;
-    await this.updateTracksFromDetections(dets, frame, dt);
-    this.pruneExpiredTracks();
+  private currentViewerMatrix(): THREE.Matrix4 | null {
+    const xrMgr: any = this.xrManager;
+    const frame = this.xrFrame as XRFrame | null;
+    const refSpace: XRReferenceSpace | null =
+      xrMgr.getReferenceSpace?.() ?? null;
+    const pose = frame && refSpace ? frame.getViewerPose(refSpace) : null;
+    return pose ? new THREE.Matrix4().fromArray(pose.transform.matrix) : null;
+  }
+
+  // Render camera as it was when the batch's frame was captured
+  private cameraForBatch(batch: DetectionBatch): THREE.PerspectiveCamera {
+    const camera = this.camera as THREE.PerspectiveCamera;
+    if (!batch.viewerMatrix) return camera;
+
+    this.captureCamera.copy(camera, false);
+    this.captureCamera.matrixWorld.copy(batch.viewerMatrix);
+    this.captureCamera.matrixWorldInverse.copy(batch.viewerMatrix).invert();
+    return this.captureCamera;
   }
 
   // ---------------- label group ----------------
@@ -140,368 +255,401 @@ export class YoloSystem extends createSystem(
     }
   }
 
-  // ---------------- XR helpers ----------------
-
-  private async ensureSpaces(): Promise<Spaces | null> {
-    const xrMgr: any = this.xrManager;
-    const session: XRSession | null = xrMgr.getSession?.() ?? null;
-    if (!session) return null; // no XR yet
-
-    if (this.spacesPromise) return this.spacesPromise;
-
-    this.spacesPromise = (async () => {
-      const g = this.globals as any;
-
-      // Try to reuse WebXRManager's refSpace if it exposes one
-      let refSpace: XRReferenceSpace | null =
-        xrMgr.getReferenceSpace?.() ?? null;
-
-      if (!refSpace) {
-        refSpace = await session.requestReferenceSpace("local-floor");
-      }
-
-      const viewerSpace = await session.requestReferenceSpace("viewer");
-
-      g.refSpace = refSpace;
-      g.viewerSpace = viewerSpace;
-
-      return {
-        session,
-        refSpace,
-        viewerSpace,
-      };
-    })();
+  // ---------------- placement ----------------
 
-    return this.spacesPromise;
+  // Box center (or mask interior) -> ray through the camera model
+  private detectionRay(det: Detection, batch: DetectionBatch): WorldRay {
+    const { u, v } = detectionAnchorUv(det);
+    return this.imageRay(batch, u, v);
   }
 
-  // Single viewer hit-test source (no offsetRay) — same idea as flower demo
-  private async ensureViewerHitTestSource(spaces: Spaces) {
-    if (this.viewerHitSource) return;
-
-    const hitSession = spaces.session as XRSession & {
-      requestHitTestSource?: (
-        init: XRHitTestOptionsInit,
-      ) => Promise<XRHitTestSource>;
-    };
-
-    if (!hitSession.requestHitTestSource) {
-      console.warn("[YoloSystem] Hit-test API not available on XRSession");
-      return;
-    }
-
-    try {
-      this.viewerHitSource = await hitSession.requestHitTestSource({
-        space: spaces.viewerSpace,
-      });
-      console.log("[YOLO DEBUG] created default viewer hit-test source");
-    } catch (e) {
-      console.warn("[YoloSystem] requestHitTestSource(viewer) failed", e);
-    }
+  // Image UV of the batch's frame -> ray, at the capture-time pose
+  private imageRay(batch: DetectionBatch, u: number, v: number): WorldRay {
+    const camera = this.cameraForBatch(batch);
+    const viewerMat = batch.viewerMatrix ?? camera.matrixWorld;
+
+    return imageUvToRay(
+      (this.globals as any).cameraIntrinsics,
+      viewerMat,
+      camera,
+      u,
+      v,
+    ).ray;
   }
 
-  // Use Three.js camera to build a world ray from NDC
-  private getWorldRayFromNDC(
-    xNdc: number,
-    yNdc: number,
-  ): { origin: THREE.Vector3; direction: THREE.Vector3 } {
-    // THREE's Raycaster works with NDC and the current camera
-    this.ndc.set(xNdc, yNdc);
-    this.raycaster.setFromCamera(this.ndc, this.camera as THREE.PerspectiveCamera);
-
-    const origin = this.raycaster.ray.origin.clone();
-    const direction = this.raycaster.ray.direction.clone().normalize();
-
-    return { origin, direction };
+  // Surface under each ray: sync backends answer right away, the WebXR
+  // hit-test ones resolve over the next frames (all in parallel)
+  private placeRays(rays: WorldRay[]): Promise<Placement[]> {
+    const registry: HitBackendRegistry | undefined = (this.globals as any)
+      .hitBackends;
+
+    return Promise.all(
+      rays.map(async (ray) => {
+        const hit = registry ? await registry.raycast(ray) : null;
+        const point = hit
+          ? hit.point.clone().addScaledVector(ray.dir, -LABEL_SURFACE_OFFSET)
+          : ray.origin.clone().addScaledVector(ray.dir, FALLBACK_DISTANCE);
+        return { ray, point, hit };
+      }),
+    );
   }
 
-  // Intersect a world ray with a horizontal plane y = lastHitPlaneY
-  private intersectRayWithHitPlane(
-    rayOrigin: THREE.Vector3,
-    rayDir: THREE.Vector3,
-  ): THREE.Vector3 | null {
-    if (this.lastHitPlaneY == null) return null;
-
-    const planeY = this.lastHitPlaneY;
-    const dy = rayDir.y;
-
-    // Ray is almost parallel to plane: skip
-    if (Math.abs(dy) < 1e-4) return null;
-
-    const t = (planeY - rayOrigin.y) / dy;
-    if (t <= 0) return null; // intersection behind camera
-
-    const hit = new THREE.Vector3();
-    hit.copy(rayOrigin).add(rayDir.clone().multiplyScalar(t));
-    return hit;
+  // Mask outline in the room: outline pixels cast through the camera model
+  // and cut by the plane through the surface hit, facing the camera
+  private worldOutline(
+    det: Detection,
+    batch: DetectionBatch,
+    placement: Placement,
+  ): THREE.Vector3[] | null {
+    const { mask } = det;
+    if (!mask || !placement.hit) return null;
+
+    const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(
+      placement.ray.dir.clone().negate(),
+      placement.hit.point,
+    );
+
+    const points: THREE.Vector3[] = [];
+    for (const cell of maskOutline(mask)) {
+      const { u, v } = maskCellToImageUv(det, mask, cell.x, cell.y);
+      const ray = this.imageRay(batch, u, v);
+      const p = new THREE.Ray(ray.origin, ray.dir).intersectPlane(
+        plane,
+        new THREE.Vector3(),
+      );
+      if (p) points.push(p);
+    }
+    return points.length >= 3 ? points : null;
   }
 
-  private computeFallbackWorldPos(
-    ndcX: number,
-    ndcY: number,
-    camera: THREE.PerspectiveCamera,
-  ): THREE.Vector3 {
-    this.ndc.set(ndcX, ndcY);
-    this.raycaster.setFromCamera(this.ndc, camera);
-
-    const worldPos = new THREE.Vector3();
-    this.raycaster.ray.at(FALLBACK_DISTANCE, worldPos);
-    return worldPos;
-  }
+  // World point -> image UV of the batch's frame (for track prediction)
+  private projectorForBatch(batch: DetectionBatch) {
+    const camera = this.cameraForBatch(batch);
+    const viewerMat = batch.viewerMatrix ?? camera.matrixWorld;
+    const intr = (this.globals as any).cameraIntrinsics;
 
-  private smoothTrackWorldPos(track: YoloTrack, newPos: THREE.Vector3) {
-    const SMOOTH = 0.25; // 0..1, higher = snappier, lower = smoother
-    track.worldPos.lerp(newPos, SMOOTH);
-    track.labelMesh.position.copy(track.worldPos);
+    return (point: THREE.Vector3) =>
+      worldPointToImageUvAt(intr, viewerMat, camera, point);
   }
 
   // ---------------- tracking logic ----------------
 
   private async updateTracksFromDetections(
     dets: Detection[],
-    frame: XRFrame | null,
-    dt: number,
+    batch: DetectionBatch,
   ) {
-    const scene = this.scene as THREE.Scene;
-    const camera = this.camera as THREE.PerspectiveCamera;
-
-    this.ensureLabelGroup(scene);
-
-    const availableTrackIds = new Set(this.tracks.keys());
-
-    // Pre-fetch XR spaces if we have a frame
-    const spaces = frame ? await this.ensureSpaces() : null;
-
-    // --- Update our "depth plane" from viewer hit-test ---
-    this.lastHitPlaneY = null;
-
-    if (frame && spaces) {
-      await this.ensureViewerHitTestSource(spaces);
-
-      if (this.viewerHitSource) {
-        const viewerHits = frame.getHitTestResults(this.viewerHitSource);
-        console.log(
-          "[YOLO DEBUG] default viewer hit-test has",
-          viewerHits.length,
-          "results this frame",
-        );
-
-        if (viewerHits.length > 0) {
-          const hitPose = viewerHits[0].getPose(spaces.refSpace);
-          if (hitPose) {
-            const pos = hitPose.transform.position;
-            this.lastHitPlaneY = pos.y;
-            // Optional: log the plane height once in a while
-            // console.log("[YOLO DEBUG] planeY =", this.lastHitPlaneY.toFixed(3));
-          }
-        }
-      }
-    }
-
-    const debugGlobals = this.globals as any;
-    debugGlobals.yoloLoggedThisFrame = false;
-
-    for (const det of dets) {
-      // Because we stretch the 1280x1080 frame into 640x640,
-      // det.cx/det.cy / 640 give correct camera-normalized coords.
-      const cxNorm = det.cx / INPUT_SIZE;
-      const cyNorm = det.cy / INPUT_SIZE;
+    const [placements, poses] = await Promise.all([
+      this.placeRays(dets.map((det) => this.detectionRay(det, batch))),
+      Promise.all(dets.map((det) => this.liftPose(det, batch))),
+    ]);
+
+    const observations: TrackObservation[] = dets.map((det, i) => {
+      const { transform } = det;
+      const { point, hit } = placements[i];
+      return {
+        box: {
+          cx: det.cx / transform.srcW,
+          cy: det.cy / transform.srcH,
+          w: det.w / transform.srcW,
+          h: det.h / transform.srcH,
+        },
+        classId: det.classId,
+        label: det.label,
+        score: det.score,
+        worldPoint: point,
+        worldSigma: hit ? undefined : FALLBACK_WORLD_SIGMA,
+      };
+    });
 
-      const matchedId = this.findBestTrackMatch(
-        det.classId,
-        cxNorm,
-        cyNorm,
-        availableTrackIds,
+    if (dets.length && this.config.logPlacements.peek()) {
+      const { ray, point, hit } = placements[0];
+      const { u, v } = detectionImageUv(dets[0]);
+      console.log(
+        "[YoloSystem] det cx,cy:",
+        dets[0].cx.toFixed(1),
+        dets[0].cy.toFixed(1),
+        "img uv:",
+        u.toFixed(3),
+        v.toFixed(3),
+        "ray origin:",
+        ray.origin.x.toFixed(3),
+        ray.origin.y.toFixed(3),
+        ray.origin.z.toFixed(3),
+        "dir:",
+        ray.dir.x.toFixed(3),
+        ray.dir.y.toFixed(3),
+        ray.dir.z.toFixed(3),
+        "surface:",
+        hit ? `${hit.source}${hit.label ? ` (${hit.label})` : ""}` : "none",
+        "hitPos:",
+        point.x.toFixed(3),
+        point.y.toFixed(3),
+        point.z.toFixed(3),
       );
+    }
 
-      // NDC for this detection
-      const ndcX = cxNorm * 2 - 1;
-      const ndcY = 1 - cyNorm * 2;
-
-      // World ray from NDC
-      const { origin, direction } = this.getWorldRayFromNDC(ndcX, ndcY);
-
-      // Try to intersect with our horizontal plane
-      let targetPos: THREE.Vector3 | null = null;
-      if (this.lastHitPlaneY != null) {
-        targetPos = this.intersectRayWithHitPlane(origin, direction);
-      }
-
-      // Fallback if no hit plane / bad intersection
-      if (!targetPos) {
-        targetPos = this.computeFallbackWorldPos(ndcX, ndcY, camera);
+    const project = this.projectorForBatch(batch);
+    const result = this.tracker.update(
+      observations,
+      batch.captureTime / 1000,
+      project,
+    );
+
+    const overlay: DetectionOverlay = {
+      frameId: batch.frameId,
+      captureTime: batch.captureTime,
+      items: observations.map((obs, i) => ({
+        trackId: result.trackIds[i],
+        confirmed: this.tracker.get(result.trackIds[i])?.state === "confirmed",
+        classId: obs.classId,
+        label: obs.label,
+        score: obs.score,
+        box: obs.box,
+        worldPoint: obs.worldPoint,
+        surface: placements[i].hit?.source ?? null,
+        anchorUv: obs.worldPoint ? project(obs.worldPoint) : null,
+        mask: dets[i].mask ?? null,
+        keypoints:
+          poses[i]?.map((j) => ({ ...j.imageUv, score: j.score })) ?? null,
+      })),
+    };
+    (this.globals as any).detectionOverlay = overlay;
+    this.publishFrame(batch.frameId);
+
+    dets.forEach((det, i) => {
+      const points = this.worldOutline(det, batch, placements[i]);
+      if (points) this.setOutline(result.trackIds[i], det.classId, points);
+
+      const joints = poses[i];
+      if (joints) {
+        const trackId = result.trackIds[i];
+        this.poseStream.emit({
+          trackId,
+          captureTime: batch.captureTime,
+          joints,
+        });
+        this.setSkeleton(trackId, joints);
       }
+    });
 
-      // --- DEBUG: log one sample per update ---
-      if (!debugGlobals.yoloLoggedThisFrame) {
-        console.log(
-          "[YOLO DEBUG] det cx,cy:",
-          det.cx.toFixed(1),
-          det.cy.toFixed(1),
-          "cxNorm,cyNorm:",
-          cxNorm.toFixed(3),
-          cyNorm.toFixed(3),
-          "ray origin:",
-          origin.x.toFixed(3),
-          origin.y.toFixed(3),
-          origin.z.toFixed(3),
-          "dir:",
-          direction.x.toFixed(3),
-          direction.y.toFixed(3),
-          direction.z.toFixed(3),
-          "planeY:",
-          this.lastHitPlaneY != null ? this.lastHitPlaneY.toFixed(3) : "none",
-          "hitPos:",
-          targetPos.x.toFixed(3),
-          targetPos.y.toFixed(3),
-          targetPos.z.toFixed(3),
+    this.syncObjects();
+
+    // Text and DetectedObject fields change only when a track is seen again
+    observations.forEach((obs, i) => {
+      const track = this.tracker.get(result.trackIds[i]);
+      const object = track && this.objects.get(track.id);
+      if (!track || !object) return;
+
+      updateLabelMesh(object.label, this.buildLabelText(track));
+
+      const { entity } = object;
+      const { ray, hit } = placements[i];
+      const facing = hit ? hit.normal : ray.dir.clone().negate();
+      entity
+        .getVectorView(DetectedObject, "orientation")
+        .set(
+          new THREE.Quaternion()
+            .setFromUnitVectors(new THREE.Vector3(0, 0, 1), facing)
+            .toArray(),
         );
-        debugGlobals.yoloLoggedThisFrame = true;
-      }
-      // --- end DEBUG ---
-
-      if (matchedId != null) {
-        // update existing track
-        const track = this.tracks.get(matchedId)!;
-        track.lastSeenTime = this.elapsedTime;
-        track.lastScore = det.score;
-        track.cxNorm = cxNorm;
-        track.cyNorm = cyNorm;
-
-        const text = this.buildLabelText(det);
-        this.updateLabelMesh(track.labelMesh, text);
-
-        this.smoothTrackWorldPos(track, targetPos);
-        availableTrackIds.delete(matchedId);
-      } else {
-        // create a brand new track
-        const text = this.buildLabelText(det);
-        const labelMesh = this.createLabelMesh(text);
-        labelMesh.position.copy(targetPos);
-        this.labelGroup!.add(labelMesh);
-
-        const track: YoloTrack = {
-          id: this.nextTrackId++,
-          classId: det.classId,
-          lastScore: det.score,
-          lastSeenTime: this.elapsedTime,
-          cxNorm,
-          cyNorm,
-          worldPos: targetPos.clone(),
-          labelMesh,
-        };
-
-        this.tracks.set(track.id, track);
-      }
-    }
-
-    // reset per-update debug flag
-    (this.globals as any).yoloLoggedThisFrame = false;
+      entity
+        .getVectorView(DetectedObject, "box")
+        .set([obs.box.cx, obs.box.cy, obs.box.w, obs.box.h]);
+      entity.setValue(DetectedObject, "score", obs.score);
+      entity.setValue(DetectedObject, "surface", hit?.source ?? "");
+      entity.setValue(DetectedObject, "lastSeen", batch.captureTime);
+    });
   }
 
-  private findBestTrackMatch(
-    classId: number,
-    cxNorm: number,
-    cyNorm: number,
-    candidates: Set<number>,
-  ): number | null {
-    let bestId: number | null = null;
-    let bestDist = Infinity;
-
-    for (const id of candidates) {
-      const t = this.tracks.get(id);
-      if (!t) continue;
-      if (t.classId !== classId) continue;
-
-      const dx = t.cxNorm - cxNorm;
-      const dy = t.cyNorm - cyNorm;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-      if (dist < bestDist && dist <= MAX_ASSOC_NORM_DIST) {
-        bestDist = dist;
-        bestId = id;
-      }
+  // One entity + label per confirmed / lost track; lost ones stay hidden
+  // until re-identified, removed tracks lose their entity (and outline /
+  // skeleton)
+  private syncObjects() {
+    const tracks = this.tracker.list();
+    const live = new Set(tracks.map((t) => t.id));
+
+    for (const [id, object] of this.objects) {
+      if (live.has(id)) continue;
+      disposeLabelMesh(object.label);
+      object.entity.destroy();
+      this.objects.delete(id);
     }
 
-    return bestId;
-  }
-
-  private pruneExpiredTracks() {
-    const now = this.elapsedTime;
-
-    for (const [id, track] of this.tracks) {
-      if (now - track.lastSeenTime > TRACK_TTL_SECONDS) {
-        if (track.labelMesh && track.labelMesh.parent) {
-          track.labelMesh.parent.remove(track.labelMesh);
+    for (const lines of [this.outlines, this.skeletons]) {
+      for (const [id, line] of lines) {
+        const track = this.tracker.get(id);
+        if (track) {
+          line.visible = track.state === "confirmed";
+          continue;
         }
+        line.parent?.remove(line);
+        line.geometry.dispose();
+        (line.material as THREE.Material).dispose();
+        lines.delete(id);
+        this.poseStream.forget(id);
+      }
+    }
 
-        this.tracks.delete(id);
+    for (const track of tracks) {
+      const object = this.objects.get(track.id);
+      if (object) {
+        const state =
+          track.state === "confirmed"
+            ? DetectedObjectState.Confirmed
+            : DetectedObjectState.Lost;
+        if (object.entity.getValue(DetectedObject, "state") !== state) {
+          object.entity.setValue(DetectedObject, "state", state);
+        }
+        continue;
       }
+      if (track.state === "confirmed") this.createObject(track);
     }
   }
 
-  // ---------------- label mesh helpers ----------------
+  private createObject(track: Track) {
+    const group = new THREE.Group();
+    group.name = "DetectedObject";
+    if (track.worldPos) group.position.copy(track.worldPos);
 
-  private buildLabelText(det: Detection): string {
-    const name = getClassName(det.classId);
-    return `${name} ${(det.score * 100).toFixed(1)}%`;
+    const label = createLabelMesh(this.buildLabelText(track), {
+      width: LABEL_WIDTH,
+      height: LABEL_HEIGHT,
+      name: "YoloLabel",
+    });
+    group.add(label);
+
+    const entity = this.world.createTransformEntity(group);
+    entity.addComponent(DetectedObject, {
+      trackId: track.id,
+      classId: track.classId,
+      label: track.label,
+      score: track.score,
+      position: group.position.toArray() as [number, number, number],
+      box: [track.box.cx, track.box.cy, track.box.w, track.box.h],
+      lastSeen: track.lastSeen * 1000,
+    });
+    this.objects.set(track.id, { entity, label });
   }
 
-  private createLabelMesh(text: string): THREE.Mesh {
-    const canvas = document.createElement("canvas");
-    canvas.width = 512;
-    canvas.height = 128;
-
-    const ctx = canvas.getContext("2d")!;
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    // background
-    ctx.fillStyle = "rgba(0, 0, 0, 0.7)";
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-    // text
-    ctx.fillStyle = "white";
-    ctx.font = "40px sans-serif";
-    ctx.textBaseline = "middle";
-    ctx.fillText(text, 20, canvas.height / 2);
+  // Replaces the track's outline with the one from the latest batch
+  private setOutline(
+    trackId: number,
+    classId: number,
+    points: THREE.Vector3[],
+  ) {
+    this.setTrackLine(this.outlines, trackId, points, (geometry) => {
+      const hue = hueForKey(classId) / 360;
+      const line = new THREE.LineLoop(
+        geometry,
+        new THREE.LineBasicMaterial({
+          color: new THREE.Color().setHSL(hue, 0.9, 0.55),
+          transparent: true,
+          opacity: 0.9,
+        }),
+      );
+      line.name = "YoloMaskOutline";
+      return line;
+    });
+  }
 
-    const texture = new THREE.CanvasTexture(canvas);
-    texture.needsUpdate = true;
+  // Bones whose two joints are both visible
+  private setSkeleton(trackId: number, joints: PoseJoint[]) {
+    const points: THREE.Vector3[] = [];
+    for (const [a, b] of COCO_SKELETON) {
+      const pa = joints[a]?.position;
+      const pb = joints[b]?.position;
+      if (pa && pb) points.push(pa, pb);
+    }
 
-    const material = new THREE.MeshBasicMaterial({
-      map: texture,
-      transparent: true,
+    this.setTrackLine(this.skeletons, trackId, points, (geometry) => {
+      const line = new THREE.LineSegments(
+        geometry,
+        new THREE.LineBasicMaterial({ color: SKELETON_COLOR }),
+      );
+      line.name = "YoloSkeleton";
+      return line;
     });
+  }
 
-    const geometry = new THREE.PlaneGeometry(LABEL_WIDTH, LABEL_HEIGHT);
-    const mesh = new THREE.Mesh(geometry, material);
-    mesh.name = "YoloLabel";
+  // Per-track line object, rebuilt from the latest batch (the point count
+  // changes between batches, so the geometry is replaced)
+  private setTrackLine(
+    lines: Map<number, THREE.Line>,
+    trackId: number,
+    points: THREE.Vector3[],
+    create: (geometry: THREE.BufferGeometry) => THREE.Line,
+  ) {
+    const geometry = new THREE.BufferGeometry().setFromPoints(points);
+
+    let line = lines.get(trackId);
+    if (line) {
+      line.geometry.dispose();
+      line.geometry = geometry;
+    } else {
+      line = create(geometry);
+      line.frustumCulled = false;
+      this.ensureLabelGroup(this.scene as THREE.Scene);
+      this.labelGroup!.add(line);
+      lines.set(trackId, line);
+    }
 
-    return mesh;
+    line.visible = this.tracker.get(trackId)?.state === "confirmed";
   }
 
-  private updateLabelMesh(mesh: THREE.Mesh, text: string) {
-    const material = mesh.material as THREE.MeshBasicMaterial;
-    const texture = material.map as THREE.CanvasTexture;
-    const canvas = texture.image as HTMLCanvasElement;
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
+  // Keypoints -> joints in the room: a ray per visible keypoint, depths
+  // from the hit backends, outliers pulled to the body depth (liftJoints)
+  private async liftPose(
+    det: Detection,
+    batch: DetectionBatch,
+  ): Promise<PoseJoint[] | null> {
+    if (!det.keypoints) return null;
+
+    const { srcW, srcH } = det.transform;
+    const registry: HitBackendRegistry | undefined = (this.globals as any)
+      .hitBackends;
+
+    const uvs = det.keypoints.map((k) => ({ u: k.x / srcW, v: k.y / srcH }));
+    const visible = det.keypoints.map((k) => k.score >= MIN_KEYPOINT_SCORE);
+    const rays = uvs.map(({ u, v }) => this.imageRay(batch, u, v));
+
+    const hits = await Promise.all(
+      rays.map((ray, i) =>
+        visible[i] && registry ? registry.raycast(ray) : null,
+      ),
+    );
+    const points = liftJoints(
+      rays,
+      hits.map((hit, i) => (visible[i] && hit ? hit.distance : null)),
+    );
+
+    return det.keypoints.map((k, i) => ({
+      name: keypointName(i),
+      score: k.score,
+      imageUv: uvs[i],
+      position: visible[i] ? points[i] : null,
+    }));
+  }
 
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-    ctx.fillStyle = "rgba(0, 0, 0, 0.7)";
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  // ---------------- label mesh helpers ----------------
 
-    ctx.fillStyle = "white";
-    ctx.font = "40px sans-serif";
-    ctx.textBaseline = "middle";
-    ctx.fillText(text, 20, canvas.height / 2);
+  private buildLabelText(track: Track): string {
+    return `${track.label} #${track.id} ${(track.score * 100).toFixed(1)}%`;
+  }
 
-    texture.needsUpdate = true;
+  // Snapshot of the placed frame; older ones (dropped or overtaken frames)
+  // are let go
+  private publishFrame(frameId: number) {
+    const image = this.snapshots.get(frameId) ?? null;
+    for (const id of this.snapshots.keys()) {
+      if (id <= frameId) this.snapshots.delete(id);
+    }
+    (this.globals as any).detectionFrame = image ? { frameId, image } : null;
   }
 
   // ---------------- billboarding + FOV hiding ----------------
 
   private updateBillboardsAndVisibility() {
-    if (!this.tracks.size) return;
+    if (!this.objects.size) return;
 
     const camera = this.camera as THREE.PerspectiveCamera;
 
@@ -512,11 +660,16 @@ export class YoloSystem extends createSystem(
 
     const proj = new THREE.Vector3();
 
-    for (const track of this.tracks.values()) {
-      const mesh = track.labelMesh;
-      const pos = track.worldPos;
+    for (const [id, { entity, label: mesh }] of this.objects) {
+      const track = this.tracker.get(id);
+      const pos = track?.worldPos;
+      if (!pos || track.state !== "confirmed") {
+        mesh.visible = false;
+        continue;
+      }
 
-      mesh.position.copy(pos);
+      entity.object3D!.position.copy(pos);
+      entity.getVectorView(DetectedObject, "position").set(pos.toArray());
 
       // billboard: face camera
       mesh.lookAt(camPos);
@@ -541,3 +694,15 @@ export class YoloSystem extends createSystem(
     }
   }
 }
+
+// Reduced copy of a camera frame (the capture canvas is reused)
+function snapshotFrame(frame: HTMLCanvasElement): HTMLCanvasElement | null {
+  const scale = Math.min(1, SNAPSHOT_WIDTH / frame.width);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(frame.width * scale);
+  canvas.height = Math.round(frame.height * scale);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  ctx.drawImage(frame, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
@@ -1,21 +1,64 @@
-// yolo-worker.ts — FULL FILE, reusing your yolo.ts helpers
+// yolo-worker.ts
+//
+// Runs the model off the main thread with the yolo.ts helpers (session,
+// letterbox, postprocess). Speaks the detection-protocol.ts messages with
+// DetectionPipeline.
 
 import * as ort from "onnxruntime-web";
+import {
+  DetectorConfig,
+  FromWorkerMessage,
+  ToWorkerMessage,
+} from "./detection-protocol";
+import { ModelLoadProgress } from "./model-cache";
+import { ModelManifest, loadModelLabels } from "./model-registry";
 import {
   initYolo,
   getYoloSession,
+  letterboxToTensor,
   postprocessDetections,
   Detection,
+  LetterboxTransform,
 } from "./yolo";
 
 let ready = false;
+let labels: string[] = [];
+let loadToken = 0;
+const runs = new Set<Promise<unknown>>(); // session.run calls in flight
+
+const PROGRESS_INTERVAL_MS = 100;
+let config: DetectorConfig = { confThreshold: 0.25, iouThreshold: 0.45 };
+
+function post(msg: FromWorkerMessage) {
+  (self as any).postMessage(msg);
+}
 
 console.log("[YOLO Worker] Booting…");
 
-(async () => {
+// Load (or switch to) a model; frames are refused until it is ready
+async function loadModel(manifest: ModelManifest) {
+  const token = ++loadToken;
+  ready = false;
+
   try {
-    console.log("[YOLO Worker] Calling initYolo()…");
-    await initYolo(); // uses your MODEL_URL + ORT_VERSION + wasmPaths (CDN)
+    console.log("[YOLO Worker] Loading model", manifest.id, manifest.url);
+
+    // Throttled download progress (first and last update always sent)
+    let lastProgress = 0;
+    const onProgress = (p: ModelLoadProgress) => {
+      const now = performance.now();
+      const done = p.total !== null && p.loaded >= p.total;
+      if (!done && now - lastProgress < PROGRESS_INTERVAL_MS) return;
+      lastProgress = now;
+      post({ type: "progress", ...p });
+    };
+
+    const [modelLabels] = await Promise.all([
+      loadModelLabels(manifest),
+      initYolo(manifest, onProgress, () => Promise.allSettled([...runs])),
+    ]);
+    if (token !== loadToken) return; // superseded by a newer load-model
+
     const { session, inputName } = getYoloSession();
     console.log(
       "[YOLO Worker] Model loaded, input:",
@@ -23,79 +66,124 @@ console.log("[YOLO Worker] Booting…");
       "outputs:",
       session.outputNames,
     );
+    labels = modelLabels;
     ready = true;
+    post({
+      type: "ready",
+      modelId: manifest.id,
+      task: manifest.task,
+      labels,
+      inputName,
+      outputNames: session.outputNames,
+    });
   } catch (err) {
+    if (token !== loadToken) return;
     console.error("[YOLO Worker] Failed to init YOLO:", err);
-    ready = false;
+    post({ type: "error", message: String(err), frameId: null, fatal: true });
   }
-})();
-
-// Preprocess ImageBitmap → 1×3×640×640 float32 tensor (same resizing as makeInputTensorFromCanvas)
-async function preprocessBitmap(bitmap: ImageBitmap): Promise<ort.Tensor> {
-  const SIZE = 640;
+}
 
-  const off = new OffscreenCanvas(SIZE, SIZE);
-  const ctx = off.getContext("2d");
-  if (!ctx) {
+// Preprocess ImageBitmap → letterboxed 1×3×N×N float32 tensor
+// (letterboxToTensor), N = manifest.inputSize
+let preprocessCtx: OffscreenCanvasRenderingContext2D | null = null;
+
+function preprocessBitmap(
+  bitmap: ImageBitmap,
+  manifest: ModelManifest,
+): {
+  tensor: ort.Tensor;
+  transform: LetterboxTransform;
+} {
+  const size = manifest.inputSize;
+  if (preprocessCtx?.canvas.width !== size) {
+    preprocessCtx = new OffscreenCanvas(size, size).getContext("2d", {
+      willReadFrequently: true,
+    });
+  }
+  if (!preprocessCtx) {
     throw new Error("[YOLO Worker] Failed to get 2D context on OffscreenCanvas");
   }
 
-  // Draw full bitmap scaled into 640×640
-  ctx.drawImage(bitmap, 0, 0, SIZE, SIZE);
-
-  const imageData = ctx.getImageData(0, 0, SIZE, SIZE);
-  const data = imageData.data; // RGBA
-
-  const chw = new Float32Array(3 * SIZE * SIZE);
-
-  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
-    const r = data[i] / 255;
-    const g = data[i + 1] / 255;
-    const b = data[i + 2] / 255;
+  return letterboxToTensor(
+    preprocessCtx,
+    bitmap,
+    bitmap.width,
+    bitmap.height,
+    size,
+    manifest.normalization,
+  );
+}
 
-    const x = p % SIZE;
-    const y = Math.floor(p / SIZE);
-    const base = y * SIZE + x;
+// Worker message handler
+self.onmessage = async (ev: MessageEvent) => {
+  const msg = ev.data as ToWorkerMessage;
+  if (!msg) return;
 
-    chw[0 * SIZE * SIZE + base] = r;
-    chw[1 * SIZE * SIZE + base] = g;
-    chw[2 * SIZE * SIZE + base] = b;
+  if (msg.type === "load-model") {
+    loadModel(msg.manifest);
+    return;
   }
 
-  return new ort.Tensor("float32", chw, [1, 3, SIZE, SIZE]);
-}
+  if (msg.type === "config") {
+    config = {
+      confThreshold: msg.confThreshold,
+      iouThreshold: msg.iouThreshold,
+    };
+    return;
+  }
 
-// Worker message handler
-self.onmessage = async (ev: MessageEvent) => {
-  const msg = ev.data;
-  if (!msg || msg.type !== "frame") return;
+  if (msg.type !== "frame") return;
 
-  const bitmap: ImageBitmap = msg.bitmap;
-  const frameId: number = msg.frameId;
+  const { bitmap, frameId } = msg;
 
   if (!ready) {
     // Model isn’t ready yet; drop frame
     bitmap.close();
+    post({ type: "error", message: "not ready", frameId, fatal: false });
     return;
   }
 
   try {
-    const input = await preprocessBitmap(bitmap);
-
-    const { session, inputName } = getYoloSession();
-    const outputs = await session.run({ [inputName]: input });
-    const outputName = session.outputNames[0];
-    const out = outputs[outputName];
-
-    const dets: Detection[] = postprocessDetections(out);
+    const start = performance.now();
+    const { session, inputName, manifest } = getYoloSession();
+    const { tensor: input, transform } = preprocessBitmap(bitmap, manifest);
+
+    // Tracked so a model switch releases this session only after it returns
+    const run = session.run({ [inputName]: input });
+    runs.add(run);
+    const outputs = await run.finally(() => runs.delete(run));
+    const out = outputs[session.outputNames[0]];
+
+    // -seg models: prototype masks are the second output
+    const protos =
+      manifest.task === "segment" ? outputs[session.outputNames[1]] : undefined;
+    if (manifest.task === "segment" && !protos) {
+      throw new Error(`Model ${manifest.id} has no prototype mask output`);
+    }
+
+    const dets: Detection[] = postprocessDetections(
+      out,
+      transform,
+      manifest.outputFormat,
+      labels,
+      config.confThreshold,
+      config.iouThreshold,
+      {
+        protos,
+        numKeypoints:
+          manifest.task === "pose" ? (manifest.keypoints ?? 17) : undefined,
+      },
+    );
 
-    (self as any).postMessage({
+    post({
       type: "detections",
       detections: dets,
       frameId,
+      inferenceMs: performance.now() - start,
     });
   } catch (err) {
     console.error("[YOLO Worker] Error during inference:", err);
+    post({ type: "error", message: String(err), frameId, fatal: false });
   } finally {
     bitmap.close();
   }
@@ -1,13 +1,21 @@
 import * as ort from "onnxruntime-web";
-
-const MODEL_URL = "/models/yolo11n.onnx";
-const INPUT_SIZE = 640;
-
-// ⚠️ Make sure this matches your package.json
-const ORT_VERSION = "1.23.2";
+// ORT's wasm binary, emitted by the Vite build (no CDN, works offline)
+import ortWasmUrl from "onnxruntime-web/ort-wasm-simd-threaded.wasm?url";
+import { fetchModelCached, ModelLoadProgress } from "./model-cache";
+import type { ModelManifest, ModelOutputFormat } from "./model-registry";
+import { Keypoint, decodeKeypoints } from "./pose";
+import {
+  DetectionMask,
+  decodeMask,
+  maskCellToImageUv,
+  maskInteriorPoint,
+} from "./segmentation";
+
+const INPUT_SIZE = 640; // default; models declare theirs in the manifest
 
 let session: ort.InferenceSession | null = null;
 let inputName: string | null = null;
+let activeModel: ModelManifest | null = null;
 
 // COCO 80-class names in the order Ultralytics uses
 export const COCO_CLASS_NAMES: string[] = [
@@ -93,13 +101,28 @@ export const COCO_CLASS_NAMES: string[] = [
   "toothbrush",
 ];
 
-export function getClassName(classId: number): string {
-  if (classId >= 0 && classId < COCO_CLASS_NAMES.length) {
-    return COCO_CLASS_NAMES[classId];
+export function getClassName(
+  classId: number,
+  labels: string[] = COCO_CLASS_NAMES,
+): string {
+  if (classId >= 0 && classId < labels.length) {
+    return labels[classId];
   }
   return `class_${classId}`;
 }
 
+// Source frame -> square model input: scale to fit, pad with gray (114,
+// Ultralytics' letterbox color). Model px = source px * scale + pad.
+export interface LetterboxTransform {
+  srcW: number;
+  srcH: number;
+  inputSize: number;
+  scale: number;
+  padX: number;
+  padY: number;
+}
+
+// Box in SOURCE image pixels (top-left x/y, size, center)
 export interface Detection {
   x: number;
   y: number;
@@ -109,87 +132,140 @@ export interface Detection {
   cy: number;
   score: number;
   classId: number;
+  label: string; // from the model's label list
+  transform: LetterboxTransform; // how the frame was fed to the model
+  mask?: DetectionMask; // segmentation models: over the box
+  keypoints?: Keypoint[]; // pose models: source px, COCO order
+}
+
+// Detection center as camera image UV (0..1, top-left origin)
+export function detectionImageUv(det: Detection): { u: number; v: number } {
+  return { u: det.cx / det.transform.srcW, v: det.cy / det.transform.srcH };
+}
+
+// Where to place a detection in the room: the most interior mask pixel
+// when there is a mask (the box center can miss thin / hollow objects),
+// else the box center
+export function detectionAnchorUv(det: Detection): { u: number; v: number } {
+  const interior = det.mask ? maskInteriorPoint(det.mask) : null;
+  if (!det.mask || !interior) return detectionImageUv(det);
+  return maskCellToImageUv(det, det.mask, interior.x, interior.y);
 }
 
-export async function initYolo() {
-  if (session) return;
+// Loads (or switches to) a model; the previous session is released once
+// `idle` resolves (the runs still using it have settled).
+// Weights come from the Cache API when the cached version matches.
+export async function initYolo(
+  manifest: ModelManifest,
+  onProgress?: (p: ModelLoadProgress) => void,
+  idle?: () => Promise<unknown>,
+) {
+  if (
+    session &&
+    activeModel?.id === manifest.id &&
+    activeModel.version === manifest.version
+  ) {
+    return;
+  }
 
-  ort.env.wasm.wasmPaths = `https://cdn.jsdelivr.net/npm/onnxruntime-web@${ORT_VERSION}/dist/`;
+  ort.env.wasm.wasmPaths = { wasm: ortWasmUrl };
 
-  session = await ort.InferenceSession.create(MODEL_URL, {
+  const bytes = await fetchModelCached(manifest, onProgress);
+  const next = await ort.InferenceSession.create(bytes, {
     executionProviders: ["wasm"],
   });
 
-  inputName = session.inputNames[0];
+  const prev = session;
+  session = next;
+  inputName = next.inputNames[0];
+  activeModel = manifest;
+  if (!prev) return;
+  await idle?.();
+  await prev.release();
 }
 
 export function getYoloSession() {
-  if (!session || !inputName) {
+  if (!session || !inputName || !activeModel) {
     throw new Error("YOLO session not initialized. Call initYolo() first.");
   }
-  return { session, inputName };
+  return { session, inputName, manifest: activeModel };
 }
 
-// --- Preprocess: camera frame canvas → 640x640 tensor ---
-
-let preprocessCanvas: HTMLCanvasElement | null = null;
-let preprocessCtx: CanvasRenderingContext2D | null = null;
-
-function getPreprocessContext(): CanvasRenderingContext2D {
-  if (!preprocessCanvas) {
-    preprocessCanvas = document.createElement("canvas");
-    preprocessCanvas.width = INPUT_SIZE;
-    preprocessCanvas.height = INPUT_SIZE;
-    preprocessCtx = preprocessCanvas.getContext("2d");
-    if (!preprocessCtx) {
-      throw new Error("Failed to get 2D context for preprocess canvas");
-    }
-  }
-  if (!preprocessCtx) {
-    const ctx = preprocessCanvas.getContext("2d");
-    if (!ctx) {
-      throw new Error("Failed to restore 2D context for preprocess canvas");
-    }
-    preprocessCtx = ctx;
-  }
-  return preprocessCtx;
+// --- Preprocess: letterbox a frame into an N x N tensor ---
+
+export function letterboxTransform(
+  srcW: number,
+  srcH: number,
+  inputSize = INPUT_SIZE,
+): LetterboxTransform {
+  const scale = Math.min(inputSize / srcW, inputSize / srcH);
+  return {
+    srcW,
+    srcH,
+    inputSize,
+    scale,
+    padX: Math.floor((inputSize - srcW * scale) / 2),
+    padY: Math.floor((inputSize - srcH * scale) / 2),
+  };
 }
 
-// Takes a full-res canvas from CameraUtils.captureFrame(cameraEntity)
-// and produces a [1,3,640,640] float32 tensor normalized to [0,1].
-export function makeInputTensorFromCanvas(
-  frameCanvas: HTMLCanvasElement,
-): ort.Tensor {
-  const ctx = getPreprocessContext();
-
-  // Scale/crop entire frame into 640x640
-  ctx.drawImage(frameCanvas, 0, 0, INPUT_SIZE, INPUT_SIZE);
-
-  const imageData = ctx.getImageData(0, 0, INPUT_SIZE, INPUT_SIZE);
+// Shared by the main thread (canvas) and the worker (OffscreenCanvas).
+// ctx must be inputSize x inputSize.
+export function letterboxToTensor(
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  source: CanvasImageSource,
+  srcW: number,
+  srcH: number,
+  inputSize = INPUT_SIZE,
+  normalization?: ModelManifest["normalization"],
+): { tensor: ort.Tensor; transform: LetterboxTransform } {
+  const transform = letterboxTransform(srcW, srcH, inputSize);
+
+  ctx.fillStyle = "rgb(114,114,114)";
+  ctx.fillRect(0, 0, inputSize, inputSize);
+  ctx.drawImage(
+    source,
+    0,
+    0,
+    srcW,
+    srcH,
+    transform.padX,
+    transform.padY,
+    srcW * transform.scale,
+    srcH * transform.scale,
+  );
+
+  const imageData = ctx.getImageData(0, 0, inputSize, inputSize);
   const data = imageData.data; // RGBA
+  const plane = inputSize * inputSize;
 
-  const chw = new Float32Array(3 * INPUT_SIZE * INPUT_SIZE);
+  const chw = new Float32Array(3 * plane);
 
   for (let i = 0, p = 0; i < data.length; i += 4, p++) {
-    const r = data[i] / 255;
-    const g = data[i + 1] / 255;
-    const b = data[i + 2] / 255;
-
-    const x = p % INPUT_SIZE;
-    const y = Math.floor(p / INPUT_SIZE);
-    const base = y * INPUT_SIZE + x;
+    chw[p] = data[i] / 255;
+    chw[plane + p] = data[i + 1] / 255;
+    chw[2 * plane + p] = data[i + 2] / 255;
+  }
 
-    chw[0 * INPUT_SIZE * INPUT_SIZE + base] = r;
-    chw[1 * INPUT_SIZE * INPUT_SIZE + base] = g;
-    chw[2 * INPUT_SIZE * INPUT_SIZE + base] = b;
+  if (normalization) {
+    const { mean, std } = normalization;
+    for (let c = 0; c < 3; c++) {
+      if (mean[c] === 0 && std[c] === 1) continue;
+      for (let p = c * plane; p < (c + 1) * plane; p++) {
+        chw[p] = (chw[p] - mean[c]) / std[c];
+      }
+    }
   }
 
-  return new ort.Tensor("float32", chw, [1, 3, INPUT_SIZE, INPUT_SIZE]);
+  return {
+    tensor: new ort.Tensor("float32", chw, [1, 3, inputSize, inputSize]),
+    transform,
+  };
 }
 
 // --- IoU + NMS + postprocess ---
 
-function iou(a: Detection, b: Detection): number {
+function iou(a: RawBox, b: RawBox): number {
   const x1 = Math.max(a.x, b.x);
   const y1 = Math.max(a.y, b.y);
   const x2 = Math.min(a.x + a.w, b.x + b.w);
@@ -207,8 +283,8 @@ function iou(a: Detection, b: Detection): number {
   return interArea / union;
 }
 
-function nms(dets: Detection[], iouThreshold: number): Detection[] {
-  const result: Detection[] = [];
+function nms<T extends RawBox>(dets: T[], iouThreshold: number): T[] {
+  const result: T[] = [];
   const sorted = [...dets].sort((a, b) => b.score - a.score);
 
   while (sorted.length > 0) {
@@ -225,13 +301,46 @@ function nms(dets: Detection[], iouThreshold: number): Detection[] {
   return result;
 }
 
-// YOLO11n ONNX output [1,84,8400] → Detection[]
+// Model input px -> source image px, clipped to the image
+function unletterbox(det: Detection): Detection {
+  const t = det.transform;
+  const x1 = clamp((det.x - t.padX) / t.scale, 0, t.srcW);
+  const y1 = clamp((det.y - t.padY) / t.scale, 0, t.srcH);
+  const x2 = clamp((det.x + det.w - t.padX) / t.scale, 0, t.srcW);
+  const y2 = clamp((det.y + det.h - t.padY) / t.scale, 0, t.srcH);
+
+  return {
+    ...det,
+    x: x1,
+    y: y1,
+    w: x2 - x1,
+    h: y2 - y1,
+    cx: (x1 + x2) / 2,
+    cy: (y1 + y2) / 2,
+  };
+}
+
+function clamp(x: number, lo: number, hi: number): number {
+  return Math.min(hi, Math.max(lo, x));
+}
+
+// Extra model outputs, by task
+export type PostprocessExtras = {
+  protos?: ort.Tensor; // segment: [1, nm, mh, mw] prototype masks
+  numKeypoints?: number; // pose: K keypoints, [x, y, v] each per box
+};
+
+// Raw model output → Detection[] in source image pixels.
+// Layouts are described in model-registry.ts.
 export function postprocessDetections(
   output: ort.Tensor,
+  transform: LetterboxTransform,
+  format: ModelOutputFormat = "yolo11",
+  labels: string[] = COCO_CLASS_NAMES,
   confThreshold = 0.25,
   iouThreshold = 0.45,
+  extras: PostprocessExtras = {},
 ): Detection[] {
-  const data = output.data as Float32Array;
   const dims = output.dims;
 
   if (dims.length !== 3) {
@@ -239,26 +348,91 @@ export function postprocessDetections(
     return [];
   }
 
-  const [batch, channels, numDet] = dims;
-  if (batch !== 1) {
-    console.warn("Only batch 1 supported, got", batch);
+  if (dims[0] !== 1) {
+    console.warn("Only batch 1 supported, got", dims[0]);
     return [];
   }
 
-  const numClasses = channels - 4;
-  const dets: Detection[] = [];
+  // Trailing per-box channels after the class scores (mask coefficients
+  // or keypoints)
+  const { protos, numKeypoints = 0 } = extras;
+  const numExtra = protos ? protos.dims[1] : numKeypoints * 3;
 
-  for (let i = 0; i < numDet; i++) {
-    const cx = data[0 * numDet + i];
-    const cy = data[1 * numDet + i];
-    const w = data[2 * numDet + i];
-    const h = data[3 * numDet + i];
+  const data = output.data as Float32Array;
+  const dets =
+    format === "end2end"
+      ? decodeEnd2End(data, dims, confThreshold)
+      : format === "yolov5"
+        ? decodeYoloV5(data, dims, confThreshold)
+        : decodeYoloV8(data, dims, confThreshold, numExtra);
+
+  const kept = format === "end2end" ? dets : nms(dets, iouThreshold);
+
+  return kept.map(({ extra, ...d }) => {
+    const det = unletterbox({
+      ...d,
+      label: getClassName(d.classId, labels),
+      transform,
+    });
+
+    if (protos && extra) {
+      const mask = decodeMask(
+        protos.data as Float32Array,
+        protos.dims,
+        extra,
+        det,
+        transform,
+      );
+      if (mask) det.mask = mask;
+    } else if (numKeypoints && extra) {
+      det.keypoints = decodeKeypoints(extra, (x, y) => ({
+        x: clamp((x - transform.padX) / transform.scale, 0, transform.srcW),
+        y: clamp((y - transform.padY) / transform.scale, 0, transform.srcH),
+      }));
+    }
+    return det;
+  });
+}
+
+type RawBox = Omit<Detection, "label" | "transform" | "mask"> & {
+  extra?: Float32Array; // trailing channels (see numExtra)
+};
+
+function boxFromCenter(
+  cx: number,
+  cy: number,
+  w: number,
+  h: number,
+  score: number,
+  classId: number,
+): RawBox {
+  return { x: cx - w / 2, y: cy - h / 2, w, h, cx, cy, score, classId };
+}
 
+// [1, 4+nc(+extra), N] (Ultralytics v8/11); [1, N, 4+nc(+extra)] exports
+// are accepted too. extra = mask coefficients (-seg) or keypoints (-pose).
+function decodeYoloV8(
+  data: Float32Array,
+  dims: readonly number[],
+  confThreshold: number,
+  numExtra = 0,
+): RawBox[] {
+  const channelsFirst = dims[1] < dims[2];
+  const channels = channelsFirst ? dims[1] : dims[2];
+  const numDet = channelsFirst ? dims[2] : dims[1];
+  const at = channelsFirst
+    ? (i: number, c: number) => data[c * numDet + i]
+    : (i: number, c: number) => data[i * channels + c];
+
+  const numClasses = channels - 4 - numExtra;
+  const dets: RawBox[] = [];
+
+  for (let i = 0; i < numDet; i++) {
     let bestClass = -1;
     let bestScore = -Infinity;
 
     for (let c = 0; c < numClasses; c++) {
-      const score = data[(4 + c) * numDet + i];
+      const score = at(i, 4 + c);
       if (score > bestScore) {
         bestScore = score;
         bestClass = c;
@@ -267,20 +441,100 @@ export function postprocessDetections(
 
     if (bestScore < confThreshold) continue;
 
-    const x = cx - w / 2;
-    const y = cy - h / 2;
+    const box = boxFromCenter(
+      at(i, 0),
+      at(i, 1),
+      at(i, 2),
+      at(i, 3),
+      bestScore,
+      bestClass,
+    );
+    if (numExtra) {
+      box.extra = new Float32Array(numExtra);
+      for (let k = 0; k < numExtra; k++) {
+        box.extra[k] = at(i, 4 + numClasses + k);
+      }
+    }
+    dets.push(box);
+  }
+
+  return dets;
+}
+
+// [1, N, 5+nc]: score = objectness * class score
+function decodeYoloV5(
+  data: Float32Array,
+  dims: readonly number[],
+  confThreshold: number,
+): RawBox[] {
+  const [, numDet, channels] = dims;
+  const numClasses = channels - 5;
+  const dets: RawBox[] = [];
+
+  for (let i = 0; i < numDet; i++) {
+    const row = i * channels;
+    const objectness = data[row + 4];
+    if (objectness < confThreshold) continue;
+
+    let bestClass = -1;
+    let bestScore = -Infinity;
+
+    for (let c = 0; c < numClasses; c++) {
+      const score = data[row + 5 + c];
+      if (score > bestScore) {
+        bestScore = score;
+        bestClass = c;
+      }
+    }
+
+    const score = objectness * bestScore;
+    if (score < confThreshold) continue;
+
+    dets.push(
+      boxFromCenter(
+        data[row],
+        data[row + 1],
+        data[row + 2],
+        data[row + 3],
+        score,
+        bestClass,
+      ),
+    );
+  }
+
+  return dets;
+}
+
+// [1, N, 6]: x1, y1, x2, y2, score, class — already suppressed
+function decodeEnd2End(
+  data: Float32Array,
+  dims: readonly number[],
+  confThreshold: number,
+): RawBox[] {
+  const [, numDet, channels] = dims;
+  const dets: RawBox[] = [];
+
+  for (let i = 0; i < numDet; i++) {
+    const row = i * channels;
+    const score = data[row + 4];
+    if (score < confThreshold) continue;
+
+    const x1 = data[row];
+    const y1 = data[row + 1];
+    const x2 = data[row + 2];
+    const y2 = data[row + 3];
 
     dets.push({
-      x,
-      y,
-      w,
-      h,
-      cx,
-      cy,
-      score: bestScore,
-      classId: bestClass,
+      x: x1,
+      y: y1,
+      w: x2 - x1,
+      h: y2 - y1,
+      cx: (x1 + x2) / 2,
+      cy: (y1 + y2) / 2,
+      score,
+      classId: Math.round(data[row + 5]),
     });
   }
 
-  return nms(dets, iouThreshold);
+  return dets;
 }
@@ -0,0 +1,493 @@
+// zone-system.ts
+//
+// Room zones drawn on the floor + trigger rules (zones.ts) on tracked
+// objects.
+//
+// Drawing: right controller B starts / cancels a zone. Each trigger pull
+// adds a corner where the pointer meets the floor XRPlane: through the
+// camera model when the ray is on the camera panel (the panel cursor),
+// otherwise along the controller ray. A on the right controller closes the
+// polygon (3+ corners) and saves it as "Zone <n>".
+//
+// Rules run every frame against the confirmed DetectedObject entities
+// (YoloSystem). A firing rule plays its sound at the object
+// (AudioUtils.createOneShot, default /audio/chime.mp3) and / or logs a
+// ZoneEvent. Zones and rules are saved as JSON in localStorage and drawn as
+// translucent volumes that brighten while occupied. globals.zones adds
+// rules, edits zones and imports / exports the JSON.
+
+import {
+  AudioUtils,
+  createSystem,
+  eq,
+  Types,
+  XRPlane as XRPlaneComponent,
+} from "@iwsdk/core";
+import * as THREE from "three";
+import { CameraImageMapping } from "./camera-model";
+import { DetectedObject, DetectedObjectState } from "./detected-object";
+import { hueForKey } from "./detection-overlay";
+import { downloadJson } from "./download";
+import { acquirePanel, releasePanel } from "./panel-mode";
+import { panelUvToWorldRay } from "./panel-ray";
+import {
+  ZoneConfig,
+  ZoneEvent,
+  ZoneObject,
+  ZoneRule,
+  ZoneRuleEngine,
+  createZoneRule,
+  emptyZoneConfig,
+  findZone,
+  newZoneId,
+  parseZoneConfig,
+} from "./zones";
+
+const DRAW_BUTTON_INDEX = 5; // B on the right Quest controller
+const CLOSE_BUTTON_INDEX = 4; // A on the right Quest controller
+const STORAGE_KEY = "questcam2ar.zones";
+const MAX_EVENTS = 1000;
+const MAX_RAY_DISTANCE = 10; // m
+
+const OCCUPIED_OPACITY_GAIN = 2.5;
+const CORNER_RADIUS = 0.03; // m
+
+type PlaneInfo = { orientation?: string; semanticLabel?: string };
+
+type ZoneVisual = {
+  volume: THREE.Mesh;
+  edges: THREE.LineSegments;
+  shape: string; // zone geometry it was built from (rebuilt on change)
+};
+
+export class ZoneSystem extends createSystem(
+  {
+    planes: { required: [XRPlaneComponent] },
+    objects: {
+      required: [DetectedObject],
+      where: [eq(DetectedObject, "state", DetectedObjectState.Confirmed)],
+    },
+  },
+  {
+    zoneHeight: { type: Types.Float32, default: 2.0 }, // m, new zones
+    opacity: { type: Types.Float32, default: 0.15 },
+    showZones: { type: Types.Boolean, default: true },
+  },
+) {
+  private zones: ZoneConfig = emptyZoneConfig();
+  private engine = new ZoneRuleEngine();
+  private events: ZoneEvent[] = [];
+
+  private drawing = false;
+  private corners: THREE.Vector3[] = [];
+  private cursor: THREE.Vector3 | null = null;
+  private prevButtons = { draw: false, close: false, trigger: false };
+
+  private group: THREE.Group | null = null;
+  private visuals = new Map<string, ZoneVisual>(); // by zone id
+  private draft: THREE.Line | null = null;
+  private cornerMarker: THREE.Mesh | null = null;
+
+  init() {
+    this.zones = loadZoneConfig();
+    (this.globals as any).zones = {
+      zones: () => this.zones.zones,
+      rules: () => this.zones.rules,
+      // e.g. addRule({ zone: "Zone 1", label: "person", minDuration: 2 })
+      addRule: (rule: Partial<ZoneRule> & { zone: string }) => {
+        if (!findZone(this.zones, rule.zone)) {
+          throw new Error(`Unknown zone ${rule.zone}`);
+        }
+        const created = createZoneRule(rule);
+        this.zones.rules.push(created);
+        this.save();
+        return created;
+      },
+      removeRule: (id: string) => {
+        this.zones.rules = this.zones.rules.filter((r) => r.id !== id);
+        this.save();
+      },
+      renameZone: (id: string, name: string) => {
+        const zone = findZone(this.zones, id);
+        if (zone) zone.name = name;
+        this.save();
+      },
+      removeZone: (id: string) => {
+        const zone = findZone(this.zones, id);
+        if (!zone) return;
+        this.zones.zones = this.zones.zones.filter((z) => z !== zone);
+        this.zones.rules = this.zones.rules.filter(
+          (r) => r.zone !== zone.id && r.zone !== zone.name,
+        );
+        this.save();
+      },
+      startDrawing: () => this.startDrawing(),
+      cancelDrawing: () => this.stopDrawing(null),
+      events: () => this.events,
+      clearEvents: () => {
+        this.events = [];
+      },
+      exportJson: () => downloadJson("zones.json", this.zones),
+      importJson: (json: unknown) => {
+        this.zones = parseZoneConfig(json);
+        this.engine.reset();
+        this.save();
+      },
+    };
+  }
+
+  update(dt: number) {
+    const xrMgr: any = this.xrManager;
+    const session: XRSession | null = xrMgr.getSession?.() ?? null;
+    const frame = this.xrFrame as XRFrame | null;
+    const refSpace: XRReferenceSpace | null =
+      xrMgr.getReferenceSpace?.() ?? null;
+    if (!session || !frame || !refSpace) return;
+
+    this.handleInput(session, frame, refSpace);
+
+    const objects = this.trackedObjects();
+    const fired = this.engine.update(
+      this.zones,
+      objects,
+      performance.now() / 1000,
+    );
+    for (const event of fired) this.runActions(event);
+
+    this.updateVisuals(this.engine.occupancy(this.zones, objects));
+  }
+
+  // ---------------- rules ----------------
+
+  private trackedObjects(): ZoneObject[] {
+    const objects: ZoneObject[] = [];
+    for (const entity of this.queries.objects.entities) {
+      const p = entity.getVectorView(DetectedObject, "position");
+      objects.push({
+        trackId: entity.getValue(DetectedObject, "trackId") ?? -1,
+        label: entity.getValue(DetectedObject, "label") ?? "",
+        position: new THREE.Vector3(p[0], p[1], p[2]),
+      });
+    }
+    return objects;
+  }
+
+  private runActions(event: ZoneEvent) {
+    const rule = this.zones.rules.find((r) => r.id === event.ruleId);
+    if (!rule) return;
+
+    if (rule.sound) {
+      const [x, y, z] = event.position;
+      AudioUtils.createOneShot(this.world, rule.sound, {
+        positional: true,
+        position: { x, y, z },
+      });
+    }
+
+    if (rule.log) {
+      this.events.push(event);
+      if (this.events.length > MAX_EVENTS) this.events.shift();
+      console.log(
+        "[Zones]",
+        event.ruleName,
+        ":",
+        event.label,
+        "#" + event.trackId,
+        event.event,
+        event.zoneName,
+      );
+    }
+  }
+
+  private save() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.zones));
+  }
+
+  // ---------------- drawing ----------------
+
+  private handleInput(
+    session: XRSession,
+    frame: XRFrame,
+    refSpace: XRReferenceSpace,
+  ) {
+    let right: XRInputSource | null = null;
+    for (const inputSource of session.inputSources) {
+      if (inputSource.targetRayMode !== "tracked-pointer") continue;
+      if (inputSource.handedness === "right") right = inputSource;
+    }
+
+    const buttons = right?.gamepad?.buttons;
+    const now = {
+      draw: !!buttons?.[DRAW_BUTTON_INDEX]?.pressed,
+      close: !!buttons?.[CLOSE_BUTTON_INDEX]?.pressed,
+      trigger: !!buttons?.[0]?.pressed,
+    };
+    const prev = this.prevButtons;
+    this.prevButtons = now;
+
+    if (now.draw && !prev.draw) {
+      if (this.drawing) this.stopDrawing("Zone drawing cancelled");
+      else this.startDrawing();
+    }
+    if (!this.drawing || !right) return;
+
+    this.cursor = this.floorPoint(frame, refSpace, right);
+    if (now.trigger && !prev.trigger && this.cursor) {
+      this.corners.push(this.cursor.clone());
+      this.setStatus(
+        `Zone: ${this.corners.length} corners (trigger: add, A: close)`,
+      );
+    }
+    if (now.close && !prev.close) this.closeZone();
+
+    this.updateDraft();
+  }
+
+  private startDrawing() {
+    const globals = this.globals as any;
+    if (this.drawing) return;
+    if (!acquirePanel(globals, "zones")) return; // panel clicks are ours
+
+    this.drawing = true;
+    this.corners = [];
+    this.setStatus("Zone: pull trigger on the floor to add corners");
+  }
+
+  private stopDrawing(status: string | null) {
+    if (!this.drawing) return;
+    this.drawing = false;
+    this.corners = [];
+    this.cursor = null;
+    releasePanel(this.globals, "zones");
+    this.setStatus(status);
+    this.updateDraft();
+  }
+
+  private closeZone() {
+    if (this.corners.length < 3) {
+      this.setStatus("Zone: need at least 3 corners");
+      return;
+    }
+
+    const floorY =
+      this.corners.reduce((sum, c) => sum + c.y, 0) / this.corners.length;
+    const name = `Zone ${this.zones.zones.length + 1}`;
+    this.zones.zones.push({
+      id: newZoneId("zone"),
+      name,
+      points: this.corners.map((c) => [c.x, c.z]),
+      floorY,
+      height: this.config.zoneHeight.peek(),
+    });
+    this.save();
+    this.stopDrawing(`${name} saved`);
+  }
+
+  private setStatus(text: string | null) {
+    (this.globals as any).panelStatus = text;
+    if (text) console.log("[Zones]", text);
+  }
+
+  // Pointer ray -> floor: the panel cursor when the ray is on the camera
+  // panel, else the controller ray
+  private floorPoint(
+    frame: XRFrame,
+    refSpace: XRReferenceSpace,
+    controller: XRInputSource,
+  ): THREE.Vector3 | null {
+    const globals = this.globals as any;
+    const hoverUv: { u: number; v: number } | null = globals.panelHoverUv;
+    const mapping: CameraImageMapping | null = globals.cameraImageMapping;
+
+    let ray: THREE.Ray;
+    if (hoverUv && mapping) {
+      const camera = this.camera as THREE.PerspectiveCamera;
+      const viewerMat: THREE.Matrix4 =
+        globals.cameraFramePose?.matrix.clone() ?? camera.matrixWorld.clone();
+      const { origin, dir } = panelUvToWorldRay(
+        mapping,
+        globals.cameraIntrinsics,
+        viewerMat,
+        camera,
+        hoverUv.u,
+        hoverUv.v,
+      ).ray;
+      ray = new THREE.Ray(origin, dir);
+    } else {
+      const pose = frame.getPose(controller.targetRaySpace, refSpace);
+      if (!pose) return null;
+      const { position: p, orientation: o } = pose.transform;
+      ray = new THREE.Ray(
+        new THREE.Vector3(p.x, p.y, p.z),
+        new THREE.Vector3(0, 0, -1).applyQuaternion(
+          new THREE.Quaternion(o.x, o.y, o.z, o.w),
+        ),
+      );
+    }
+
+    const floor = new THREE.Plane(new THREE.Vector3(0, 1, 0), -this.floorY());
+    const point = ray.intersectPlane(floor, new THREE.Vector3());
+    if (!point || point.distanceTo(ray.origin) > MAX_RAY_DISTANCE) return null;
+    return point;
+  }
+
+  // Height of the floor XRPlane (semantic "floor", else the lowest
+  // horizontal plane); 0 = local-floor origin when there is none
+  private floorY(): number {
+    let floor: number | null = null;
+    let lowest: number | null = null;
+
+    for (const entity of this.queries.planes.entities) {
+      const plane = entity.getValue(XRPlaneComponent, "_plane") as
+        | PlaneInfo
+        | undefined;
+      const object = entity.object3D;
+      if (!plane || !object || plane.orientation === "vertical") continue;
+
+      const y = object.position.y;
+      if (plane.semanticLabel === "floor") floor = Math.min(floor ?? y, y);
+      lowest = Math.min(lowest ?? y, y);
+    }
+    return floor ?? lowest ?? 0;
+  }
+
+  // ---------------- visuals ----------------
+
+  private ensureGroup(): THREE.Group {
+    if (!this.group) {
+      this.group = new THREE.Group();
+      this.group.name = "Zones";
+      (this.scene as THREE.Scene).add(this.group);
+    }
+    return this.group;
+  }
+
+  // Polyline through the corners (closed back to the cursor) + cursor dot
+  private updateDraft() {
+    const group = this.ensureGroup();
+
+    if (!this.draft) {
+      this.draft = new THREE.Line(
+        new THREE.BufferGeometry(),
+        new THREE.LineBasicMaterial({ color: 0xffffff, depthTest: false }),
+      );
+      this.draft.name = "ZoneDraft";
+      this.draft.frustumCulled = false;
+      group.add(this.draft);
+
+      this.cornerMarker = new THREE.Mesh(
+        new THREE.SphereGeometry(CORNER_RADIUS, 12, 8),
+        new THREE.MeshBasicMaterial({ color: 0xffffff, depthTest: false }),
+      );
+      this.cornerMarker.name = "ZoneCursor";
+      group.add(this.cornerMarker);
+    }
+
+    const points = [...this.corners];
+    if (this.cursor) points.push(this.cursor);
+    if (points.length > 2) points.push(points[0]);
+
+    this.draft.geometry.dispose();
+    this.draft.geometry = new THREE.BufferGeometry().setFromPoints(points);
+    this.draft.visible = this.drawing && points.length > 1;
+
+    this.cornerMarker!.visible = this.drawing && !!this.cursor;
+    if (this.cursor) this.cornerMarker!.position.copy(this.cursor);
+  }
+
+  private updateVisuals(occupancy: Map<string, number>) {
+    const group = this.ensureGroup();
+    const show = this.config.showZones.peek();
+    const opacity = this.config.opacity.peek();
+    const live = new Set(this.zones.zones.map((z) => z.id));
+
+    for (const [id, visual] of this.visuals) {
+      if (live.has(id)) continue;
+      disposeZoneVisual(visual);
+      this.visuals.delete(id);
+    }
+
+    this.zones.zones.forEach((zone, i) => {
+      // Same id, new points (importJson): rebuild
+      const shape = JSON.stringify([zone.points, zone.floorY, zone.height, i]);
+      let visual = this.visuals.get(zone.id);
+      if (visual && visual.shape !== shape) {
+        disposeZoneVisual(visual);
+        visual = undefined;
+      }
+      if (!visual) {
+        visual = {
+          ...createZoneVisual(zone.points, zone.height, hueForKey(i)),
+          shape,
+        };
+        visual.volume.position.y = zone.floorY;
+        visual.edges.position.y = zone.floorY;
+        group.add(visual.volume, visual.edges);
+        this.visuals.set(zone.id, visual);
+      }
+
+      const occupied = (occupancy.get(zone.id) ?? 0) > 0;
+      const material = visual.volume.material as THREE.MeshBasicMaterial;
+      material.opacity = occupied
+        ? Math.min(1, opacity * OCCUPIED_OPACITY_GAIN)
+        : opacity;
+      visual.volume.visible = show;
+      visual.edges.visible = show;
+    });
+  }
+}
+
+// Floor polygon extruded upward (ExtrudeGeometry extrudes along +Z; the
+// shape is laid out as (x, -z) and rotated so +Z becomes +Y)
+function createZoneVisual(
+  points: [number, number][],
+  height: number,
+  hue: number,
+): Omit<ZoneVisual, "shape"> {
+  const shape = new THREE.Shape(
+    points.map(([x, z]) => new THREE.Vector2(x, -z)),
+  );
+  const geometry = new THREE.ExtrudeGeometry(shape, {
+    depth: height,
+    bevelEnabled: false,
+  });
+  geometry.rotateX(-Math.PI / 2);
+
+  const color = new THREE.Color().setHSL(hue / 360, 0.8, 0.55);
+  const volume = new THREE.Mesh(
+    geometry,
+    new THREE.MeshBasicMaterial({
+      color,
+      transparent: true,
+      depthWrite: false,
+      side: THREE.DoubleSide,
+    }),
+  );
+  volume.name = "ZoneVolume";
+
+  const edges = new THREE.LineSegments(
+    new THREE.EdgesGeometry(geometry),
+    new THREE.LineBasicMaterial({ color }),
+  );
+  edges.name = "ZoneEdges";
+
+  return { volume, edges };
+}
+
+function disposeZoneVisual(visual: ZoneVisual) {
+  for (const object of [visual.volume, visual.edges]) {
+    object.parent?.remove(object);
+    object.geometry.dispose();
+    (object.material as THREE.Material).dispose();
+  }
+}
+
+function loadZoneConfig(): ZoneConfig {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseZoneConfig(JSON.parse(stored)) : emptyZoneConfig();
+  } catch (e) {
+    console.warn("[Zones] Stored zones unreadable; starting empty", e);
+    return emptyZoneConfig();
+  }
+}
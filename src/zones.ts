@@ -0,0 +1,319 @@
+// zones.ts
+//
+// Named room zones and detection trigger rules.
+//   Zone: a floor polygon (x, z in refSpace) extruded `height` meters up
+//         from `floorY`.
+//   Rule: "when <label> enters / leaves <zone> for more than <minDuration>
+//         seconds, play <sound> and / or log an event". A rule fires once per
+//         stay (enter) or absence (leave) of each track, and at most once
+//         per `cooldown` seconds overall. A track that was inside and is
+//         no longer seen (out of view, lost or forgotten) counts as outside.
+// ZoneRuleEngine evaluates the rules against tracked objects every frame.
+// Zones and rules are saved as one JSON document (ZoneConfig).
+
+import * as THREE from "three";
+
+const ZONE_FLOOR_TOLERANCE = 0.1; // m below floorY still counted as inside
+const STATE_TTL = 30; // s, per-track state kept while the track is unseen
+
+export type Zone = {
+  id: string;
+  name: string;
+  points: [number, number][]; // floor polygon, x / z
+  floorY: number;
+  height: number;
+};
+
+export type ZoneRuleEvent = "enter" | "leave";
+
+export type ZoneRule = {
+  id: string;
+  name: string;
+  zone: string; // zone id or name
+  label: string; // detection label, "*" = any
+  event: ZoneRuleEvent;
+  minDuration: number; // s inside (enter) / outside (leave) before firing
+  sound: string | null; // audio URL
+  log: boolean;
+  cooldown: number; // s between firings of this rule
+  enabled: boolean;
+};
+
+export type ZoneConfig = {
+  version: 1;
+  zones: Zone[];
+  rules: ZoneRule[];
+};
+
+export type ZoneObject = {
+  trackId: number;
+  label: string;
+  position: THREE.Vector3; // refSpace
+};
+
+export type ZoneEvent = {
+  time: number; // Date.now()
+  ruleId: string;
+  ruleName: string;
+  zoneId: string;
+  zoneName: string;
+  event: ZoneRuleEvent;
+  trackId: number;
+  label: string;
+  position: [number, number, number];
+};
+
+const RULE_DEFAULTS: Omit<ZoneRule, "id" | "name" | "zone"> = {
+  label: "person",
+  event: "enter",
+  minDuration: 2,
+  sound: "/audio/chime.mp3",
+  log: true,
+  cooldown: 5,
+  enabled: true,
+};
+
+export function emptyZoneConfig(): ZoneConfig {
+  return { version: 1, zones: [], rules: [] };
+}
+
+export function newZoneId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2, 6)}`;
+}
+
+export function findZone(config: ZoneConfig, ref: string): Zone | undefined {
+  return (
+    config.zones.find((z) => z.id === ref) ??
+    config.zones.find((z) => z.name === ref)
+  );
+}
+
+// Rule with defaults for everything not given
+export function createZoneRule(
+  rule: Partial<ZoneRule> & { zone: string },
+): ZoneRule {
+  return {
+    ...RULE_DEFAULTS,
+    ...rule,
+    id: rule.id ?? newZoneId("rule"),
+    name:
+      rule.name ??
+      `${rule.label ?? RULE_DEFAULTS.label} ${rule.event ?? "enter"}s ${
+        rule.zone
+      }`,
+  };
+}
+
+export function zoneContains(zone: Zone, p: THREE.Vector3): boolean {
+  if (p.y < zone.floorY - ZONE_FLOOR_TOLERANCE) return false;
+  if (p.y > zone.floorY + zone.height) return false;
+
+  // Even-odd ray crossing in x / z
+  let inside = false;
+  const pts = zone.points;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    const [xi, zi] = pts[i];
+    const [xj, zj] = pts[j];
+    if (zi > p.z !== zj > p.z) {
+      const x = xi + ((p.z - zi) * (xj - xi)) / (zj - zi);
+      if (p.x < x) inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Checks a parsed config and fills rule defaults; throws on bad input
+export function parseZoneConfig(json: any): ZoneConfig {
+  if (!json || typeof json !== "object") {
+    throw new Error("Zone config is not an object");
+  }
+  const zones = json.zones ?? [];
+  const rules = json.rules ?? [];
+  if (!Array.isArray(zones) || !Array.isArray(rules)) {
+    throw new Error("Zone config: zones and rules must be arrays");
+  }
+
+  const config = emptyZoneConfig();
+  for (const z of zones) {
+    const points = Array.isArray(z?.points) ? z.points : [];
+    const valid =
+      typeof z?.id === "string" &&
+      points.length >= 3 &&
+      points.every(
+        (p: unknown) =>
+          Array.isArray(p) &&
+          p.length === 2 &&
+          p.every((c) => typeof c === "number"),
+      );
+    if (!valid) {
+      throw new Error(`Zone config: zone "${z?.id}" needs an id and 3+ points`);
+    }
+    config.zones.push({
+      id: z.id,
+      name: typeof z.name === "string" ? z.name : z.id,
+      points,
+      floorY: Number(z.floorY) || 0,
+      height: Number(z.height) || 2,
+    });
+  }
+
+  for (const r of rules) {
+    if (typeof r?.zone !== "string" || !findZone(config, r.zone)) {
+      throw new Error(`Zone config: rule "${r?.name}" has unknown zone`);
+    }
+    if (r.event !== undefined && r.event !== "enter" && r.event !== "leave") {
+      throw new Error(`Zone config: rule "${r.name}" has unknown event`);
+    }
+    config.rules.push(createZoneRule(r));
+  }
+  return config;
+}
+
+// ---------------- rule engine ----------------
+
+type TrackZoneState = {
+  ruleId: string;
+  object: ZoneObject; // last sighting
+  insideSince: number | null; // s
+  outsideSince: number | null;
+  wasInside: boolean;
+  fired: boolean; // for this stay / absence
+  lastSeen: number;
+};
+
+export class ZoneRuleEngine {
+  private states = new Map<string, TrackZoneState>(); // `${rule}:${track}`
+  private lastFired = new Map<string, number>(); // by rule id
+
+  // Objects currently seen (lost tracks left out); now in seconds
+  update(config: ZoneConfig, objects: ZoneObject[], now: number): ZoneEvent[] {
+    const events: ZoneEvent[] = [];
+
+    for (const rule of config.rules) {
+      if (!rule.enabled) continue;
+      const zone = findZone(config, rule.zone);
+      if (!zone) continue;
+
+      for (const object of objects) {
+        if (rule.label !== "*" && rule.label !== object.label) continue;
+
+        const key = `${rule.id}:${object.trackId}`;
+        let state = this.states.get(key);
+        if (!state) {
+          state = {
+            ruleId: rule.id,
+            object,
+            insideSince: null,
+            outsideSince: null,
+            wasInside: false,
+            fired: false,
+            lastSeen: now,
+          };
+          this.states.set(key, state);
+        }
+        state.object = object;
+        state.lastSeen = now;
+
+        if (zoneContains(zone, object.position)) {
+          if (state.insideSince === null) {
+            state.insideSince = now;
+            state.outsideSince = null;
+            state.fired = false;
+          }
+          state.wasInside = true;
+          if (
+            rule.event === "enter" &&
+            !state.fired &&
+            now - state.insideSince >= rule.minDuration
+          ) {
+            state.fired = true;
+            if (this.take(rule, now)) {
+              events.push(zoneEvent(rule, zone, object));
+            }
+          }
+        } else {
+          this.outside(rule, zone, state, now, events);
+        }
+      }
+
+      // Not seen this frame: walked out of view, lost or forgotten
+      for (const state of this.states.values()) {
+        if (state.ruleId !== rule.id || state.lastSeen === now) continue;
+        this.outside(rule, zone, state, now, events);
+      }
+    }
+
+    for (const [key, state] of this.states) {
+      if (now - state.lastSeen <= STATE_TTL) continue;
+      // Keep a pending leave until it fires
+      const leave = config.rules.find((r) => r.id === state.ruleId);
+      if (leave?.event === "leave" && state.wasInside && !state.fired) {
+        continue;
+      }
+      this.states.delete(key);
+    }
+    return events;
+  }
+
+  // Tracks inside each zone right now (for display)
+  occupancy(config: ZoneConfig, objects: ZoneObject[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const zone of config.zones) {
+      const n = objects.filter((o) => zoneContains(zone, o.position)).length;
+      counts.set(zone.id, n);
+    }
+    return counts;
+  }
+
+  reset() {
+    this.states.clear();
+    this.lastFired.clear();
+  }
+
+  private outside(
+    rule: ZoneRule,
+    zone: Zone,
+    state: TrackZoneState,
+    now: number,
+    events: ZoneEvent[],
+  ) {
+    state.insideSince = null;
+    state.outsideSince ??= now;
+    if (
+      rule.event === "leave" &&
+      state.wasInside &&
+      !state.fired &&
+      now - state.outsideSince >= rule.minDuration
+    ) {
+      state.fired = true;
+      state.wasInside = false;
+      if (this.take(rule, now)) {
+        events.push(zoneEvent(rule, zone, state.object));
+      }
+    }
+  }
+
+  // Cooldown check; records the firing when allowed
+  private take(rule: ZoneRule, now: number): boolean {
+    const last = this.lastFired.get(rule.id);
+    if (last !== undefined && now - last < rule.cooldown) return false;
+    this.lastFired.set(rule.id, now);
+    return true;
+  }
+}
+
+function zoneEvent(rule: ZoneRule, zone: Zone, object: ZoneObject): ZoneEvent {
+  return {
+    time: Date.now(),
+    ruleId: rule.id,
+    ruleName: rule.name,
+    zoneId: zone.id,
+    zoneName: zone.name,
+    event: rule.event,
+    trackId: object.trackId,
+    label: object.label,
+    position: object.position.toArray() as [number, number, number],
+  };
+}
@@ -47,6 +47,8 @@ export default defineConfig({
     target: "esnext",
     rollupOptions: { input: "./index.html" },
   },
+  // yolo-worker.ts is an ES module worker (imports onnxruntime-web)
+  worker: { format: "es" },
   esbuild: { target: "esnext" },
   optimizeDeps: {
     exclude: ["@babylonjs/havok"],